@@ -0,0 +1,178 @@
+/**
+ * Time-based access passes
+ * A payment for an access pass requirement returns a signed JWT (HS256) in the
+ * settlement response. Later requests send it as `Authorization: Bearer <pass>`
+ * and are served without paying until it expires; scope and expiry are checked
+ * offline, without a store lookup.
+ *
+ * Usage:
+ * ```ts
+ * app.use('/api', x402ResourceServer({
+ *   ...options,
+ *   paymentRequirements: [{
+ *     mint, amount: '5', recipient,
+ *     accessPass: { durationSeconds: 86400, routes: ['/api/reports/*'] },
+ *   }],
+ *   accessPasses: { keys: [{ kid: '2024-06', secret: process.env.PASS_SECRET! }] },
+ * }));
+ * ```
+ *
+ * To rotate keys, put the new key first and keep the old one listed until the
+ * passes it signed have expired.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PaymentErrorCode } from './types';
+
+export const AUTHORIZATION_HEADER = 'authorization';
+
+/**
+ * Access pass bought by a payment requirement
+ */
+export interface AccessPassConfig {
+  /** Seconds the pass is valid after the payment settled */
+  durationSeconds: number;
+  /** Route patterns the pass is valid for, `*` matches any characters (default: all routes of the middleware) */
+  routes?: string[];
+}
+
+/**
+ * HMAC key signing access passes, identified by the `kid` JWT header
+ */
+export interface AccessPassKey {
+  kid: string;
+  secret: string;
+}
+
+export interface AccessPassOptions {
+  /** Signing keys: the first signs new passes, all of them verify passes */
+  keys: AccessPassKey[];
+  /** Issuer claim of signed passes, checked on verification (optional) */
+  issuer?: string;
+}
+
+/**
+ * Claims of an access pass JWT
+ */
+export interface AccessPassClaims {
+  iss?: string;
+  sub: string; // Payer address
+  scope: string[]; // Route patterns
+  iat: number; // Unix seconds
+  exp: number; // Unix seconds
+  jti: string; // Reference of the payment
+}
+
+/**
+ * Sign an access pass with the current key (the first one)
+ */
+export function signAccessPass(
+  claims: AccessPassClaims,
+  options: AccessPassOptions
+): string {
+  const key = options.keys[0];
+  if (!key) {
+    throw new Error('Access passes need at least one signing key');
+  }
+  const header = encodeSegment({ alg: 'HS256', typ: 'JWT', kid: key.kid });
+  const payload = encodeSegment(claims);
+  return `${header}.${payload}.${sign(`${header}.${payload}`, key.secret)}`;
+}
+
+/**
+ * Verify an access pass for a route
+ * Checks the signature against the key named by `kid`, the issuer, expiry and scope
+ */
+export function verifyAccessPass(
+  token: string,
+  options: AccessPassOptions,
+  route: string
+):
+  | { valid: true; claims: AccessPassClaims }
+  | { valid: false; error: string; errorCode: PaymentErrorCode } {
+  const invalid = (error: string) =>
+    ({ valid: false, error, errorCode: 'invalid_access_pass' }) as const;
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return invalid('Access pass is not a JWT');
+  }
+  let kid: unknown;
+  let claims: AccessPassClaims;
+  try {
+    const decodedHeader = decodeSegment(header);
+    if (decodedHeader.alg !== 'HS256') {
+      return invalid(`Unsupported access pass algorithm: ${decodedHeader.alg}`);
+    }
+    kid = decodedHeader.kid;
+    claims = decodeSegment(payload);
+  } catch {
+    return invalid('Access pass is not a JWT');
+  }
+
+  const key = options.keys.find((candidate) => candidate.kid === kid);
+  if (!key) {
+    return invalid(`Access pass signed with unknown key: ${kid}`);
+  }
+  const expected = Buffer.from(sign(`${header}.${payload}`, key.secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return invalid('Access pass signature is invalid');
+  }
+
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    return invalid(`Access pass issued by ${claims.iss}`);
+  }
+  if (typeof claims.exp !== 'number' || Date.now() / 1000 >= claims.exp) {
+    return {
+      valid: false,
+      error: 'Access pass expired',
+      errorCode: 'access_pass_expired',
+    };
+  }
+  if (
+    !Array.isArray(claims.scope) ||
+    !claims.scope.some((pattern) => matchesRoutePattern(route, pattern))
+  ) {
+    return invalid(`Access pass is not valid for ${route}`);
+  }
+  return { valid: true, claims };
+}
+
+/**
+ * Decode the claims of an access pass without verifying it (client side)
+ */
+export function decodeAccessPass(token: string): AccessPassClaims {
+  return decodeSegment(token.split('.')[1] || '');
+}
+
+/**
+ * Token of an `Authorization: Bearer <token>` header value (undefined otherwise)
+ */
+export function getBearerToken(authorization?: string): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Check if a route matches a pattern, `*` matches any characters
+ */
+export function matchesRoutePattern(route: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(route);
+}
+
+function sign(content: string, secret: string): string {
+  return createHmac('sha256', secret).update(content).digest('base64url');
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf-8').toString('base64url');
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+}
@@ -0,0 +1,54 @@
+/**
+ * Exact amount handling
+ * Amounts are kept as decimal strings (UI units) or bigint (atomic units),
+ * never as floating point numbers.
+ */
+
+const DECIMAL_AMOUNT_PATTERN = /^(\d+)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * Convert a UI amount (e.g. "0.29" or 0.29) to atomic units (e.g. 290000n for 6 decimals)
+ * Throws if the amount is negative, malformed or more precise than the mint allows
+ */
+export function toAtomicAmount(amount: string | number, decimals: number): bigint {
+  const text = typeof amount === 'number' ? String(amount) : amount.trim();
+  const match = DECIMAL_AMOUNT_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  // Shift the decimal point by the exponent, then by the mint decimals
+  const [, integerPart, fractionPart = '', exponentPart = '0'] = match;
+  const digits = `${integerPart}${fractionPart}`;
+  const scale = fractionPart.length - Number(exponentPart) - decimals;
+
+  if (scale <= 0) {
+    return BigInt(digits) * 10n ** BigInt(-scale);
+  }
+
+  const dropped = digits.slice(Math.max(digits.length - scale, 0));
+  if (/[^0]/.test(dropped)) {
+    throw new Error(
+      `Amount ${amount} has more than ${decimals} decimal places`
+    );
+  }
+  return BigInt(digits.slice(0, Math.max(digits.length - scale, 0)) || '0');
+}
+
+/**
+ * Convert atomic units to a UI amount string without trailing zeros
+ * e.g. 290000n with 6 decimals -> "0.29"
+ */
+export function formatAtomicAmount(atomic: bigint, decimals: number): string {
+  const negative = atomic < 0n;
+  const digits = (negative ? -atomic : atomic)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const integerPart = digits.slice(0, digits.length - decimals);
+  const fractionPart = digits
+    .slice(digits.length - decimals)
+    .replace(/0+$/, '');
+  return `${negative ? '-' : ''}${integerPart}${
+    fractionPart ? `.${fractionPart}` : ''
+  }`;
+}
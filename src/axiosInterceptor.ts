@@ -0,0 +1,102 @@
+/**
+ * Axios payment interceptor
+ * Pays 402 responses and retries the request once with X-PAYMENT
+ *
+ * Usage:
+ * ```ts
+ * import axios from 'axios';
+ * import { withPaymentInterceptor } from 'solana-x402-gateway';
+ *
+ * const client = withPaymentInterceptor(axios.create(), signer, {
+ *   network: 'devnet',
+ *   rpcEndpoint: 'https://api.devnet.solana.com',
+ * });
+ * const { data } = await client.get('https://api.example.com/premium');
+ * ```
+ */
+
+import { type TransactionSigner } from '@solana/kit';
+import {
+  PaymentClientOptions,
+  createPaymentHeaderForResponse,
+  getPaymentClientRpc,
+} from './paymentClient';
+import { PaymentRequiredResponse } from './types';
+
+const X_PAYMENT_HEADER = 'X-PAYMENT';
+
+/**
+ * Subset of an axios request config used by the interceptor
+ */
+export interface AxiosRequestConfigLike {
+  url?: string;
+  baseURL?: string;
+  headers?: any;
+  /** Set on the retried request so a second 402 is not paid again */
+  __x402Retry?: boolean;
+}
+
+/**
+ * Subset of an axios instance used by the interceptor
+ */
+export interface AxiosInstanceLike {
+  interceptors: {
+    response: {
+      use(
+        onFulfilled: ((response: any) => any) | null,
+        onRejected: (error: any) => any
+      ): number;
+    };
+  };
+  request(config: any): Promise<any>;
+}
+
+/**
+ * Add a response interceptor paying 402 responses to an axios instance
+ * Returns the same instance
+ */
+export function withPaymentInterceptor<T extends AxiosInstanceLike>(
+  axiosInstance: T,
+  signer: TransactionSigner,
+  options: PaymentClientOptions
+): T {
+  const rpc = getPaymentClientRpc(options);
+
+  axiosInstance.interceptors.response.use(null, async (error: any) => {
+    const response = error?.response;
+    const config: AxiosRequestConfigLike | undefined = error?.config;
+    if (!response || response.status !== 402 || !config || config.__x402Retry) {
+      throw error;
+    }
+
+    const paymentHeader = await createPaymentHeaderForResponse(
+      response.data as PaymentRequiredResponse,
+      getRequestUrl(config),
+      signer,
+      options,
+      rpc
+    );
+
+    config.__x402Retry = true;
+    config.headers = config.headers || {};
+    if (typeof config.headers.set === 'function') {
+      config.headers.set(X_PAYMENT_HEADER, paymentHeader);
+    } else {
+      config.headers[X_PAYMENT_HEADER] = paymentHeader;
+    }
+    return axiosInstance.request(config);
+  });
+
+  return axiosInstance;
+}
+
+/**
+ * Absolute URL of an axios request (the relative URL if there is no base URL)
+ */
+function getRequestUrl(config: AxiosRequestConfigLike): string {
+  try {
+    return new URL(config.url || '', config.baseURL).href;
+  } catch {
+    return config.url || '';
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * In-memory circuit breaker of an RPC endpoint.
+ * Counts consecutive failures; once failureThreshold is reached the circuit
+ * opens and the endpoint is skipped until a health probe succeeds.
+ */
+export class CircuitBreaker {
+  private failures: number;
+  private open: boolean;
+  private failureThreshold: number;
+
+  constructor(failureThreshold: number) {
+    this.failures = 0;
+    this.open = false;
+    this.failureThreshold = failureThreshold;
+  }
+
+  /**
+   * Check if the circuit is open (endpoint considered down)
+   */
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Record a successful call, closing the circuit
+   * Returns true if the circuit was open
+   */
+  recordSuccess(): boolean {
+    const wasOpen = this.isOpen();
+    this.failures = 0;
+    this.open = false;
+    return wasOpen;
+  }
+
+  /**
+   * Record a failed call
+   * Returns true if this failure opened the circuit
+   */
+  recordFailure(): boolean {
+    this.failures++;
+    if (this.isOpen() || this.failures < this.failureThreshold) {
+      return false;
+    }
+    this.open = true;
+    return true;
+  }
+}
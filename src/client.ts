@@ -3,18 +3,34 @@
  * Helper functions for creating Payment Payloads
  */
 
-import { PaymentPayload, PaymentRequirement } from './types';
+import {
+  PaymentPayload,
+  PaymentRequirement,
+  X402PaymentRequirements,
+  X402_VERSION,
+} from './types';
 import { encodePaymentPayload } from './paymentPayload';
+import { fromX402Network } from './protocol';
 
 /**
  * Create Payment Payload from signed transaction and payment requirement
  * Signed transaction MUST be Base64 encoded string
  * This is what the client sends in the X-PAYMENT header
+ * An x402 `accepts` entry produces an x402 payload, a legacy requirement a legacy payload
  */
 export function createPaymentPayload(
   signedTransactionBase64: string, // Base64 encoded signed transaction
-  paymentRequirement: PaymentRequirement
+  paymentRequirement: PaymentRequirement | X402PaymentRequirements
 ): PaymentPayload {
+  if ('scheme' in paymentRequirement) {
+    return {
+      network: fromX402Network(paymentRequirement.network),
+      transaction: signedTransactionBase64,
+      reference: paymentRequirement.extra?.reference || '',
+      x402Version: X402_VERSION,
+    };
+  }
+
   return {
     network: paymentRequirement.network,
     transaction: signedTransactionBase64,
@@ -36,8 +52,21 @@ export function createXPaymentHeader(paymentPayload: PaymentPayload): string {
  */
 export function createXPaymentHeaderFromTransaction(
   signedTransactionBase64: string, // Base64 encoded signed transaction
-  paymentRequirement: PaymentRequirement
+  paymentRequirement: PaymentRequirement | X402PaymentRequirements
 ): string {
   const payload = createPaymentPayload(signedTransactionBase64, paymentRequirement);
   return createXPaymentHeader(payload);
 }
+
+/**
+ * Create X-PAYMENT header for a payment the wallet already submitted (Solana Pay style)
+ * The transaction must include the requirement's reference; without a signature
+ * the gateway finds it by that reference
+ */
+export function createXPaymentHeaderFromSignature(
+  signature: string | undefined,
+  paymentRequirement: PaymentRequirement | X402PaymentRequirements
+): string {
+  const payload = createPaymentPayload('', paymentRequirement);
+  return createXPaymentHeader(signature ? { ...payload, signature } : payload);
+}
@@ -0,0 +1,176 @@
+/**
+ * Prepaid credits
+ * One payment tops up a credit balance tied to the payer's address; every
+ * request to a priced route then deducts its cost until the balance runs out.
+ * Requests are authorized with an X-CREDITS-AUTH header signed by the payer's key.
+ *
+ * Usage:
+ * ```ts
+ * app.use('/api', x402ResourceServer({
+ *   ...options,
+ *   paymentRequirements: [{ mint, amount: '1', recipient, credits: 100 }],
+ *   credits: { topUpCredits: 100, routeCosts: { '/api/expensive': 10 } },
+ * }));
+ *
+ * // Client: pays the top-up on the first 402, then spends credits
+ * const fetchWithPayment = wrapFetchWithPayment(fetch, signer, { network, credits: true });
+ * ```
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  MessagePartialSigner,
+  address,
+  createSignableMessage,
+  getBase58Decoder,
+  getBase58Encoder,
+  getPublicKeyFromAddress,
+  signatureBytes,
+  verifySignature,
+} from '@solana/kit';
+import { CreditUsageEntry } from './paymentStore';
+
+export const CREDITS_AUTH_HEADER = 'x-credits-auth';
+export const CREDITS_BALANCE_HEADER = 'x-credits-balance';
+export const CREDITS_COST_HEADER = 'x-credits-cost';
+
+export interface CreditsOptions {
+  /** Credits granted by a top-up payment (overridden per requirement by PaymentRequirementConfig.credits) */
+  topUpCredits: number;
+  /** Cost of a request to a route without an entry in routeCosts (default: 1) */
+  defaultCost?: number;
+  /** Cost per route: mount path + request path, without query string (optional) */
+  routeCosts?: Record<string, number>;
+  /** Path of the balance endpoint below the mount path, history at `${path}/history` (default: '/x402/credits') */
+  path?: string;
+  /** Seconds a signed X-CREDITS-AUTH header is accepted (default: 300) */
+  authMaxAgeSeconds?: number;
+  /** History entries returned by the history endpoint (default: 100) */
+  historyLimit?: number;
+}
+
+/**
+ * Credits spent by a request, reported with the verified decision
+ */
+export interface CreditsUsage {
+  payer: string;
+  cost: number;
+  balance: number; // Balance after the request
+}
+
+/**
+ * Body of the balance endpoint
+ */
+export interface CreditBalanceResponse {
+  payer: string;
+  balance: number;
+}
+
+/**
+ * Body of the usage history endpoint
+ */
+export interface CreditHistoryResponse extends CreditBalanceResponse {
+  history: CreditUsageEntry[]; // Newest first
+}
+
+/**
+ * Signed content of an X-CREDITS-AUTH header (base64 JSON)
+ */
+interface CreditsAuthPayload {
+  payer: string;
+  timestamp: number; // Unix seconds
+  nonce: string;
+  signature: string; // Base58 Ed25519 signature of the credits message
+}
+
+export const DEFAULT_CREDITS_PATH = '/x402/credits';
+export const DEFAULT_CREDITS_AUTH_MAX_AGE_SECONDS = 300;
+export const DEFAULT_CREDITS_HISTORY_LIMIT = 100;
+
+/**
+ * Message signed by the payer to spend credits on a route
+ */
+function getCreditsMessage(route: string, timestamp: number, nonce: string): string {
+  return `x402-credits:${route}:${timestamp}:${nonce}`;
+}
+
+/**
+ * Create an X-CREDITS-AUTH header authorizing one request to a route
+ * The route is the URL pathname of the request
+ */
+export async function createCreditsAuthHeader(
+  signer: MessagePartialSigner,
+  route: string
+): Promise<string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const nonce = randomUUID();
+  const [signatures] = await signer.signMessages([
+    createSignableMessage(getCreditsMessage(route, timestamp, nonce)),
+  ]);
+  const payload: CreditsAuthPayload = {
+    payer: signer.address,
+    timestamp,
+    nonce,
+    signature: getBase58Decoder().decode(signatures[signer.address]),
+  };
+  return Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64');
+}
+
+/**
+ * Verify an X-CREDITS-AUTH header for a route
+ * Returns the payer and the signature (the replay key) if it is valid
+ */
+export async function verifyCreditsAuthHeader(
+  header: string,
+  route: string,
+  maxAgeSeconds: number = DEFAULT_CREDITS_AUTH_MAX_AGE_SECONDS
+): Promise<
+  | { valid: true; payer: string; signature: string }
+  | { valid: false; error: string }
+> {
+  let payload: CreditsAuthPayload;
+  try {
+    payload = JSON.parse(Buffer.from(header, 'base64').toString('utf-8'));
+  } catch {
+    return { valid: false, error: 'X-CREDITS-AUTH header is not base64 JSON' };
+  }
+  if (
+    typeof payload?.payer !== 'string' ||
+    typeof payload.timestamp !== 'number' ||
+    typeof payload.nonce !== 'string' ||
+    typeof payload.signature !== 'string'
+  ) {
+    return { valid: false, error: 'X-CREDITS-AUTH header is incomplete' };
+  }
+  if (Math.abs(Date.now() / 1000 - payload.timestamp) > maxAgeSeconds) {
+    return { valid: false, error: 'X-CREDITS-AUTH header expired' };
+  }
+
+  try {
+    const publicKey = await getPublicKeyFromAddress(address(payload.payer));
+    const message = createSignableMessage(
+      getCreditsMessage(route, payload.timestamp, payload.nonce)
+    );
+    const valid = await verifySignature(
+      publicKey,
+      signatureBytes(getBase58Encoder().encode(payload.signature)),
+      message.content
+    );
+    if (!valid) {
+      return { valid: false, error: 'X-CREDITS-AUTH signature is invalid' };
+    }
+  } catch (verifyError) {
+    return {
+      valid: false,
+      error: `X-CREDITS-AUTH signature can't be verified: ${verifyError}`,
+    };
+  }
+  return { valid: true, payer: payload.payer, signature: payload.signature };
+}
+
+/**
+ * Credits a request to a route costs
+ */
+export function getRouteCost(options: CreditsOptions, route: string): number {
+  return options.routeCosts?.[route] ?? options.defaultCost ?? 1;
+}
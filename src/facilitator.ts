@@ -0,0 +1,601 @@
+/**
+ * x402 Facilitator
+ * Verifies and settles payments on behalf of resource servers.
+ *
+ * Resource servers either use a local facilitator (RPC access in-process) or
+ * delegate to a remote facilitator service, so a fleet of API servers can
+ * share one settlement backend.
+ *
+ * Usage:
+ * ```ts
+ * // Settlement backend
+ * app.use('/facilitator', express.json(), x402Facilitator({
+ *   network: 'devnet',
+ *   rpcEndpoint: 'https://api.devnet.solana.com',
+ * }));
+ *
+ * // Resource server
+ * app.use('/api', x402ResourceServer({
+ *   ...options,
+ *   facilitator: 'https://settlement.example.com/facilitator',
+ * }));
+ * ```
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { type TransactionPartialSigner } from '@solana/kit';
+import {
+  createSolanaRpcClient,
+  getPrimaryRpcEndpoint,
+  isRpcUnavailableError,
+  RpcFailoverOptions,
+  SolanaRpcClient,
+} from './rpcClient';
+import {
+  verifySignedTransaction,
+  verifySubmittedTransaction,
+  sendSignedTransaction,
+  verifyTransactionConfirmed,
+  estimateTransactionFee,
+} from './transactionHandler';
+import { isSubmittedPayment } from './paymentPayload';
+import { InstructionAllowlistEntry } from './transactionInspector';
+import { FeeBudget } from './feeBudget';
+import {
+  ConfirmationOptions,
+  createConfirmationSubscriptions,
+  resolveConfirmationSettings,
+} from './transactionConfirmation';
+import {
+  PaymentErrorCode,
+  PaymentPayload,
+  PaymentRequirement,
+  SettlementResponse,
+  VerificationResponse,
+} from './types';
+
+export interface FeePayerConfig {
+  /** Signer of the gateway account paying network fees */
+  signer: TransactionPartialSigner;
+  /** Max lamports spent on fees for a single payer within the budget window (default: 100000) */
+  maxFeeLamportsPerPayer?: number | bigint;
+  /** Fee budget window in seconds (default: 86400) */
+  budgetWindowSeconds?: number;
+}
+
+/**
+ * Payment kind supported by a facilitator
+ */
+export interface SupportedPaymentKind {
+  scheme: string;
+  network: string;
+  extra?: {
+    feePayer?: string; // Gasless mode: account paying network fees
+  };
+}
+
+export interface SupportedPaymentKinds {
+  kinds: SupportedPaymentKind[];
+}
+
+/**
+ * Options of a single settlement
+ */
+export interface SettleOptions {
+  /**
+   * Called once the transaction is submitted, before waiting for confirmation
+   * (only supported by local facilitators, remote ones settle in one call)
+   */
+  onSubmitted?: (signature: string) => void;
+  /**
+   * Result of verify() for this payment, reused by local facilitators for
+   * submitted payments instead of checking the landed transaction again
+   */
+  verified?: VerificationResponse;
+}
+
+/**
+ * Verifies and settles payments for a resource server
+ */
+export interface Facilitator {
+  /**
+   * Verify a payment payload against a requirement without submitting it
+   */
+  verify(
+    paymentPayload: PaymentPayload,
+    paymentRequirement: PaymentRequirement
+  ): Promise<VerificationResponse>;
+
+  /**
+   * Verify, submit and confirm a payment
+   */
+  settle(
+    paymentPayload: PaymentPayload,
+    paymentRequirement: PaymentRequirement,
+    settleOptions?: SettleOptions
+  ): Promise<SettlementResponse>;
+
+  /**
+   * Payment kinds this facilitator can settle
+   */
+  supported(): Promise<SupportedPaymentKinds>;
+}
+
+export interface LocalFacilitatorOptions {
+  /** Solana network: 'devnet' | 'mainnet-beta' | 'testnet' */
+  network: 'devnet' | 'mainnet-beta' | 'testnet';
+  /** Solana RPC endpoint URL (required unless rpcFailover or an RPC client is passed) */
+  rpcEndpoint?: string;
+  /** Several RPC endpoints with failover, retries and circuit breakers (replaces rpcEndpoint) */
+  rpcFailover?: RpcFailoverOptions;
+  /** Programs and instructions a payment transaction may contain (default: DEFAULT_INSTRUCTION_ALLOWLIST) */
+  instructionAllowlist?: InstructionAllowlistEntry[];
+  /** Gasless mode: the facilitator pays network fees of client transactions (optional) */
+  feePayer?: FeePayerConfig;
+  /** Commitment, timeouts (optionally tiered by amount) and WebSocket endpoint of confirmations */
+  confirmation?: ConfirmationOptions;
+  /** Custom logger function (optional) */
+  logger?: (message: string) => void;
+}
+
+const DEFAULT_MAX_FEE_LAMPORTS_PER_PAYER = 100000;
+const DEFAULT_FEE_BUDGET_WINDOW_SECONDS = 86400;
+const FEE_BUDGET_CLEANUP_INTERVAL_MS = 60000;
+
+/**
+ * Create a facilitator that verifies and settles payments with its own RPC client
+ */
+export function createLocalFacilitator(
+  options: LocalFacilitatorOptions,
+  client?: SolanaRpcClient
+): Facilitator {
+  const { network, feePayer, logger = console.log } = options;
+  const rpcConfig = options.rpcFailover
+    ? { logger, ...options.rpcFailover }
+    : options.rpcEndpoint;
+  if (!client && !rpcConfig) {
+    throw new Error(
+      'rpcEndpoint is required unless rpcFailover or an RPC client is passed'
+    );
+  }
+  const rpcClient = client || createSolanaRpcClient(network, rpcConfig!);
+  const feePayerAddress = feePayer?.signer.address;
+  const feeBudget = feePayer
+    ? new FeeBudget(
+        BigInt(
+          feePayer.maxFeeLamportsPerPayer ?? DEFAULT_MAX_FEE_LAMPORTS_PER_PAYER
+        ),
+        feePayer.budgetWindowSeconds ?? DEFAULT_FEE_BUDGET_WINDOW_SECONDS
+      )
+    : null;
+  const rpcSubscriptions = createConfirmationSubscriptions(
+    rpcConfig && getPrimaryRpcEndpoint(rpcConfig),
+    options.confirmation
+  );
+
+  if (feeBudget) {
+    setInterval(
+      () => feeBudget.cleanup(),
+      FEE_BUDGET_CLEANUP_INTERVAL_MS
+    ).unref();
+  }
+
+  /**
+   * Find and check a payment the wallet submitted itself
+   * Waits for at least 'confirmed', processed transactions can't be fetched yet
+   */
+  const verifySubmitted = (
+    paymentPayload: PaymentPayload,
+    paymentRequirement: PaymentRequirement
+  ) => {
+    const { commitment, timeoutMs } = resolveConfirmationSettings(
+      options.confirmation,
+      paymentRequirement
+    );
+    return verifySubmittedTransaction(
+      paymentPayload.signature,
+      paymentRequirement,
+      rpcClient,
+      {
+        commitment: commitment === 'finalized' ? 'finalized' : 'confirmed',
+        timeoutMs,
+        rpcSubscriptions,
+        pollIntervalMs: options.confirmation?.pollIntervalMs,
+      }
+    );
+  };
+
+  const verify = async (
+    paymentPayload: PaymentPayload,
+    paymentRequirement: PaymentRequirement
+  ): Promise<VerificationResponse> => {
+    if (paymentPayload.network !== network) {
+      return {
+        valid: false,
+        error: `Network mismatch: expected ${network}, got ${paymentPayload.network}`,
+        errorCode: 'network_mismatch',
+      };
+    }
+    if (isSubmittedPayment(paymentPayload)) {
+      return verifySubmitted(paymentPayload, paymentRequirement);
+    }
+    return verifySignedTransaction(
+      paymentPayload.transaction,
+      paymentRequirement,
+      rpcClient,
+      { allowlist: options.instructionAllowlist, feePayer: feePayerAddress }
+    );
+  };
+
+  return {
+    verify,
+
+    async settle(paymentPayload, paymentRequirement, settleOptions = {}) {
+      const failure = (
+        error: string,
+        errorCode: PaymentErrorCode | undefined,
+        transaction = '',
+        payer?: string
+      ): SettlementResponse => ({
+        success: false,
+        transaction,
+        network,
+        payer,
+        error,
+        errorCode,
+      });
+
+      // Submitted payment: nothing to send, the landed transaction is checked
+      if (
+        paymentPayload.network === network &&
+        isSubmittedPayment(paymentPayload)
+      ) {
+        // A landed transaction can't change, a passed verification isn't repeated
+        const verified = settleOptions.verified;
+        const submitted =
+          verified?.valid && verified.signature
+            ? { ...verified, signature: verified.signature }
+            : await verifySubmitted(paymentPayload, paymentRequirement);
+        if (!submitted.valid) {
+          return failure(
+            `Submitted payment verification failed: ${submitted.error}`,
+            submitted.errorCode,
+            submitted.signature,
+            submitted.payer
+          );
+        }
+        return {
+          success: true,
+          transaction: submitted.signature,
+          network,
+          payer: submitted.payer,
+          slot: submitted.slot,
+        };
+      }
+
+      // Step 1: Verify signed transaction before sending
+      const verificationResult = await verify(
+        paymentPayload,
+        paymentRequirement
+      );
+      if (!verificationResult.valid) {
+        return failure(
+          `Transaction verification failed: ${verificationResult.error}`,
+          verificationResult.errorCode
+        );
+      }
+      const payer = verificationResult.payer;
+
+      // Gasless mode: reserve the fee in the payer's budget before paying it
+      const gatewayPaysFee =
+        !!feePayerAddress && verificationResult.feePayer === feePayerAddress;
+      let gatewayFee = 0n;
+      if (gatewayPaysFee) {
+        try {
+          gatewayFee = await estimateTransactionFee(
+            paymentPayload.transaction,
+            rpcClient
+          );
+        } catch (error) {
+          return failure(
+            `Fee estimation failed: ${error}`,
+            isRpcUnavailableError(error) ? 'rpc_unavailable' : 'invalid_transaction',
+            '',
+            payer
+          );
+        }
+        if (!feeBudget!.reserve(payer || '', gatewayFee)) {
+          return failure(
+            `Fee budget exceeded for payer: ${payer}`,
+            'fee_budget_exceeded',
+            '',
+            payer
+          );
+        }
+      }
+
+      // Step 2: Send transaction to blockchain and wait for the commitment
+      const { commitment, timeoutMs } = resolveConfirmationSettings(
+        options.confirmation,
+        paymentRequirement
+      );
+      logger(
+        `Sending transaction to blockchain for reference: ${paymentRequirement.reference} (waiting for ${commitment})`
+      );
+      // The reserved fee is only spent once the transaction was submitted
+      const releaseFee = () => {
+        if (gatewayPaysFee) {
+          feeBudget!.release(payer || '', gatewayFee);
+        }
+      };
+      const sendResult = await sendSignedTransaction(
+        paymentPayload.transaction,
+        rpcClient,
+        {
+          feePayer: gatewayPaysFee ? feePayer!.signer : undefined,
+          commitment,
+          timeoutMs,
+          rpcSubscriptions,
+          lastValidBlockHeight: paymentRequirement.lastValidBlockHeight
+            ? BigInt(paymentRequirement.lastValidBlockHeight)
+            : undefined,
+          pollIntervalMs: options.confirmation?.pollIntervalMs,
+          onSubmitted: settleOptions.onSubmitted,
+        }
+      ).catch((error) => {
+        releaseFee();
+        throw error;
+      });
+      if (!sendResult.signature) {
+        releaseFee();
+      }
+      if (!sendResult.success) {
+        return failure(
+          `Transaction send failed: ${sendResult.error}`,
+          sendResult.errorCode,
+          sendResult.signature,
+          payer
+        );
+      }
+
+      // Step 3: Verify the confirmed transaction on-chain
+      // (processed transactions can't be fetched yet, they were checked by simulation)
+      logger(`Verifying transaction confirmation: ${sendResult.signature}`);
+      const confirmed: VerificationResponse =
+        commitment === 'processed'
+          ? { valid: true }
+          : await verifyTransactionConfirmed(
+              sendResult.signature,
+              paymentRequirement,
+              rpcClient,
+              commitment
+            );
+      if (!confirmed.valid) {
+        return failure(
+          `Transaction confirmation failed for signature ${sendResult.signature}: ${confirmed.error}`,
+          confirmed.errorCode,
+          sendResult.signature,
+          payer
+        );
+      }
+
+      return {
+        success: true,
+        transaction: sendResult.signature,
+        network,
+        payer,
+        slot: confirmed.slot,
+      };
+    },
+
+    async supported() {
+      return {
+        kinds: [
+          {
+            scheme: 'exact',
+            network,
+            ...(feePayerAddress ? { extra: { feePayer: feePayerAddress } } : {}),
+          },
+        ],
+      };
+    },
+  };
+}
+
+export interface FacilitatorClientOptions {
+  /** API key sent as Bearer token (optional) */
+  apiKey?: string;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Create a facilitator that delegates to a remote facilitator service
+ */
+export function createFacilitatorClient(
+  url: string,
+  options: FacilitatorClientOptions = {}
+): Facilitator {
+  const baseUrl = url.replace(/\/+$/, '');
+  const fetchImpl = options.fetch || fetch;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+
+  const request = async (
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown
+  ): Promise<any> => {
+    const response = await fetchImpl(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Facilitator ${path} failed with status ${response.status}`
+      );
+    }
+    return response.json();
+  };
+
+  return {
+    // Unreachable or failing facilitators are reported as facilitator_unavailable
+    async verify(paymentPayload, paymentRequirement) {
+      let result: any;
+      try {
+        result = await request('POST', '/verify', {
+          paymentPayload,
+          paymentRequirements: paymentRequirement,
+        });
+      } catch (error) {
+        return {
+          valid: false,
+          error: `${error}`,
+          errorCode: 'facilitator_unavailable',
+        };
+      }
+      return {
+        valid: !!result.isValid,
+        error: result.invalidReason,
+        errorCode: result.errorCode,
+        payer: result.payer,
+        feePayer: result.feePayer,
+      };
+    },
+
+    async settle(paymentPayload, paymentRequirement) {
+      let result: any;
+      try {
+        result = await request('POST', '/settle', {
+          paymentPayload,
+          paymentRequirements: paymentRequirement,
+        });
+      } catch (error) {
+        return {
+          success: false,
+          transaction: '',
+          network: paymentPayload.network,
+          error: `${error}`,
+          errorCode: 'facilitator_unavailable',
+        };
+      }
+      return {
+        success: !!result.success,
+        transaction: result.transaction || '',
+        network: result.network || paymentPayload.network,
+        payer: result.payer,
+        slot: result.slot,
+        error: result.errorReason,
+        errorCode: result.errorCode,
+      };
+    },
+
+    supported() {
+      return request('GET', '/supported');
+    },
+  };
+}
+
+export type FacilitatorServerOptions = LocalFacilitatorOptions & {
+  /** API key clients must send as Bearer token (required with feePayer) */
+  apiKey?: string;
+};
+
+/**
+ * x402 Facilitator service middleware
+ * Serves POST /verify, POST /settle and GET /supported for Express applications
+ * Request bodies are read from req.body (use express.json()) or from the raw stream
+ */
+export function x402Facilitator(
+  options: FacilitatorServerOptions,
+  facilitator?: Facilitator
+) {
+  const { apiKey, logger = console.log } = options;
+  // Without an API key anyone could have the fee payer pay their fees
+  if (options.feePayer && !apiKey) {
+    throw new Error('apiKey is required when a fee payer is configured');
+  }
+  facilitator ??= createLocalFacilitator(options);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const route = `${req.method} ${req.path}`;
+    if (
+      route !== 'POST /verify' &&
+      route !== 'POST /settle' &&
+      route !== 'GET /supported'
+    ) {
+      return next();
+    }
+
+    if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      if (route === 'GET /supported') {
+        res.json(await facilitator.supported());
+        return;
+      }
+
+      const body = req.body ?? (await readJsonBody(req));
+      const paymentPayload = body?.paymentPayload as PaymentPayload;
+      const paymentRequirement = body?.paymentRequirements as PaymentRequirement;
+      if (!paymentPayload || !paymentRequirement) {
+        res
+          .status(400)
+          .json({ error: 'paymentPayload and paymentRequirements are required' });
+        return;
+      }
+
+      if (route === 'POST /verify') {
+        const result = await facilitator.verify(
+          paymentPayload,
+          paymentRequirement
+        );
+        res.json({
+          isValid: result.valid,
+          invalidReason: result.error,
+          errorCode: result.errorCode,
+          payer: result.payer,
+          feePayer: result.feePayer,
+        });
+        return;
+      }
+
+      const result = await facilitator.settle(
+        paymentPayload,
+        paymentRequirement
+      );
+      res.json({
+        success: result.success,
+        errorReason: result.error,
+        errorCode: result.errorCode,
+        transaction: result.transaction,
+        network: result.network,
+        payer: result.payer,
+        slot: result.slot,
+      });
+    } catch (error) {
+      logger(`Facilitator ${route} failed: ${error}`);
+      res.status(500).json({ error: 'Facilitator error' });
+    }
+  };
+}
+
+/**
+ * Read and parse a JSON request body from the raw stream
+ */
+async function readJsonBody(req: Request): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text ? JSON.parse(text) : undefined;
+}
@@ -0,0 +1,1001 @@
+/**
+ * Fake Solana RPC
+ * In-memory ledger of lamports, mints and token accounts standing in for a
+ * Solana RPC node in offline tests. Signed transactions are decoded and executed
+ * (system transfers, token transfers, associated token account creation), so
+ * payments are verified and settled exactly as against a real cluster.
+ *
+ * Usage:
+ * ```ts
+ * import { createFakeRpc, createTestPayer } from 'solana-x402-gateway/testing';
+ *
+ * const fakeRpc = createFakeRpc();
+ * const usdc = await fakeRpc.createMint({ decimals: 6 });
+ * const payer = await createTestPayer(fakeRpc, { tokens: [{ mint: usdc, amount: '10' }] });
+ *
+ * app.use('/api', x402ResourceServer({ ...options, rpc: fakeRpc.rpc }));
+ * fakeRpc.injectFault('sendTransaction', { type: 'blockhashNotFound' });
+ * ```
+ */
+
+import {
+  address,
+  generateKeyPairSigner,
+  getAddressEncoder,
+  getBase58Decoder,
+  getCompiledTransactionMessageDecoder,
+  getPublicKeyFromAddress,
+  getSolanaErrorFromJsonRpcError,
+  SolanaError,
+  SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+  verifySignature,
+} from '@solana/kit';
+import { formatAtomicAmount } from './amount';
+import { SolanaRpcClient } from './rpcClient';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  DecodedTransaction,
+  MEMO_PROGRAM_ADDRESS,
+  SYSTEM_PROGRAM_ADDRESS,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+  decodeWireTransaction,
+  getAssociatedTokenAddress,
+  getInstructionAccounts,
+} from './transactionInspector';
+import { ConfirmationCommitment } from './transactionConfirmation';
+
+export type FakeRpcMethod =
+  | 'getAccountInfo'
+  | 'getBalance'
+  | 'getBlockHeight'
+  | 'getFeeForMessage'
+  | 'getLatestBlockhash'
+  | 'getSignaturesForAddress'
+  | 'getSignatureStatuses'
+  | 'getSlot'
+  | 'getTokenSupply'
+  | 'getTransaction'
+  | 'isBlockhashValid'
+  | 'sendTransaction'
+  | 'simulateTransaction';
+
+/**
+ * Fault injected into the next call(s) of an RPC method
+ * - 'unavailable': the endpoint can't be reached (fetch failed)
+ * - 'httpError': the endpoint answers with an HTTP error status, e.g. 429 or 503
+ * - 'timeout': the request times out after delayMs
+ * - 'blockhashNotFound': sendTransaction/simulateTransaction don't know the blockhash
+ * - 'transactionFailed': sendTransaction accepts the transaction, which then fails on chain
+ * - 'dropped': sendTransaction returns a signature, but the transaction never lands
+ * - 'delayedConfirmation': the sent transaction is only confirmed/finalized after a delay
+ */
+export type FakeRpcFault =
+  | { type: 'unavailable' }
+  | { type: 'httpError'; statusCode: number }
+  | { type: 'timeout'; delayMs?: number }
+  | { type: 'blockhashNotFound' }
+  | { type: 'transactionFailed'; error?: unknown }
+  | { type: 'dropped' }
+  | { type: 'delayedConfirmation'; confirmAfterMs: number; finalizeAfterMs?: number };
+
+export interface FakeRpcOptions {
+  /** Lamports charged per signature (default: 5000) */
+  lamportsPerSignature?: bigint;
+  /** Ms until a landed transaction is confirmed (default: 0) */
+  confirmAfterMs?: number;
+  /** Ms until a landed transaction is finalized (default: confirmAfterMs) */
+  finalizeAfterMs?: number;
+  /** Initial block height (default: 1000) */
+  blockHeight?: bigint;
+}
+
+export interface FakeMint {
+  address: string;
+  decimals: number;
+  supply: bigint;
+  tokenProgram: string;
+}
+
+export interface FakeTokenAccount {
+  address: string;
+  owner: string;
+  mint: string;
+  amount: bigint;
+  tokenProgram: string;
+}
+
+/**
+ * Transaction that landed in the fake ledger
+ */
+export interface FakeTransactionRecord {
+  signature: string;
+  wireTransaction: string; // Base64 wire transaction as sent
+  slot: bigint;
+  err: unknown | null;
+  fee: bigint;
+  accounts: DecodedTransaction['accounts'];
+  preBalances: bigint[];
+  postBalances: bigint[];
+  preTokenBalances: FakeTokenBalance[];
+  postTokenBalances: FakeTokenBalance[];
+  logs: string[];
+  landedAt: number;
+  confirmAfterMs: number;
+  finalizeAfterMs: number;
+}
+
+interface FakeTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner: string;
+  programId: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+    uiAmount: number;
+    uiAmountString: string;
+  };
+}
+
+interface LedgerState {
+  lamports: Map<string, bigint>;
+  tokenAccounts: Map<string, FakeTokenAccount>;
+}
+
+interface ExecutionResult {
+  landed: boolean; // False if the transaction is rejected without paying fees
+  err: unknown | null;
+  fee: bigint;
+  logs: string[];
+  state: LedgerState; // Ledger after the transaction
+  preBalances: bigint[];
+  postBalances: bigint[];
+  preTokenBalances: FakeTokenBalance[];
+  postTokenBalances: FakeTokenBalance[];
+}
+
+const DEFAULT_LAMPORTS_PER_SIGNATURE = 5000n;
+const DEFAULT_BLOCK_HEIGHT = 1000n;
+const BLOCKHASH_VALIDITY_BLOCKS = 150n;
+const FINALIZATION_LAG_BLOCKS = 32n; // Blocks a 'finalized' view lags behind the tip
+const TOKEN_ACCOUNT_RENT_LAMPORTS = 2039280n;
+const MINT_ACCOUNT_SIZE = 82;
+const TOKEN_ACCOUNT_SIZE = 165;
+const COMMITMENT_RANK: Record<ConfirmationCommitment, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+// Instruction discriminators and program error codes
+const SYSTEM_TRANSFER = 2;
+const SYSTEM_ADVANCE_NONCE_ACCOUNT = 4;
+const TOKEN_TRANSFER = 3;
+const TOKEN_TRANSFER_CHECKED = 12;
+const ATA_CREATE = 0;
+const ATA_CREATE_IDEMPOTENT = 1;
+const SYSTEM_ERROR_INSUFFICIENT_LAMPORTS = 1;
+const TOKEN_ERROR_INSUFFICIENT_FUNDS = 1;
+const TOKEN_ERROR_MINT_MISMATCH = 3;
+const TOKEN_ERROR_OWNER_MISMATCH = 4;
+const TOKEN_ERROR_DECIMALS_MISMATCH = 18;
+
+/**
+ * In-memory Solana ledger with a fake RPC client
+ * Pass `rpc` wherever a SolanaRpcClient is expected.
+ */
+export class FakeSolanaRpc {
+  /** RPC client backed by this ledger */
+  readonly rpc: SolanaRpcClient;
+  /** Signatures of all transactions accepted by sendTransaction, in order */
+  readonly sentSignatures: string[] = [];
+
+  private options: FakeRpcOptions;
+  private state: LedgerState = {
+    lamports: new Map(),
+    tokenAccounts: new Map(),
+  };
+  private mints: Map<string, FakeMint> = new Map();
+  private transactions: Map<string, FakeTransactionRecord> = new Map();
+  private blockhashes: Map<string, bigint> = new Map(); // Blockhash -> last valid block height
+  private latestBlockhash = '';
+  private blockHeight: bigint;
+  private faults: Map<FakeRpcMethod, FakeRpcFault[]> = new Map();
+
+  constructor(options: FakeRpcOptions = {}) {
+    this.options = options;
+    this.blockHeight = options.blockHeight ?? DEFAULT_BLOCK_HEIGHT;
+    this.newBlockhash();
+    this.rpc = this.createRpcClient();
+  }
+
+  /**
+   * Create a token mint
+   */
+  async createMint(
+    options: { decimals?: number; tokenProgram?: string; address?: string } = {}
+  ): Promise<string> {
+    const mint = options.address || (await generateKeyPairSigner()).address;
+    this.mints.set(mint, {
+      address: mint,
+      decimals: options.decimals ?? 6,
+      supply: 0n,
+      tokenProgram: options.tokenProgram || TOKEN_PROGRAM_ADDRESS,
+    });
+    return mint;
+  }
+
+  /**
+   * Credit lamports to an account
+   */
+  airdrop(account: string, lamports: bigint): void {
+    this.state.lamports.set(account, this.getLamports(account) + lamports);
+  }
+
+  /**
+   * Mint tokens (atomic units) to the owner's associated token account, creating it if needed
+   * Returns the token account address
+   */
+  async mintTo(owner: string, mint: string, amount: bigint): Promise<string> {
+    const mintInfo = this.getMint(mint);
+    const tokenAccount = await getAssociatedTokenAddress(
+      owner,
+      mint,
+      mintInfo.tokenProgram
+    );
+    const existing = this.state.tokenAccounts.get(tokenAccount);
+    this.state.tokenAccounts.set(tokenAccount, {
+      address: tokenAccount,
+      owner,
+      mint,
+      amount: (existing?.amount ?? 0n) + amount,
+      tokenProgram: mintInfo.tokenProgram,
+    });
+    if (!existing) {
+      this.airdrop(tokenAccount, TOKEN_ACCOUNT_RENT_LAMPORTS);
+    }
+    mintInfo.supply += amount;
+    return tokenAccount;
+  }
+
+  /** Lamport balance of an account */
+  getLamports(account: string): bigint {
+    return this.state.lamports.get(account) ?? 0n;
+  }
+
+  /** Token balance (atomic units) of the owner's associated token account */
+  async getTokenBalance(owner: string, mint: string): Promise<bigint> {
+    const tokenAccount = await getAssociatedTokenAddress(
+      owner,
+      mint,
+      this.getMint(mint).tokenProgram
+    );
+    return this.state.tokenAccounts.get(tokenAccount)?.amount ?? 0n;
+  }
+
+  /** Landed transaction by signature */
+  getTransactionRecord(signature: string): FakeTransactionRecord | undefined {
+    return this.transactions.get(signature);
+  }
+
+  /**
+   * Advance the block height, producing a new latest blockhash
+   * Blockhashes expire 150 blocks after they were produced
+   */
+  advanceBlocks(blocks: number = 1): void {
+    this.blockHeight += BigInt(blocks);
+    this.newBlockhash();
+  }
+
+  /**
+   * Inject a fault into the next `times` calls of an RPC method
+   */
+  injectFault(method: FakeRpcMethod, fault: FakeRpcFault, times: number = 1): void {
+    const queue = this.faults.get(method) || [];
+    for (let i = 0; i < times; i++) {
+      queue.push(fault);
+    }
+    this.faults.set(method, queue);
+  }
+
+  /** Remove all pending faults */
+  clearFaults(): void {
+    this.faults.clear();
+  }
+
+  /** Mint by address, throws if it doesn't exist */
+  getMint(mint: string): FakeMint {
+    const mintInfo = this.mints.get(mint);
+    if (!mintInfo) {
+      throw new Error(`Unknown mint ${mint}`);
+    }
+    return mintInfo;
+  }
+
+  private newBlockhash(): void {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    this.latestBlockhash = getBase58Decoder().decode(bytes);
+    this.blockhashes.set(
+      this.latestBlockhash,
+      this.blockHeight + BLOCKHASH_VALIDITY_BLOCKS
+    );
+  }
+
+  /**
+   * Check a blockhash as seen at a commitment
+   * A 'finalized' view doesn't know blockhashes of the last 32 blocks yet
+   */
+  private isBlockhashValid(
+    blockhash: string,
+    commitment: ConfirmationCommitment = 'finalized'
+  ): boolean {
+    const lastValidBlockHeight = this.blockhashes.get(blockhash);
+    const blockHeight = this.getBlockHeight(commitment);
+    return (
+      lastValidBlockHeight !== undefined &&
+      lastValidBlockHeight - BLOCKHASH_VALIDITY_BLOCKS <= blockHeight &&
+      blockHeight <= lastValidBlockHeight
+    );
+  }
+
+  private getBlockHeight(commitment: ConfirmationCommitment = 'finalized'): bigint {
+    return commitment === 'finalized'
+      ? this.blockHeight - FINALIZATION_LAG_BLOCKS
+      : this.blockHeight;
+  }
+
+  /**
+   * Build the RPC client: every method returns a pending request with send()
+   * Injected faults are applied when the request is sent
+   */
+  private createRpcClient(): SolanaRpcClient {
+    const context = () => ({ slot: this.blockHeight });
+    const methods: Record<
+      FakeRpcMethod,
+      (params: any[], fault?: FakeRpcFault) => Promise<unknown>
+    > = {
+      getAccountInfo: async ([account]) => ({
+        context: context(),
+        value: this.getAccountInfo(String(account)),
+      }),
+      getBalance: async ([account]) => ({
+        context: context(),
+        value: this.getLamports(String(account)),
+      }),
+      getBlockHeight: async ([config = {}]) => this.getBlockHeight(config.commitment),
+      getFeeForMessage: async ([message]) => {
+        const { header } = getCompiledTransactionMessageDecoder().decode(
+          Buffer.from(message, 'base64')
+        );
+        return {
+          context: context(),
+          value: BigInt(header.numSignerAccounts) * this.lamportsPerSignature(),
+        };
+      },
+      getLatestBlockhash: async () => ({
+        context: context(),
+        value: {
+          blockhash: this.latestBlockhash,
+          lastValidBlockHeight: this.blockhashes.get(this.latestBlockhash)!,
+        },
+      }),
+      getSignaturesForAddress: async ([account, config = {}]) =>
+        this.getSignaturesForAddress(String(account), config),
+      getSignatureStatuses: async ([signatures]) => ({
+        context: context(),
+        value: signatures.map((signature: string) => this.getSignatureStatus(signature)),
+      }),
+      getSlot: async () => this.blockHeight,
+      getTokenSupply: async ([mint]) => {
+        const mintInfo = this.mints.get(String(mint));
+        if (!mintInfo) {
+          throw getSolanaErrorFromJsonRpcError({
+            code: -32602,
+            message: `Invalid param: could not find account`,
+          });
+        }
+        return {
+          context: context(),
+          value: toUiTokenAmount(mintInfo.supply, mintInfo.decimals),
+        };
+      },
+      getTransaction: async ([signature, config = {}]) =>
+        this.getTransaction(
+          String(signature),
+          config.commitment || 'finalized',
+          config.encoding
+        ),
+      isBlockhashValid: async ([blockhash, config = {}]) => ({
+        context: context(),
+        value: this.isBlockhashValid(String(blockhash), config.commitment),
+      }),
+      sendTransaction: async ([wireTransaction, config = {}], fault) =>
+        this.sendTransaction(String(wireTransaction), config, fault),
+      simulateTransaction: async ([wireTransaction, config = {}], fault) => ({
+        context: context(),
+        value: await this.simulateTransaction(String(wireTransaction), config, fault),
+      }),
+    };
+
+    const client: Record<string, unknown> = {};
+    for (const [method, handler] of Object.entries(methods)) {
+      client[method] = (...params: unknown[]) => ({
+        send: async () => {
+          const fault = this.takeFault(method as FakeRpcMethod);
+          await applyTransportFault(fault);
+          return handler(params, fault);
+        },
+      });
+    }
+    return client as unknown as SolanaRpcClient;
+  }
+
+  private takeFault(method: FakeRpcMethod): FakeRpcFault | undefined {
+    return this.faults.get(method)?.shift();
+  }
+
+  private lamportsPerSignature(): bigint {
+    return this.options.lamportsPerSignature ?? DEFAULT_LAMPORTS_PER_SIGNATURE;
+  }
+
+  private getAccountInfo(account: string) {
+    const mint = this.mints.get(account);
+    if (mint) {
+      const data = Buffer.alloc(MINT_ACCOUNT_SIZE);
+      data.writeBigUInt64LE(mint.supply, 36);
+      data[44] = mint.decimals;
+      data[45] = 1; // Initialized
+      return encodeAccount(mint.tokenProgram, data, this.getLamports(account));
+    }
+
+    const tokenAccount = this.state.tokenAccounts.get(account);
+    if (tokenAccount) {
+      const data = Buffer.alloc(TOKEN_ACCOUNT_SIZE);
+      Buffer.from(decodeAddress(tokenAccount.mint)).copy(data, 0);
+      Buffer.from(decodeAddress(tokenAccount.owner)).copy(data, 32);
+      data.writeBigUInt64LE(tokenAccount.amount, 64);
+      data[108] = 1; // Initialized
+      return encodeAccount(
+        tokenAccount.tokenProgram,
+        data,
+        this.getLamports(account)
+      );
+    }
+
+    const lamports = this.state.lamports.get(account);
+    return lamports === undefined
+      ? null
+      : encodeAccount(SYSTEM_PROGRAM_ADDRESS, Buffer.alloc(0), lamports);
+  }
+
+  private getSignatureStatus(signature: string) {
+    const record = this.transactions.get(signature);
+    if (!record) {
+      return null;
+    }
+    const commitment = getRecordCommitment(record);
+    return {
+      slot: record.slot,
+      confirmations: commitment === 'finalized' ? null : 0n,
+      err: record.err,
+      confirmationStatus: commitment,
+      status: record.err ? { Err: record.err } : { Ok: null },
+    };
+  }
+
+  /**
+   * Landed transactions mentioning an account, newest first
+   * Supports the before, until, limit and commitment options
+   */
+  private getSignaturesForAddress(
+    account: string,
+    config: {
+      before?: string;
+      until?: string;
+      limit?: number;
+      commitment?: ConfirmationCommitment;
+    }
+  ) {
+    const commitment = config.commitment || 'finalized';
+    const records = Array.from(this.transactions.values()).reverse();
+    const start = config.before
+      ? records.findIndex((record) => record.signature === config.before) + 1
+      : 0;
+    const result = [];
+    for (const record of records.slice(start)) {
+      if (record.signature === config.until || result.length >= (config.limit ?? 1000)) {
+        break;
+      }
+      const reached = getRecordCommitment(record);
+      if (
+        COMMITMENT_RANK[reached] < COMMITMENT_RANK[commitment] ||
+        !record.accounts.some((entry) => entry.address === account)
+      ) {
+        continue;
+      }
+      result.push({
+        signature: record.signature,
+        slot: record.slot,
+        err: record.err,
+        memo: null,
+        blockTime: BigInt(Math.floor(record.landedAt / 1000)),
+        confirmationStatus: reached,
+      });
+    }
+    return result;
+  }
+
+  private getTransaction(
+    signature: string,
+    commitment: ConfirmationCommitment,
+    encoding?: string
+  ) {
+    const record = this.transactions.get(signature);
+    if (
+      !record ||
+      COMMITMENT_RANK[getRecordCommitment(record)] < COMMITMENT_RANK[commitment]
+    ) {
+      return null;
+    }
+    return {
+      slot: record.slot,
+      blockTime: BigInt(Math.floor(record.landedAt / 1000)),
+      meta: {
+        err: record.err,
+        fee: record.fee,
+        preBalances: record.preBalances,
+        postBalances: record.postBalances,
+        preTokenBalances: record.preTokenBalances,
+        postTokenBalances: record.postTokenBalances,
+        logMessages: record.logs,
+      },
+      // jsonParsed (default) or the wire transaction with encoding 'base64'
+      transaction:
+        encoding === 'base64'
+          ? [record.wireTransaction, 'base64']
+          : {
+              signatures: [signature],
+              message: {
+                accountKeys: record.accounts.map((account) => ({
+                  pubkey: account.address,
+                  signer: account.signer,
+                  writable: account.writable,
+                  source: 'transaction',
+                })),
+              },
+            },
+    };
+  }
+
+  private async simulateTransaction(
+    wireTransaction: string,
+    config: { sigVerify?: boolean },
+    fault?: FakeRpcFault
+  ) {
+    const decoded = decodeWireTransaction(wireTransaction);
+    if (config.sigVerify && !(await hasValidSignatures(decoded))) {
+      throw signatureVerificationError();
+    }
+    if (fault?.type === 'blockhashNotFound' || !this.hasValidLifetime(decoded)) {
+      return simulationResult('BlockhashNotFound', ['Blockhash not found']);
+    }
+
+    const result = await this.execute(decoded);
+    return {
+      ...simulationResult(result.err, result.logs),
+      fee: result.fee,
+      preBalances: result.preBalances,
+      postBalances: result.postBalances,
+      preTokenBalances: result.preTokenBalances,
+      postTokenBalances: result.postTokenBalances,
+    };
+  }
+
+  private async sendTransaction(
+    wireTransaction: string,
+    config: { skipPreflight?: boolean },
+    fault?: FakeRpcFault
+  ): Promise<string> {
+    const decoded = decodeWireTransaction(wireTransaction);
+    const signature = getBase58Decoder().decode(
+      decoded.signatures[decoded.feePayer] || new Uint8Array(64)
+    );
+    if (!(await hasValidSignatures(decoded))) {
+      throw signatureVerificationError();
+    }
+    if (this.transactions.has(signature)) {
+      throw preflightError('AlreadyProcessed', []);
+    }
+    if (fault?.type === 'blockhashNotFound' || !this.hasValidLifetime(decoded)) {
+      throw preflightError('BlockhashNotFound', []);
+    }
+
+    const result = await this.execute(decoded);
+    if (!result.landed || (result.err && !config.skipPreflight)) {
+      throw preflightError(result.err, result.logs);
+    }
+    this.sentSignatures.push(signature);
+    if (fault?.type === 'dropped') {
+      return signature;
+    }
+
+    // Failed transactions land without their effects, fees are still charged
+    let { err, state, postBalances, postTokenBalances } = result;
+    if (fault?.type === 'transactionFailed') {
+      err = fault.error ?? { InstructionError: [0, { Custom: 1 }] };
+      state = cloneState(this.state);
+      chargeFee(state, decoded.feePayer, result.fee);
+      postBalances = decoded.accounts.map(
+        (account) => state.lamports.get(account.address) ?? 0n
+      );
+      postTokenBalances = result.preTokenBalances;
+    }
+    this.state = state;
+
+    const confirmAfterMs =
+      fault?.type === 'delayedConfirmation'
+        ? fault.confirmAfterMs
+        : this.options.confirmAfterMs ?? 0;
+    this.transactions.set(signature, {
+      signature,
+      wireTransaction,
+      slot: this.blockHeight,
+      err,
+      fee: result.fee,
+      accounts: decoded.accounts,
+      preBalances: result.preBalances,
+      postBalances,
+      preTokenBalances: result.preTokenBalances,
+      postTokenBalances,
+      logs: result.logs,
+      landedAt: Date.now(),
+      confirmAfterMs,
+      finalizeAfterMs: Math.max(
+        confirmAfterMs,
+        (fault?.type === 'delayedConfirmation'
+          ? fault.finalizeAfterMs
+          : this.options.finalizeAfterMs) ?? confirmAfterMs
+      ),
+    });
+    return signature;
+  }
+
+  /**
+   * Durable nonce transactions (first instruction AdvanceNonceAccount) don't expire
+   */
+  private hasValidLifetime(decoded: DecodedTransaction): boolean {
+    const [first] = decoded.instructions;
+    const usesDurableNonce =
+      !!first &&
+      first.programId === SYSTEM_PROGRAM_ADDRESS &&
+      first.data.length >= 4 &&
+      first.data.readUInt32LE(0) === SYSTEM_ADVANCE_NONCE_ACCOUNT;
+    return usesDurableNonce || this.isBlockhashValid(decoded.lifetimeToken, 'processed');
+  }
+
+  /**
+   * Execute a transaction against a copy of the ledger
+   * A failing instruction reverts all instructions, the fee is still charged
+   */
+  private async execute(decoded: DecodedTransaction): Promise<ExecutionResult> {
+    const fee =
+      BigInt(decoded.accounts.filter((account) => account.signer).length) *
+      this.lamportsPerSignature();
+    const preState = this.state;
+    const snapshot = (state: LedgerState) => ({
+      balances: decoded.accounts.map(
+        (account) => state.lamports.get(account.address) ?? 0n
+      ),
+      tokenBalances: this.getTokenBalances(decoded, state),
+    });
+    const pre = snapshot(preState);
+    const failed = (
+      landed: boolean,
+      err: unknown,
+      logs: string[],
+      state: LedgerState
+    ): ExecutionResult => {
+      const post = snapshot(state);
+      return {
+        landed,
+        err,
+        fee: landed ? fee : 0n,
+        logs,
+        state,
+        preBalances: pre.balances,
+        postBalances: post.balances,
+        preTokenBalances: pre.tokenBalances,
+        postTokenBalances: post.tokenBalances,
+      };
+    };
+
+    if (decoded.addressTableLookups.length > 0) {
+      return failed(false, 'AddressLookupTableNotFound', [], preState);
+    }
+    if ((preState.lamports.get(decoded.feePayer) ?? 0n) < fee) {
+      return failed(false, 'InsufficientFundsForFee', [], preState);
+    }
+
+    const feeState = cloneState(preState);
+    chargeFee(feeState, decoded.feePayer, fee);
+    const state = cloneState(feeState);
+    const logs: string[] = [];
+    for (const [index, instruction] of decoded.instructions.entries()) {
+      logs.push(`Program ${instruction.programId} invoke [1]`);
+      const error = await this.executeInstruction(
+        decoded,
+        instruction,
+        state
+      );
+      if (error !== null) {
+        logs.push(`Program ${instruction.programId} failed: ${JSON.stringify(error)}`);
+        return failed(true, { InstructionError: [index, error] }, logs, feeState);
+      }
+      logs.push(`Program ${instruction.programId} success`);
+    }
+
+    return { ...failed(true, null, logs, state), err: null };
+  }
+
+  /**
+   * Execute one instruction in place
+   * Returns the instruction error, or null on success
+   */
+  private async executeInstruction(
+    decoded: DecodedTransaction,
+    instruction: DecodedTransaction['instructions'][number],
+    state: LedgerState
+  ): Promise<unknown | null> {
+    const { programId, data } = instruction;
+    const accounts = getInstructionAccounts(decoded, instruction);
+    const isSigner = (account: string) =>
+      decoded.accounts.some((a) => a.address === account && a.signer);
+
+    if (programId === COMPUTE_BUDGET_PROGRAM_ADDRESS || programId === MEMO_PROGRAM_ADDRESS) {
+      return null;
+    }
+
+    if (programId === SYSTEM_PROGRAM_ADDRESS) {
+      const discriminator = data.length >= 4 ? data.readUInt32LE(0) : -1;
+      if (discriminator === SYSTEM_ADVANCE_NONCE_ACCOUNT) {
+        return null;
+      }
+      if (discriminator !== SYSTEM_TRANSFER || data.length < 12) {
+        return 'InvalidInstructionData';
+      }
+      const [from, to] = accounts;
+      if (!isSigner(from)) {
+        return 'MissingRequiredSignature';
+      }
+      const lamports = data.readBigUInt64LE(4);
+      const balance = state.lamports.get(from) ?? 0n;
+      if (balance < lamports) {
+        return { Custom: SYSTEM_ERROR_INSUFFICIENT_LAMPORTS };
+      }
+      state.lamports.set(from, balance - lamports);
+      state.lamports.set(to, (state.lamports.get(to) ?? 0n) + lamports);
+      return null;
+    }
+
+    if (programId === TOKEN_PROGRAM_ADDRESS || programId === TOKEN_2022_PROGRAM_ADDRESS) {
+      const checked = data[0] === TOKEN_TRANSFER_CHECKED;
+      if ((data[0] !== TOKEN_TRANSFER && !checked) || data.length < (checked ? 10 : 9)) {
+        return 'InvalidInstructionData';
+      }
+      const [sourceAddress, second, third, fourth] = accounts;
+      const destinationAddress = checked ? third : second;
+      const authority = checked ? fourth : third;
+      const source = state.tokenAccounts.get(sourceAddress);
+      const destination = state.tokenAccounts.get(destinationAddress);
+      if (
+        !source ||
+        !destination ||
+        source.tokenProgram !== programId ||
+        destination.tokenProgram !== programId
+      ) {
+        return 'InvalidAccountData';
+      }
+      if (source.owner !== authority) {
+        return { Custom: TOKEN_ERROR_OWNER_MISMATCH };
+      }
+      if (!isSigner(authority)) {
+        return 'MissingRequiredSignature';
+      }
+      if (source.mint !== destination.mint) {
+        return { Custom: TOKEN_ERROR_MINT_MISMATCH };
+      }
+      if (checked) {
+        if (second !== source.mint) {
+          return { Custom: TOKEN_ERROR_MINT_MISMATCH };
+        }
+        if (data[9] !== this.getMint(source.mint).decimals) {
+          return { Custom: TOKEN_ERROR_DECIMALS_MISMATCH };
+        }
+      }
+      const amount = data.readBigUInt64LE(1);
+      if (source.amount < amount) {
+        return { Custom: TOKEN_ERROR_INSUFFICIENT_FUNDS };
+      }
+      source.amount -= amount;
+      destination.amount += amount;
+      return null;
+    }
+
+    if (programId === ASSOCIATED_TOKEN_PROGRAM_ADDRESS) {
+      const discriminator = data.length > 0 ? data[0] : ATA_CREATE;
+      if (discriminator !== ATA_CREATE && discriminator !== ATA_CREATE_IDEMPOTENT) {
+        return 'InvalidInstructionData';
+      }
+      const [funder, tokenAccount, wallet, mint, , tokenProgram] = accounts;
+      const mintInfo = this.mints.get(mint);
+      if (!mintInfo || mintInfo.tokenProgram !== tokenProgram) {
+        return 'IncorrectProgramId';
+      }
+      if (
+        tokenAccount !==
+        (await getAssociatedTokenAddress(wallet, mint, tokenProgram))
+      ) {
+        return 'InvalidSeeds';
+      }
+      const existing = state.tokenAccounts.get(tokenAccount);
+      if (existing) {
+        return discriminator === ATA_CREATE_IDEMPOTENT &&
+          existing.owner === wallet &&
+          existing.mint === mint
+          ? null
+          : { Custom: 0 }; // AccountAlreadyInUse
+      }
+      const balance = state.lamports.get(funder) ?? 0n;
+      if (!isSigner(funder) || balance < TOKEN_ACCOUNT_RENT_LAMPORTS) {
+        return { Custom: SYSTEM_ERROR_INSUFFICIENT_LAMPORTS };
+      }
+      state.lamports.set(funder, balance - TOKEN_ACCOUNT_RENT_LAMPORTS);
+      state.lamports.set(tokenAccount, TOKEN_ACCOUNT_RENT_LAMPORTS);
+      state.tokenAccounts.set(tokenAccount, {
+        address: tokenAccount,
+        owner: wallet,
+        mint,
+        amount: 0n,
+        tokenProgram,
+      });
+      return null;
+    }
+
+    return 'UnsupportedProgramId';
+  }
+
+  private getTokenBalances(
+    decoded: DecodedTransaction,
+    state: LedgerState
+  ): FakeTokenBalance[] {
+    const balances: FakeTokenBalance[] = [];
+    decoded.accounts.forEach((account, accountIndex) => {
+      const tokenAccount = state.tokenAccounts.get(account.address);
+      if (tokenAccount) {
+        balances.push({
+          accountIndex,
+          mint: tokenAccount.mint,
+          owner: tokenAccount.owner,
+          programId: tokenAccount.tokenProgram,
+          uiTokenAmount: toUiTokenAmount(
+            tokenAccount.amount,
+            this.getMint(tokenAccount.mint).decimals
+          ),
+        });
+      }
+    });
+    return balances;
+  }
+}
+
+/**
+ * Throw the error of a transport fault (other faults are handled by the method)
+ */
+async function applyTransportFault(fault?: FakeRpcFault): Promise<void> {
+  switch (fault?.type) {
+    case 'unavailable':
+      throw new TypeError('fetch failed');
+    case 'httpError':
+      throw new SolanaError(SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR, {
+        headers: new Headers(),
+        message: `HTTP ${fault.statusCode}`,
+        statusCode: fault.statusCode,
+      });
+    case 'timeout':
+      await new Promise((resolve) => setTimeout(resolve, fault.delayMs ?? 0));
+      throw new DOMException('The operation timed out', 'TimeoutError');
+  }
+}
+
+function getRecordCommitment(record: FakeTransactionRecord): ConfirmationCommitment {
+  const elapsed = Date.now() - record.landedAt;
+  if (elapsed >= record.finalizeAfterMs) {
+    return 'finalized';
+  }
+  return elapsed >= record.confirmAfterMs ? 'confirmed' : 'processed';
+}
+
+async function hasValidSignatures(decoded: DecodedTransaction): Promise<boolean> {
+  for (const [signer, signature] of Object.entries(decoded.signatures)) {
+    if (
+      !signature ||
+      !(await verifySignature(
+        await getPublicKeyFromAddress(address(signer)),
+        signature,
+        decoded.messageBytes
+      ))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function chargeFee(state: LedgerState, feePayer: string, fee: bigint): void {
+  state.lamports.set(feePayer, (state.lamports.get(feePayer) ?? 0n) - fee);
+}
+
+function cloneState(state: LedgerState): LedgerState {
+  return {
+    lamports: new Map(state.lamports),
+    tokenAccounts: new Map(
+      Array.from(state.tokenAccounts.entries()).map(([key, account]) => [
+        key,
+        { ...account },
+      ])
+    ),
+  };
+}
+
+function simulationResult(err: unknown, logs: string[]) {
+  return {
+    err,
+    logs,
+    accounts: null,
+    unitsConsumed: 0n,
+    returnData: null,
+  };
+}
+
+function preflightError(err: unknown, logs: string[]) {
+  return getSolanaErrorFromJsonRpcError({
+    code: -32002,
+    message: 'Transaction simulation failed',
+    data: { ...simulationResult(err, logs), unitsConsumed: 0 },
+  });
+}
+
+function signatureVerificationError() {
+  return getSolanaErrorFromJsonRpcError({
+    code: -32003,
+    message: 'Transaction signature verification failure',
+  });
+}
+
+function toUiTokenAmount(amount: bigint, decimals: number) {
+  const uiAmountString = formatAtomicAmount(amount, decimals);
+  return {
+    amount: amount.toString(),
+    decimals,
+    uiAmount: Number(uiAmountString),
+    uiAmountString,
+  };
+}
+
+function encodeAccount(owner: string, data: Buffer, lamports: bigint) {
+  return {
+    owner,
+    lamports,
+    data: [data.toString('base64'), 'base64'],
+    executable: false,
+    rentEpoch: 0n,
+    space: BigInt(data.length),
+  };
+}
+
+function decodeAddress(account: string): Uint8Array {
+  return getAddressEncoder().encode(address(account)) as Uint8Array;
+}
@@ -0,0 +1,75 @@
+/**
+ * x402 Fastify adapter
+ * preHandler hook running the resource server core
+ *
+ * Usage:
+ * ```ts
+ * import { x402Fastify } from 'solana-x402-gateway';
+ *
+ * fastify.get('/api/premium', { preHandler: x402Fastify(options) }, handler);
+ * ```
+ */
+
+import { AUTHORIZATION_HEADER } from './accessPass';
+import { CREDITS_AUTH_HEADER } from './credits';
+import {
+  ResourceServerOptions,
+  X_PAYMENT_HEADER,
+  createResourceServerCore,
+  getHeaderValue,
+} from './resourceServerCore';
+
+/**
+ * Subset of FastifyRequest used by the adapter
+ */
+export interface FastifyRequestLike {
+  headers: Record<string, string | string[] | undefined>;
+  url: string;
+  protocol: string;
+  hostname: string;
+}
+
+/**
+ * Subset of FastifyReply used by the adapter
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+  /** Underlying node:http response, watched for the refund policy (optional) */
+  raw?: {
+    statusCode: number;
+    once(event: 'finish', listener: () => void): unknown;
+  };
+}
+
+/**
+ * x402 Resource Server preHandler hook for Fastify
+ * Replies with 402 until the request carries a verified payment
+ */
+export function x402Fastify(options: ResourceServerOptions) {
+  const core = createResourceServerCore(options);
+
+  return async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+    const decision = await core.handle({
+      paymentHeader: getHeaderValue(request.headers, X_PAYMENT_HEADER),
+      creditsHeader: getHeaderValue(request.headers, CREDITS_AUTH_HEADER),
+      authorization: getHeaderValue(request.headers, AUTHORIZATION_HEADER),
+      route: request.url.split('?')[0],
+      resource: `${request.protocol}://${request.hostname}${request.url}`,
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      reply.header(name, value);
+    }
+    if (decision.type !== 'verified') {
+      return reply.code(decision.status).send(decision.body);
+    }
+
+    // Payment verified (X-PAYMENT-RESPONSE header set), continue to route handler
+    const raw = reply.raw;
+    raw?.once('finish', () => {
+      void core.handleResponse(decision, raw.statusCode);
+    });
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * In-memory per-payer fee budget for gasless mode.
+ * Key: payer (base58 public key string)
+ * Value: { windowStart: number, spent: bigint }
+ *
+ * Limits the lamports the gateway fee payer spends on behalf of a single
+ * payer within a rolling window.
+ */
+export class FeeBudget {
+  private store: Map<string, { windowStart: number; spent: bigint }>;
+  private maxLamports: bigint;
+  private windowMs: number;
+
+  constructor(maxLamports: bigint, windowSeconds: number) {
+    this.store = new Map();
+    this.maxLamports = maxLamports;
+    this.windowMs = windowSeconds * 1000;
+  }
+
+  /**
+   * Reserve a fee paid for a payer if it fits the budget
+   * Checking and recording in one step keeps concurrent requests of a payer
+   * from overspending. Returns false if the budget doesn't cover it.
+   */
+  reserve(payer: string, lamports: bigint): boolean {
+    const spent = this.getSpent(payer);
+    if (spent + lamports > this.maxLamports) {
+      return false;
+    }
+    const entry = this.store.get(payer);
+    this.store.set(payer, {
+      windowStart: entry?.windowStart ?? Date.now(),
+      spent: spent + lamports,
+    });
+    return true;
+  }
+
+  /**
+   * Release a reserved fee that wasn't paid (the transaction was never submitted)
+   */
+  release(payer: string, lamports: bigint): void {
+    const entry = this.store.get(payer);
+    if (entry) {
+      entry.spent = entry.spent > lamports ? entry.spent - lamports : 0n;
+    }
+  }
+
+  /**
+   * Clean up expired windows (call periodically)
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [payer, entry] of this.store.entries()) {
+      if (now > entry.windowStart + this.windowMs) {
+        this.store.delete(payer);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  private getSpent(payer: string): bigint {
+    const entry = this.store.get(payer);
+    if (!entry || Date.now() > entry.windowStart + this.windowMs) {
+      this.store.delete(payer);
+      return 0n;
+    }
+    return entry.spent;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * x402 Fetch API adapter
+ * For runtimes built on Fetch API Request/Response: Hono, Next.js route handlers,
+ * Cloudflare Workers, Deno, Bun
+ *
+ * Usage:
+ * ```ts
+ * import { x402Hono, withX402Payment } from 'solana-x402-gateway';
+ *
+ * // Hono
+ * app.use('/api/premium/*', x402Hono(options));
+ *
+ * // Next.js route handler (app/api/premium/route.ts)
+ * export const GET = withX402Payment(options, async () => Response.json({ data: 'premium' }));
+ * ```
+ */
+
+import { AUTHORIZATION_HEADER } from './accessPass';
+import { CREDITS_AUTH_HEADER } from './credits';
+import {
+  PaymentDecision,
+  ResourceServerCore,
+  ResourceServerOptions,
+  X_PAYMENT_HEADER,
+  createResourceServerCore,
+} from './resourceServerCore';
+
+/**
+ * Subset of the Hono context used by the adapter
+ */
+export interface HonoContextLike {
+  req: { raw: Request };
+  header(name: string, value: string): void;
+  /** Response set by the route handler, checked for the refund policy (optional) */
+  res?: { status: number };
+}
+
+/**
+ * Run the resource server core for a Fetch API request
+ */
+function handleFetchRequest(
+  core: ResourceServerCore,
+  request: Request
+): Promise<PaymentDecision> {
+  return core.handle({
+    paymentHeader: request.headers.get(X_PAYMENT_HEADER) || undefined,
+    creditsHeader: request.headers.get(CREDITS_AUTH_HEADER) || undefined,
+    authorization: request.headers.get(AUTHORIZATION_HEADER) || undefined,
+    route: new URL(request.url).pathname,
+    resource: request.url,
+  });
+}
+
+/**
+ * Fetch API response for a 402 or error decision
+ */
+function toFetchResponse(
+  decision: Exclude<PaymentDecision, { type: 'verified' }>
+): Response {
+  return new Response(JSON.stringify(decision.body), {
+    status: decision.status,
+    headers: { ...decision.headers, 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Wrap a Fetch API handler so it only runs for requests with a verified payment
+ * The X-PAYMENT-RESPONSE header is added to the handler's response
+ */
+export function withX402Payment(
+  options: ResourceServerOptions,
+  handler: (request: Request) => Response | Promise<Response>
+) {
+  const core = createResourceServerCore(options);
+
+  return async (request: Request): Promise<Response> => {
+    const decision = await handleFetchRequest(core, request);
+    if (decision.type !== 'verified') {
+      return toFetchResponse(decision);
+    }
+
+    let response: Response;
+    try {
+      response = await handler(request);
+    } catch (error) {
+      void core.handleResponse(decision, 500);
+      throw error;
+    }
+    void core.handleResponse(decision, response.status);
+
+    // Copy the response, its headers may be immutable
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * x402 Resource Server middleware for Hono
+ * Responds with 402 until the request carries a verified payment
+ */
+export function x402Hono(options: ResourceServerOptions) {
+  const core = createResourceServerCore(options);
+
+  return async (
+    c: HonoContextLike,
+    next: () => Promise<void>
+  ): Promise<Response | void> => {
+    const decision = await handleFetchRequest(core, c.req.raw);
+    if (decision.type !== 'verified') {
+      return toFetchResponse(decision);
+    }
+
+    // Add X-PAYMENT-RESPONSE header and continue to route handler
+    for (const [name, value] of Object.entries(decision.headers)) {
+      c.header(name, value);
+    }
+    // Hono turns handler errors into a 500 response
+    await next();
+    if (c.res) {
+      void core.handleResponse(decision, c.res.status);
+    }
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * File-backed payment store
+ * Keeps the whole state in a JSON file so verified payments, issued references
+ * and used signatures survive restarts of a single gateway instance.
+ * Credit balances (credits mode) and refunds are kept in the same file and never expire.
+ * Writes go to a temporary file first and are renamed into place; memory is
+ * only updated once a write succeeded.
+ * References issued with every 402 are appended to `<filePath>.references`
+ * (JSON lines) instead, which cleanup() folds into the JSON file.
+ */
+
+import { promises as fs } from 'fs';
+import {
+  CREDIT_HISTORY_LIMIT,
+  CreditStore,
+  CreditUsageEntry,
+  IssuedReference,
+  PaidPayment,
+  PaymentStore,
+  RefundRecord,
+  RefundStore,
+} from './paymentStore';
+
+interface FileStoreData {
+  payments: Record<string, { expiry: number; payment: PaidPayment }>;
+  references: Record<string, IssuedReference>;
+  signatures: Record<string, { expiry: number; reference: string }>;
+  credits: Record<string, { balance: number; history: CreditUsageEntry[] }>;
+  refunds: Record<string, RefundRecord>;
+}
+
+export class FilePaymentStore implements PaymentStore, CreditStore, RefundStore {
+  private filePath: string;
+  private referencesPath: string;
+  private data: FileStoreData | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.referencesPath = `${filePath}.references`;
+  }
+
+  async isPaid(reference: string): Promise<boolean> {
+    return this.run(async (data) => {
+      const entry = data.payments[reference];
+      return !!entry && Date.now() <= entry.expiry;
+    });
+  }
+
+  async getPayment(reference: string): Promise<PaidPayment | null> {
+    return this.run(async (data) => {
+      const entry = data.payments[reference];
+      return entry?.payment && Date.now() <= entry.expiry
+        ? { ...entry.payment }
+        : null;
+    });
+  }
+
+  async markPaid(
+    reference: string,
+    payment: PaidPayment,
+    ttlSeconds: number
+  ): Promise<void> {
+    await this.run(() =>
+      this.commit((data) => {
+        data.payments[reference] = {
+          expiry: Date.now() + ttlSeconds * 1000,
+          payment: { ...payment },
+        };
+      })
+    );
+  }
+
+  async issueReference(
+    reference: string,
+    issued: IssuedReference
+  ): Promise<void> {
+    await this.run(async (data) => {
+      await fs.appendFile(
+        this.referencesPath,
+        `${JSON.stringify({ reference, issued })}\n`,
+        'utf-8'
+      );
+      data.references[reference] = { ...issued };
+    });
+  }
+
+  async getIssuedReference(reference: string): Promise<IssuedReference | null> {
+    return this.run(async (data) => {
+      const issued = data.references[reference];
+      if (!issued || Date.now() > issued.expiry) {
+        return null;
+      }
+      return { ...issued };
+    });
+  }
+
+  async consumeReference(reference: string): Promise<boolean> {
+    return this.run(async (data) => {
+      const issued = data.references[reference];
+      if (!issued || issued.consumed || Date.now() > issued.expiry) {
+        return false;
+      }
+      await this.commit((draft) => {
+        draft.references[reference].consumed = true;
+      });
+      return true;
+    });
+  }
+
+  async releaseReference(reference: string): Promise<void> {
+    await this.run(async (data) => {
+      if (data.references[reference]?.consumed) {
+        await this.commit((draft) => {
+          draft.references[reference].consumed = false;
+        });
+      }
+    });
+  }
+
+  async markSignatureUsed(
+    signature: string,
+    reference: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    return this.run(async (data) => {
+      const existing = data.signatures[signature];
+      if (existing && Date.now() <= existing.expiry) {
+        return false;
+      }
+      await this.commit((draft) => {
+        draft.signatures[signature] = {
+          expiry: Date.now() + ttlSeconds * 1000,
+          reference,
+        };
+      });
+      return true;
+    });
+  }
+
+  async getCreditBalance(account: string): Promise<number> {
+    return this.run(async (data) => data.credits[account]?.balance || 0);
+  }
+
+  async addCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number> {
+    return this.run(() =>
+      this.commit((data) => {
+        const credits = (data.credits[account] ||= { balance: 0, history: [] });
+        credits.balance += entry.credits;
+        credits.history.unshift({ ...entry, balance: credits.balance });
+        credits.history.length = Math.min(credits.history.length, CREDIT_HISTORY_LIMIT);
+        return credits.balance;
+      })
+    );
+  }
+
+  async deductCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number | null> {
+    return this.run(async (data) => {
+      const credits = data.credits[account];
+      if (!credits || credits.balance < entry.credits) {
+        return null;
+      }
+      return this.commit((draft) => {
+        const credits = draft.credits[account];
+        credits.balance -= entry.credits;
+        credits.history.unshift({ ...entry, balance: credits.balance });
+        credits.history.length = Math.min(credits.history.length, CREDIT_HISTORY_LIMIT);
+        return credits.balance;
+      });
+    });
+  }
+
+  async getCreditHistory(
+    account: string,
+    limit: number
+  ): Promise<CreditUsageEntry[]> {
+    return this.run(async (data) =>
+      (data.credits[account]?.history || []).slice(0, limit).map((entry) => ({ ...entry }))
+    );
+  }
+
+  async createRefund(record: RefundRecord): Promise<boolean> {
+    return this.run(async (data) => {
+      if (data.refunds[record.reference]) {
+        return false;
+      }
+      await this.commit((draft) => {
+        draft.refunds[record.reference] = { ...record };
+      });
+      return true;
+    });
+  }
+
+  async updateRefund(record: RefundRecord): Promise<void> {
+    await this.run(() =>
+      this.commit((data) => {
+        data.refunds[record.reference] = { ...record };
+      })
+    );
+  }
+
+  async getRefund(reference: string): Promise<RefundRecord | null> {
+    return this.run(async (data) => {
+      const record = data.refunds[reference];
+      return record ? { ...record } : null;
+    });
+  }
+
+  /**
+   * Remove expired entries and fold appended references into the JSON file
+   */
+  async cleanup(): Promise<number> {
+    return this.run(async () => {
+      const now = Date.now();
+      const cleaned = await this.commit((data) => {
+        let removed = 0;
+        for (const section of [data.payments, data.references, data.signatures]) {
+          for (const [key, entry] of Object.entries(section)) {
+            if (now > entry.expiry) {
+              delete section[key];
+              removed++;
+            }
+          }
+        }
+        return removed;
+      });
+      // Every issued reference is in the JSON file now
+      await fs.writeFile(this.referencesPath, '', 'utf-8');
+      return cleaned;
+    });
+  }
+
+  /**
+   * Run an operation against the loaded state
+   * Operations are serialized so read-modify-write sequences are atomic
+   */
+  private run<T>(operation: (data: FileStoreData) => Promise<T>): Promise<T> {
+    const result = this.queue.then(async () => operation(await this.load()));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<FileStoreData> {
+    if (this.data) {
+      return this.data;
+    }
+
+    let data: FileStoreData;
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content) as Partial<FileStoreData>;
+      data = {
+        payments: parsed.payments || {},
+        references: parsed.references || {},
+        signatures: parsed.signatures || {},
+        credits: parsed.credits || {},
+        refunds: parsed.refunds || {},
+      };
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to load payment store ${this.filePath}: ${error}`);
+      }
+      data = {
+        payments: {},
+        references: {},
+        signatures: {},
+        credits: {},
+        refunds: {},
+      };
+    }
+
+    // The JSON file holds the latest state of references it already knows
+    for (const { reference, issued } of await this.loadIssuedReferences()) {
+      data.references[reference] ||= issued;
+    }
+    this.data = data;
+    return this.data;
+  }
+
+  private async loadIssuedReferences(): Promise<
+    Array<{ reference: string; issued: IssuedReference }>
+  > {
+    let content: string;
+    try {
+      content = await fs.readFile(this.referencesPath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to load issued references ${this.referencesPath}: ${error}`);
+      }
+      return [];
+    }
+
+    const lines = content.split('\n').filter((line) => line.trim());
+    return lines.flatMap((line) => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        // Partial line of an append interrupted by a crash
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Apply a change to a copy of the state and write it
+   * The in-memory state is replaced only once the write succeeded
+   */
+  private async commit<T>(change: (data: FileStoreData) => T): Promise<T> {
+    const draft = structuredClone(await this.load());
+    const result = change(draft);
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(draft), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+    this.data = draft;
+    return result;
+  }
+}
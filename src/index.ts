@@ -5,22 +5,252 @@
  */
 
 // x402 Resource Server (main middleware)
+export { x402ResourceServer } from './resourceServer';
 export {
-  x402ResourceServer,
+  createResourceServerCore,
+  type ResourceServerCore,
   type ResourceServerOptions,
   type PaymentRequirementConfig,
-} from './resourceServer';
+  type PaymentRequestContext,
+  type PaymentDecision,
+  type SettlementMode,
+} from './resourceServerCore';
+
+// Payment lifecycle events and webhooks
+export type {
+  PaymentEvent,
+  PaymentEventSink,
+  PaymentEventType,
+  PaymentHooks,
+} from './paymentEvents';
+export {
+  WebhookDispatcher,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookDispatcherOptions,
+} from './webhookDispatcher';
+export {
+  MemoryWebhookOutbox,
+  FileWebhookOutbox,
+  type WebhookDelivery,
+  type WebhookOutbox,
+} from './webhookOutbox';
+
+// Prepaid credits
+export {
+  createCreditsAuthHeader,
+  verifyCreditsAuthHeader,
+  CREDITS_AUTH_HEADER,
+  CREDITS_BALANCE_HEADER,
+  CREDITS_COST_HEADER,
+  type CreditsOptions,
+  type CreditsUsage,
+  type CreditBalanceResponse,
+  type CreditHistoryResponse,
+} from './credits';
+
+// Time-based access passes
+export {
+  signAccessPass,
+  verifyAccessPass,
+  decodeAccessPass,
+  matchesRoutePattern,
+  type AccessPassClaims,
+  type AccessPassConfig,
+  type AccessPassKey,
+  type AccessPassOptions,
+} from './accessPass';
+
+// Signed payment receipts
+export {
+  signReceipt,
+  verifyReceipt,
+  encodeReceipt,
+  type PaymentReceipt,
+  type SignedPaymentReceipt,
+  type ReceiptKeysResponse,
+  type ReceiptOptions,
+} from './receipts';
+
+// Refund policy
+export {
+  buildRefundTransaction,
+  isServerError,
+  type RefundOptions,
+  type RefundablePayment,
+} from './refunds';
+
+// Payment ledger and reconciliation
+export {
+  MemoryPaymentLedger,
+  FilePaymentLedger,
+  exportLedger,
+  type LedgerEntry,
+  type LedgerExportFormat,
+  type LedgerQuery,
+  type PaymentLedger,
+} from './paymentLedger';
+export {
+  reconcileLedger,
+  type ReconciliationOptions,
+  type ReconciliationReport,
+  type UnfinalizedEntry,
+  type UnrecordedPayment,
+} from './reconciliation';
+
+// Framework adapters
+export {
+  x402Fastify,
+  type FastifyRequestLike,
+  type FastifyReplyLike,
+} from './fastifyAdapter';
+export {
+  x402Hono,
+  withX402Payment,
+  type HonoContextLike,
+} from './fetchAdapter';
+export { x402Koa, type KoaContextLike } from './koaAdapter';
+export { x402NodeHttp } from './nodeHttpAdapter';
+
+// x402 Facilitator (verification and settlement service)
+export {
+  x402Facilitator,
+  createLocalFacilitator,
+  createFacilitatorClient,
+  type Facilitator,
+  type FacilitatorClientOptions,
+  type FacilitatorServerOptions,
+  type FeePayerConfig,
+  type LocalFacilitatorOptions,
+  type SupportedPaymentKind,
+  type SupportedPaymentKinds,
+} from './facilitator';
+
+// Solana RPC client with failover
+export {
+  createSolanaRpcClient,
+  createFailoverTransport,
+  type RpcCircuitBreakerOptions,
+  type RpcEndpointConfig,
+  type RpcFailoverOptions,
+  type RpcRetryOptions,
+  type SolanaRpcClient,
+} from './rpcClient';
+
+// Transaction confirmation
+export {
+  getSubscriptionsEndpoint,
+  type ConfirmationCommitment,
+  type ConfirmationOptions,
+  type ConfirmationTier,
+} from './transactionConfirmation';
+
+// Transaction inspection
+export {
+  DEFAULT_INSTRUCTION_ALLOWLIST,
+  type InstructionAllowlistEntry,
+} from './transactionInspector';
+
+// Payment stores
+export { PaymentState } from './paymentState';
+export { FilePaymentStore } from './filePaymentStore';
+export {
+  RedisPaymentStore,
+  createRespClient,
+  type RedisCommandClient,
+  type RedisPaymentStoreOptions,
+  type RespClient,
+  type RespClientOptions,
+} from './redisPaymentStore';
+export {
+  isCreditStore,
+  isRefundStore,
+  type PaymentStore,
+  type IssuedReference,
+  type PaidPayment,
+  type CreditStore,
+  type CreditUsageEntry,
+  type RefundRecord,
+  type RefundStore,
+} from './paymentStore';
 
 // Types
 export type {
+  PaymentAssetType,
   PaymentRequirement,
   PaymentRequiredResponse,
   PaymentPayload,
+  PaymentErrorCode,
+  SettlementResponse,
+  PaymentStatusResponse,
+  VerificationResponse,
+  X402PaymentRequirements,
+  X402PaymentRequirementsExtra,
+  X402PaymentPayload,
 } from './types';
+export { NATIVE_SOL_MINT, NATIVE_SOL_DECIMALS, X402_VERSION } from './types';
+
+// x402 protocol format helpers
+export {
+  toX402Network,
+  fromX402Network,
+  toX402PaymentRequirements,
+  fromX402PaymentRequirements,
+  type ProtocolFormat,
+} from './protocol';
+export {
+  parsePaymentPayload,
+  isSubmittedPayment,
+  SUPPORTED_X402_VERSIONS,
+} from './paymentPayload';
+
+// Exact amount helpers
+export { toAtomicAmount, formatAtomicAmount } from './amount';
 
 // Client utilities (for creating Payment Payloads)
 export {
   createPaymentPayload,
   createXPaymentHeader,
   createXPaymentHeaderFromTransaction,
+  createXPaymentHeaderFromSignature,
 } from './client';
+
+// Payment transaction builder
+export {
+  buildPaymentTransaction,
+  type PaymentTransactionOptions,
+} from './paymentTransaction';
+
+// Client spending policies
+export {
+  SpendingPolicy,
+  type SpendingLimits,
+  type SpendingPolicyOptions,
+  type SpendingRequest,
+} from './spendingPolicy';
+export {
+  MemorySpendingLedger,
+  FileSpendingLedger,
+  type SpendingEntry,
+  type SpendingLedger,
+} from './spendingLedger';
+
+// Payment-aware HTTP clients
+export {
+  wrapFetchWithPayment,
+  getPaymentOptions,
+  getPaymentResponse,
+  getCreditsBalance,
+  getAccessPass,
+  decodeXPaymentResponse,
+  type PaymentClientOptions,
+  type PaymentOption,
+} from './paymentClient';
+export {
+  withPaymentInterceptor,
+  type AxiosInstanceLike,
+  type AxiosRequestConfigLike,
+} from './axiosInterceptor';
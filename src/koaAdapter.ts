@@ -0,0 +1,71 @@
+/**
+ * x402 Koa adapter
+ * Middleware running the resource server core
+ *
+ * Usage:
+ * ```ts
+ * import { x402Koa } from 'solana-x402-gateway';
+ *
+ * app.use(x402Koa(options));
+ * ```
+ */
+
+import { AUTHORIZATION_HEADER } from './accessPass';
+import { CREDITS_AUTH_HEADER } from './credits';
+import {
+  ResourceServerOptions,
+  X_PAYMENT_HEADER,
+  createResourceServerCore,
+  getHeaderValue,
+} from './resourceServerCore';
+
+/**
+ * Subset of the Koa context used by the adapter
+ */
+export interface KoaContextLike {
+  headers: Record<string, string | string[] | undefined>;
+  path: string;
+  href: string;
+  status: number;
+  body: unknown;
+  set(name: string, value: string): void;
+}
+
+/**
+ * x402 Resource Server middleware for Koa
+ * Responds with 402 until the request carries a verified payment
+ */
+export function x402Koa(options: ResourceServerOptions) {
+  const core = createResourceServerCore(options);
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    const decision = await core.handle({
+      paymentHeader: getHeaderValue(ctx.headers, X_PAYMENT_HEADER),
+      creditsHeader: getHeaderValue(ctx.headers, CREDITS_AUTH_HEADER),
+      authorization: getHeaderValue(ctx.headers, AUTHORIZATION_HEADER),
+      route: ctx.path,
+      resource: ctx.href,
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      ctx.set(name, value);
+    }
+    if (decision.type !== 'verified') {
+      ctx.status = decision.status;
+      ctx.body = decision.body;
+      return;
+    }
+
+    // Payment verified (X-PAYMENT-RESPONSE header set), continue to route handler
+    try {
+      await next();
+    } catch (error) {
+      void core.handleResponse(
+        decision,
+        (error as { status?: number })?.status || 500
+      );
+      throw error;
+    }
+    void core.handleResponse(decision, ctx.status);
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Cached mint lookups
+ */
+
+import { address } from '@solana/kit';
+import { SolanaRpcClient } from './rpcClient';
+
+/**
+ * Caches mint decimals fetched from RPC
+ * Failed lookups are not cached, so a transient RPC error is retried on the next call
+ */
+export class MintInfoCache {
+  private rpc: SolanaRpcClient;
+  private decimals: Map<string, Promise<number>>;
+
+  constructor(rpc: SolanaRpcClient) {
+    this.rpc = rpc;
+    this.decimals = new Map();
+  }
+
+  /**
+   * Get decimals of a mint
+   * Throws if the mint can't be fetched
+   */
+  getDecimals(mint: string): Promise<number> {
+    let decimals = this.decimals.get(mint);
+    if (!decimals) {
+      decimals = this.fetchDecimals(mint);
+      this.decimals.set(mint, decimals);
+      decimals.catch(() => this.decimals.delete(mint));
+    }
+    return decimals;
+  }
+
+  private async fetchDecimals(mint: string): Promise<number> {
+    const mintInfo = await (this.rpc.getTokenSupply(address(mint)) as any).send();
+    const dec = mintInfo?.value?.decimals;
+    if (dec === undefined || dec === null) {
+      throw new Error(`Unable to fetch decimals for mint ${mint}`);
+    }
+    return Number(dec);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * x402 node:http adapter
+ * Request guard running the resource server core
+ *
+ * Usage:
+ * ```ts
+ * import { createServer } from 'http';
+ * import { x402NodeHttp } from 'solana-x402-gateway';
+ *
+ * const requirePayment = x402NodeHttp(options);
+ * createServer(async (req, res) => {
+ *   if (!(await requirePayment(req, res))) return;
+ *   res.end('premium content');
+ * });
+ * ```
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { AUTHORIZATION_HEADER } from './accessPass';
+import { CREDITS_AUTH_HEADER } from './credits';
+import {
+  ResourceServerOptions,
+  X_PAYMENT_HEADER,
+  createResourceServerCore,
+  getHeaderValue,
+} from './resourceServerCore';
+
+/**
+ * x402 Resource Server guard for node:http servers
+ * Resolves true when the request may continue (X-PAYMENT-RESPONSE header set),
+ * false when a 402 or error response has already been sent
+ */
+export function x402NodeHttp(options: ResourceServerOptions) {
+  const core = createResourceServerCore(options);
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const host = getHeaderValue(req.headers, 'host') || 'localhost';
+    const protocol = (req.socket as { encrypted?: boolean }).encrypted
+      ? 'https'
+      : 'http';
+    const url = new URL(req.url || '/', `${protocol}://${host}`);
+
+    const decision = await core.handle({
+      paymentHeader: getHeaderValue(req.headers, X_PAYMENT_HEADER),
+      creditsHeader: getHeaderValue(req.headers, CREDITS_AUTH_HEADER),
+      authorization: getHeaderValue(req.headers, AUTHORIZATION_HEADER),
+      route: url.pathname,
+      resource: url.toString(),
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value);
+    }
+    if (decision.type !== 'verified') {
+      res.statusCode = decision.status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(decision.body));
+      return false;
+    }
+    res.once('finish', () => {
+      void core.handleResponse(decision, res.statusCode);
+    });
+    return true;
+  };
+}
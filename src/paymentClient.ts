@@ -0,0 +1,332 @@
+/**
+ * Payment-aware HTTP client
+ * Handles HTTP 402 responses automatically: picks a payment requirement,
+ * builds and signs the payment transaction and retries with X-PAYMENT
+ *
+ * Usage:
+ * ```ts
+ * import { wrapFetchWithPayment } from 'solana-x402-gateway';
+ *
+ * const fetchWithPayment = wrapFetchWithPayment(fetch, signer, {
+ *   network: 'devnet',
+ *   rpcEndpoint: 'https://api.devnet.solana.com',
+ * });
+ * const response = await fetchWithPayment('https://api.example.com/premium');
+ * const settlement = getPaymentResponse(response);
+ * ```
+ *
+ * With `credits: true` requests carry a signed X-CREDITS-AUTH header and are
+ * paid from the prepaid balance; a 402 is answered with a top-up payment.
+ * With `accessPasses: true` access passes returned with settlements are sent
+ * as `Authorization: Bearer` on later requests they cover.
+ */
+
+import { type TransactionSigner, isMessagePartialSigner } from '@solana/kit';
+import { createSolanaRpcClient, SolanaRpcClient } from './rpcClient';
+import {
+  PaymentTransactionOptions,
+  buildPaymentTransaction,
+} from './paymentTransaction';
+import { createXPaymentHeaderFromTransaction } from './client';
+import {
+  AUTHORIZATION_HEADER,
+  AccessPassClaims,
+  decodeAccessPass,
+  matchesRoutePattern,
+} from './accessPass';
+import {
+  CREDITS_AUTH_HEADER,
+  CREDITS_BALANCE_HEADER,
+  createCreditsAuthHeader,
+} from './credits';
+import { fromX402PaymentRequirements } from './protocol';
+import { SpendingPolicy } from './spendingPolicy';
+import {
+  PaymentRequiredResponse,
+  PaymentRequirement,
+  SettlementResponse,
+  X402PaymentRequirements,
+} from './types';
+
+const X_PAYMENT_HEADER = 'X-PAYMENT';
+const X_PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE';
+
+/**
+ * Payment requirement offered in a 402 response
+ * `accepted` is the entry as advertised, used to encode the X-PAYMENT header
+ */
+export interface PaymentOption {
+  requirement: PaymentRequirement;
+  accepted: PaymentRequirement | X402PaymentRequirements;
+}
+
+export interface PaymentClientOptions {
+  /** Solana network the client pays on: 'devnet' | 'mainnet-beta' | 'testnet' */
+  network: 'devnet' | 'mainnet-beta' | 'testnet';
+  /** Solana RPC endpoint URL (required unless rpc is set) */
+  rpcEndpoint?: string;
+  /** Solana RPC client (optional, created from rpcEndpoint otherwise) */
+  rpc?: SolanaRpcClient;
+  /** Pick the requirement to pay (default: first one on the client network) */
+  selectPaymentRequirement?: (
+    requirements: PaymentRequirement[]
+  ) => PaymentRequirement | undefined;
+  /** Options of the built payment transactions (ATA creation, compute budget, token program) */
+  transactionOptions?: PaymentTransactionOptions;
+  /** Spending guardrails checked before signing (optional) */
+  spendingPolicy?: SpendingPolicy;
+  /** Spend prepaid credits of gateways in credits mode, topping up on 402 (needs a message signer) */
+  credits?: boolean;
+  /** Reuse bought access passes on later requests they cover (wrapFetchWithPayment only) */
+  accessPasses?: boolean;
+}
+
+/**
+ * Read the payment options of a 402 response body
+ * x402 `accepts` entries are preferred, legacy `paymentRequirements` are the fallback
+ */
+export function getPaymentOptions(
+  body: PaymentRequiredResponse
+): PaymentOption[] {
+  if (body.accepts && body.accepts.length > 0) {
+    return body.accepts
+      .filter((accepted) => accepted.scheme === 'exact' && accepted.extra)
+      .map((accepted) => ({
+        requirement: fromX402PaymentRequirements(accepted),
+        accepted,
+      }));
+  }
+  return (body.paymentRequirements || []).map((requirement) => ({
+    requirement,
+    accepted: requirement,
+  }));
+}
+
+/**
+ * Decode an X-PAYMENT-RESPONSE header value into a settlement response
+ */
+export function decodeXPaymentResponse(header: string): SettlementResponse {
+  return JSON.parse(Buffer.from(header, 'base64').toString('utf-8'));
+}
+
+/**
+ * Settlement response of a paid request (null if the response carries none)
+ */
+export function getPaymentResponse(response: {
+  headers: { get(name: string): string | null };
+}): SettlementResponse | null {
+  const header = response.headers.get(X_PAYMENT_RESPONSE_HEADER);
+  return header ? decodeXPaymentResponse(header) : null;
+}
+
+/**
+ * Access pass returned with the settlement of a response (null if the response carries none)
+ */
+export function getAccessPass(response: {
+  headers: { get(name: string): string | null };
+}): string | null {
+  return getPaymentResponse(response)?.accessPass || null;
+}
+
+/**
+ * Remaining credit balance reported by a response (null if the response carries none)
+ */
+export function getCreditsBalance(response: {
+  headers: { get(name: string): string | null };
+}): number | null {
+  const header = response.headers.get(CREDITS_BALANCE_HEADER);
+  return header === null ? null : Number(header);
+}
+
+/**
+ * Create the X-PAYMENT header answering a 402 response body of a URL
+ * Throws if none of the offered requirements is acceptable or the spending policy rejects it
+ */
+export async function createPaymentHeaderForResponse(
+  body: PaymentRequiredResponse,
+  url: string,
+  signer: TransactionSigner,
+  options: PaymentClientOptions,
+  rpc: SolanaRpcClient
+): Promise<string> {
+  const { spendingPolicy } = options;
+  const rejections: string[] = [];
+  const paymentOptions: PaymentOption[] = [];
+  for (const option of getPaymentOptions(body)) {
+    if (option.requirement.network !== options.network) {
+      continue;
+    }
+    const rejection = await spendingPolicy
+      ?.checkRequirement(option.requirement, rpc)
+      .catch((error) => `Unable to check ${option.requirement.mint}: ${error}`);
+    if (rejection) {
+      rejections.push(rejection);
+    } else {
+      paymentOptions.push(option);
+    }
+  }
+  const select =
+    options.selectPaymentRequirement ||
+    ((requirements: PaymentRequirement[]) => requirements[0]);
+  const requirement = select(paymentOptions.map((option) => option.requirement));
+  const option = paymentOptions.find(
+    (candidate) => candidate.requirement === requirement
+  );
+  if (!option) {
+    const reasons = rejections.length > 0 ? rejections : [body.error];
+    throw new Error(
+      `No acceptable payment requirement on ${options.network}${
+        reasons[0] ? ` (${reasons.filter(Boolean).join('; ')})` : ''
+      }`
+    );
+  }
+
+  const build = () =>
+    buildPaymentTransaction(
+      option.requirement,
+      signer,
+      rpc,
+      options.transactionOptions
+    );
+  const transaction = spendingPolicy
+    ? await spendingPolicy.authorize(option.requirement, url, rpc, build)
+    : await build();
+  return createXPaymentHeaderFromTransaction(transaction, option.accepted);
+}
+
+/**
+ * Create the RPC client of a payment client
+ */
+export function getPaymentClientRpc(
+  options: PaymentClientOptions
+): SolanaRpcClient {
+  if (options.rpc) {
+    return options.rpc;
+  }
+  if (!options.rpcEndpoint) {
+    throw new Error('rpcEndpoint is required unless rpc is set');
+  }
+  return createSolanaRpcClient(options.network, options.rpcEndpoint);
+}
+
+/**
+ * Wrap fetch so 402 responses are paid and the request retried once with X-PAYMENT
+ * A 402 response to the retry (e.g. a rejected payment) is returned as is
+ * In credits mode the first request spends credits, the retry tops them up
+ * With accessPasses, an unexpired pass covering the URL is sent instead of paying
+ */
+export function wrapFetchWithPayment(
+  fetchFn: typeof fetch,
+  signer: TransactionSigner,
+  options: PaymentClientOptions
+): typeof fetch {
+  const rpc = getPaymentClientRpc(options);
+  const creditsSigner = options.credits ? signer : null;
+  if (creditsSigner && !isMessagePartialSigner(creditsSigner)) {
+    throw new Error('Credits mode requires a signer that can sign messages');
+  }
+  // Access passes bought through this client, by origin
+  const accessPasses: Array<{
+    origin: string;
+    token: string;
+    claims: AccessPassClaims;
+  }> = [];
+  const findAccessPass = (url: URL) => {
+    const now = Date.now() / 1000;
+    return accessPasses.find(
+      ({ origin, claims }) =>
+        origin === url.origin &&
+        claims.exp > now &&
+        claims.scope.some((pattern) => matchesRoutePattern(url.pathname, pattern))
+    );
+  };
+  const rememberAccessPass = (url: URL, response: Response) => {
+    const token = options.accessPasses ? getAccessPass(response) : null;
+    if (!token) {
+      return;
+    }
+    // Drop expired passes before adding the new one
+    const now = Date.now() / 1000;
+    for (let i = accessPasses.length - 1; i >= 0; i--) {
+      if (accessPasses[i].claims.exp <= now) {
+        accessPasses.splice(i, 1);
+      }
+    }
+    accessPasses.push({ origin: url.origin, token, claims: decodeAccessPass(token) });
+  };
+
+  return async (input, init) => {
+    const url =
+      input instanceof Request
+        ? input.url
+        : input instanceof URL
+          ? input.href
+          : input;
+    const getHeaders = () =>
+      new Headers(
+        init?.headers || (input instanceof Request ? input.headers : undefined)
+      );
+
+    // Access passes are bound to an origin, relative URLs outside browsers don't use them
+    const parsedUrl = resolveRequestUrl(url);
+
+    let firstInit = init;
+    const firstHeaders = getHeaders();
+    const accessPass =
+      options.accessPasses && parsedUrl && findAccessPass(parsedUrl);
+    if (accessPass && !firstHeaders.has(AUTHORIZATION_HEADER)) {
+      firstHeaders.set(AUTHORIZATION_HEADER, `Bearer ${accessPass.token}`);
+      firstInit = { ...init, headers: firstHeaders };
+    }
+    if (creditsSigner && isMessagePartialSigner(creditsSigner)) {
+      firstHeaders.set(
+        CREDITS_AUTH_HEADER,
+        await createCreditsAuthHeader(
+          creditsSigner,
+          parsedUrl ? parsedUrl.pathname : url.split(/[?#]/)[0]
+        )
+      );
+      firstInit = { ...init, headers: firstHeaders };
+    }
+
+    // A Request body can only be read once, keep the original for the retry
+    const firstInput = input instanceof Request ? input.clone() : input;
+    const response = await fetchFn(firstInput, firstInit);
+    if (response.status !== 402) {
+      return response;
+    }
+    // The pass was rejected (e.g. revoked key), pay again
+    if (accessPass) {
+      accessPasses.splice(accessPasses.indexOf(accessPass), 1);
+    }
+
+    const body = (await response.json()) as PaymentRequiredResponse;
+    const paymentHeader = await createPaymentHeaderForResponse(
+      body,
+      parsedUrl?.href ?? url,
+      signer,
+      options,
+      rpc
+    );
+
+    const headers = getHeaders();
+    headers.set(X_PAYMENT_HEADER, paymentHeader);
+    const paidResponse = await fetchFn(input, { ...init, headers });
+    if (parsedUrl) {
+      rememberAccessPass(parsedUrl, paidResponse);
+    }
+    return paidResponse;
+  };
+}
+
+/**
+ * Resolve a request URL, relative URLs against the page location in browsers
+ * Returns null for a relative URL without a location
+ */
+function resolveRequestUrl(url: string): URL | null {
+  try {
+    return new URL(url, typeof location === 'undefined' ? undefined : location.href);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Payment lifecycle events
+ * Emitted by the resource server to typed hooks and webhook dispatchers
+ */
+
+import { PaymentErrorCode } from './types';
+
+export type PaymentEventType =
+  | 'payment.required'
+  | 'payment.verified'
+  | 'payment.submitted'
+  | 'payment.settled'
+  | 'payment.failed'
+  | 'payment.cache_hit'
+  | 'payment.refunded'
+  | 'payment.refund_failed';
+
+/**
+ * Payment lifecycle event
+ * Fields not known yet at a stage (e.g. signature before submission) are omitted
+ */
+export interface PaymentEvent {
+  type: PaymentEventType;
+  timestamp: number; // Unix ms
+  route: string; // Route the reference was issued for
+  network: string;
+  reference: string;
+  payer?: string;
+  mint?: string; // Token mint address (NATIVE_SOL_MINT for native SOL)
+  amount?: string; // Amount in token units
+  amountAtomic?: string; // Amount in atomic units
+  signature?: string; // Transaction signature
+  refundSignature?: string; // Refund transaction signature (payment.refunded)
+  reason?: string; // Why payment is required (payment.required), failed (payment.failed) or was refunded
+  errorCode?: PaymentErrorCode; // Machine-readable reason
+}
+
+/**
+ * Typed lifecycle hooks
+ * Hooks run after the fact and never block or fail the request; errors are logged
+ */
+export interface PaymentHooks {
+  /** A payment requirement was advertised in a 402 response (one event per requirement) */
+  onPaymentRequired?: (event: PaymentEvent) => void | Promise<void>;
+  /** A payment transaction passed verification */
+  onPaymentVerified?: (event: PaymentEvent) => void | Promise<void>;
+  /** A payment transaction was submitted to the network */
+  onPaymentSubmitted?: (event: PaymentEvent) => void | Promise<void>;
+  /** A payment was confirmed and recorded */
+  onPaymentSettled?: (event: PaymentEvent) => void | Promise<void>;
+  /** A payment was rejected or failed to settle */
+  onPaymentFailed?: (event: PaymentEvent) => void | Promise<void>;
+  /** A request was served from the verified payment cache */
+  onCacheHit?: (event: PaymentEvent) => void | Promise<void>;
+  /** A payment was refunded after its protected response failed */
+  onPaymentRefunded?: (event: PaymentEvent) => void | Promise<void>;
+  /** Refunding a payment failed, it needs manual attention */
+  onRefundFailed?: (event: PaymentEvent) => void | Promise<void>;
+}
+
+/**
+ * Receiver of all payment events, e.g. a WebhookDispatcher
+ */
+export interface PaymentEventSink {
+  dispatch(event: PaymentEvent): void | Promise<void>;
+}
+
+const HOOK_NAMES: Record<PaymentEventType, keyof PaymentHooks> = {
+  'payment.required': 'onPaymentRequired',
+  'payment.verified': 'onPaymentVerified',
+  'payment.submitted': 'onPaymentSubmitted',
+  'payment.settled': 'onPaymentSettled',
+  'payment.failed': 'onPaymentFailed',
+  'payment.cache_hit': 'onCacheHit',
+  'payment.refunded': 'onPaymentRefunded',
+  'payment.refund_failed': 'onRefundFailed',
+};
+
+/**
+ * Create an event emitter calling the hooks and sinks without awaiting them
+ */
+export function createPaymentEventEmitter(
+  hooks: PaymentHooks = {},
+  sinks: PaymentEventSink[] = [],
+  logger: (message: string) => void = console.log
+): (event: Omit<PaymentEvent, 'timestamp'>) => void {
+  return (eventFields) => {
+    const event: PaymentEvent = { ...eventFields, timestamp: Date.now() };
+    const hook = hooks[HOOK_NAMES[event.type]];
+    const listeners = [
+      ...(hook ? [hook] : []),
+      ...sinks.map((sink) => (e: PaymentEvent) => sink.dispatch(e)),
+    ];
+    for (const listener of listeners) {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch((error) => {
+          logger(`Payment event listener failed for ${event.type}: ${error}`);
+        });
+    }
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Payment ledger
+ * Durable record of every settled payment for accounting, exportable as
+ * JSONL or CSV and checked against the chain by reconcileLedger.
+ *
+ * Usage:
+ * ```ts
+ * const ledger = new FilePaymentLedger('./payments.jsonl');
+ * app.use('/api', x402ResourceServer({ ...options, ledger }));
+ *
+ * // Monthly export
+ * const entries = await ledger.list({ since: Date.parse('2025-06-01') });
+ * await fs.writeFile('payments-june.csv', exportLedger(entries, 'csv'));
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import { PaymentAssetType, PaymentRequirement } from './types';
+
+/**
+ * Settled payment
+ */
+export interface LedgerEntry {
+  reference: string;
+  route: string; // Route the reference was issued for
+  network: string;
+  payer: string; // Authority of the payment transfer
+  assetType: PaymentAssetType;
+  mint: string; // Token mint address (NATIVE_SOL_MINT for native SOL)
+  amountAtomic: string; // Amount in atomic units
+  decimals: number;
+  recipient: string;
+  signature: string; // Transaction signature
+  slot?: number; // Slot the transaction landed in (unknown at 'processed' commitment)
+  timestamp: number; // Unix ms of the settlement
+  requirement: PaymentRequirement; // Requirement the payment was settled against
+}
+
+/**
+ * Filter of listed ledger entries
+ */
+export interface LedgerQuery {
+  since?: number; // Unix ms, inclusive
+  until?: number; // Unix ms, exclusive
+  route?: string;
+  payer?: string;
+}
+
+export type LedgerExportFormat = 'jsonl' | 'csv';
+
+/**
+ * Storage of settled payments
+ */
+export interface PaymentLedger {
+  /** Append an entry */
+  record(entry: LedgerEntry): Promise<void>;
+  /** Recorded entries matching the query, oldest first */
+  list(query?: LedgerQuery): Promise<LedgerEntry[]>;
+}
+
+/**
+ * Entry fields exported as CSV columns, in order
+ */
+const CSV_COLUMNS: Array<Exclude<keyof LedgerEntry, 'requirement'>> = [
+  'timestamp',
+  'reference',
+  'route',
+  'network',
+  'payer',
+  'assetType',
+  'mint',
+  'amountAtomic',
+  'decimals',
+  'recipient',
+  'signature',
+  'slot',
+];
+
+/**
+ * In-memory payment ledger (lost on restart)
+ */
+export class MemoryPaymentLedger implements PaymentLedger {
+  private entries: LedgerEntry[] = [];
+
+  async record(entry: LedgerEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async list(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    return filterEntries(this.entries, query);
+  }
+}
+
+/**
+ * File-backed payment ledger
+ * Appends one JSON entry per line, so the file itself is a JSONL export
+ */
+export class FilePaymentLedger implements PaymentLedger {
+  private filePath: string;
+  private entries: LedgerEntry[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    await this.run(async (entries) => {
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+      entries.push({ ...entry });
+    });
+  }
+
+  async list(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    return this.run(async (entries) => filterEntries(entries, query));
+  }
+
+  /**
+   * Run an operation against the loaded entries
+   * Operations are serialized so appends keep their order
+   */
+  private run<T>(
+    operation: (entries: LedgerEntry[]) => Promise<T>
+  ): Promise<T> {
+    const result = this.queue.then(async () => operation(await this.load()));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<LedgerEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      this.entries = content
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as LedgerEntry);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to load payment ledger ${this.filePath}: ${error}`);
+      }
+      this.entries = [];
+    }
+    return this.entries;
+  }
+}
+
+/**
+ * Export ledger entries
+ * - 'jsonl': one JSON entry per line, including the full requirement
+ * - 'csv': header row and one row per entry, timestamps as ISO 8601
+ */
+export function exportLedger(
+  entries: LedgerEntry[],
+  format: LedgerExportFormat
+): string {
+  if (format === 'jsonl') {
+    return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  }
+
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      column === 'timestamp'
+        ? new Date(entry.timestamp).toISOString()
+        : toCsvField(entry[column])
+    ).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].map((row) => `${row}\r\n`).join('');
+}
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break
+ */
+function toCsvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function filterEntries(entries: LedgerEntry[], query: LedgerQuery): LedgerEntry[] {
+  return entries
+    .filter(
+      (entry) =>
+        (query.since === undefined || entry.timestamp >= query.since) &&
+        (query.until === undefined || entry.timestamp < query.until) &&
+        (query.route === undefined || entry.route === query.route) &&
+        (query.payer === undefined || entry.payer === query.payer)
+    )
+    .map((entry) => ({ ...entry }));
+}
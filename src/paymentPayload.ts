@@ -3,37 +3,95 @@
  * Handles X-PAYMENT header with Base64 encoded JSON
  */
 
-import { PaymentPayload } from './types';
+import { PaymentPayload, X402PaymentPayload, X402_VERSION } from './types';
+import { fromX402Network, toX402Network } from './protocol';
+
+/**
+ * x402 protocol versions accepted in X-PAYMENT headers
+ */
+export const SUPPORTED_X402_VERSIONS = [X402_VERSION];
 
 /**
  * Parse Payment Payload from X-PAYMENT header
- * The header contains Base64 encoded JSON
+ * The header contains Base64 encoded JSON, either an x402 payload
+ * (negotiated by its x402Version) or a legacy payload
  */
 export function parsePaymentPayload(headerValue: string): PaymentPayload {
+  let payload: any;
   try {
     const decoded = Buffer.from(headerValue, 'base64').toString('utf-8');
-    const payload = JSON.parse(decoded) as PaymentPayload;
-    return payload;
+    payload = JSON.parse(decoded);
   } catch (error) {
     throw new Error(`Invalid Payment Payload format: ${error}`);
   }
+
+  if (payload?.x402Version === undefined) {
+    // Submitted payments carry no transaction
+    return { ...payload, transaction: payload?.transaction ?? '' } as PaymentPayload;
+  }
+
+  if (!SUPPORTED_X402_VERSIONS.includes(payload.x402Version)) {
+    throw new Error(
+      `Unsupported x402Version ${payload.x402Version}, supported: ${SUPPORTED_X402_VERSIONS.join(', ')}`
+    );
+  }
+  if (payload.scheme !== 'exact') {
+    throw new Error(`Unsupported payment scheme: ${payload.scheme}`);
+  }
+
+  const x402Payload = payload as X402PaymentPayload;
+  return {
+    network: fromX402Network(x402Payload.network),
+    transaction: x402Payload.payload?.transaction ?? '',
+    reference: x402Payload.payload?.reference || '',
+    ...(x402Payload.payload?.signature !== undefined
+      ? { signature: x402Payload.payload.signature }
+      : {}),
+    x402Version: x402Payload.x402Version,
+  };
 }
 
 /**
  * Encode Payment Payload to Base64 string for X-PAYMENT header
+ * Payloads with an x402Version are encoded in the x402 format
  */
 export function encodePaymentPayload(payload: PaymentPayload): string {
-  const json = JSON.stringify(payload);
+  const wirePayload: PaymentPayload | X402PaymentPayload =
+    payload.x402Version === undefined
+      ? payload
+      : {
+          x402Version: payload.x402Version,
+          scheme: 'exact',
+          network: toX402Network(payload.network),
+          payload: {
+            ...(payload.transaction ? { transaction: payload.transaction } : {}),
+            ...(payload.signature ? { signature: payload.signature } : {}),
+            ...(payload.reference ? { reference: payload.reference } : {}),
+          },
+        };
+  const json = JSON.stringify(wirePayload);
   return Buffer.from(json, 'utf-8').toString('base64');
 }
 
 /**
  * Validate Payment Payload structure
+ * x402 payloads may omit the reference, it is then found in the transaction.
+ * Submitted payments always need the reference, their transaction is found by it.
  */
 export function validatePaymentPayload(payload: PaymentPayload): boolean {
   return (
     typeof payload.network === 'string' &&
     typeof payload.transaction === 'string' &&
-    typeof payload.reference === 'string'
+    typeof payload.reference === 'string' &&
+    (payload.signature === undefined || typeof payload.signature === 'string') &&
+    (payload.reference !== '' ||
+      (payload.x402Version !== undefined && !isSubmittedPayment(payload)))
   );
 }
+
+/**
+ * Check if a payload is a payment the wallet already submitted (no transaction)
+ */
+export function isSubmittedPayment(payload: PaymentPayload): boolean {
+  return payload.transaction === '';
+}
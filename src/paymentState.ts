@@ -1,21 +1,41 @@
+import {
+  CREDIT_HISTORY_LIMIT,
+  CreditStore,
+  CreditUsageEntry,
+  IssuedReference,
+  PaidPayment,
+  PaymentStore,
+  RefundRecord,
+  RefundStore,
+} from './paymentStore';
+
 /**
- * In-memory store for verified payment references with TTL.
- * Key: reference (base58 public key string)
- * Value: { expiry: number, signature: string }
+ * In-memory payment store with TTL.
+ * Payments - Key: reference (base58 public key string), Value: { expiry, payment }
+ * References - Key: reference, Value: IssuedReference
+ * Signatures - Key: transaction signature, Value: { expiry, reference }
+ * Credits - Key: payer address, Value: { balance, history } (never expire)
+ * Refunds - Key: reference, Value: RefundRecord (never expire)
+ *
+ * State is local to the process; use a persistent store to survive restarts
+ * or to share state between instances.
  */
-export class PaymentState {
-  private store: Map<string, { expiry: number; signature: string }>;
-  private ttlMs: number;
+export class PaymentState implements PaymentStore, CreditStore, RefundStore {
+  private store: Map<string, { expiry: number; payment: PaidPayment }>;
+  private references: Map<string, IssuedReference>;
+  private signatures: Map<string, { expiry: number; reference: string }>;
+  private credits: Map<string, { balance: number; history: CreditUsageEntry[] }>;
+  private refunds: Map<string, RefundRecord>;
 
-  constructor(ttlSeconds: number) {
+  constructor() {
     this.store = new Map();
-    this.ttlMs = ttlSeconds * 1000;
+    this.references = new Map();
+    this.signatures = new Map();
+    this.credits = new Map();
+    this.refunds = new Map();
   }
 
-  /**
-   * Check if a reference is paid and not expired
-   */
-  isPaid(reference: string): boolean {
+  async isPaid(reference: string): Promise<boolean> {
     const entry = this.store.get(reference);
     if (!entry) {
       return false;
@@ -30,34 +50,150 @@ export class PaymentState {
     return true;
   }
 
-  /**
-   * Get signature for a paid reference
-   */
-  getSignature(reference: string): string | null {
-    const entry = this.store.get(reference);
-    return entry?.signature || null;
+  async getPayment(reference: string): Promise<PaidPayment | null> {
+    if (!(await this.isPaid(reference))) {
+      return null;
+    }
+    return { ...this.store.get(reference)!.payment };
+  }
+
+  async markPaid(
+    reference: string,
+    payment: PaidPayment,
+    ttlSeconds: number
+  ): Promise<void> {
+    const expiry = Date.now() + ttlSeconds * 1000;
+    this.store.set(reference, { expiry, payment: { ...payment } });
+  }
+
+  async issueReference(
+    reference: string,
+    issued: IssuedReference
+  ): Promise<void> {
+    this.references.set(reference, { ...issued });
+  }
+
+  async getIssuedReference(reference: string): Promise<IssuedReference | null> {
+    const issued = this.references.get(reference);
+    if (!issued) {
+      return null;
+    }
+
+    if (Date.now() > issued.expiry) {
+      this.references.delete(reference);
+      return null;
+    }
+
+    return { ...issued };
+  }
+
+  async consumeReference(reference: string): Promise<boolean> {
+    const issued = this.references.get(reference);
+    if (!issued || issued.consumed || Date.now() > issued.expiry) {
+      return false;
+    }
+
+    issued.consumed = true;
+    return true;
   }
 
-  /**
-   * Mark a reference as paid with transaction signature
-   */
-  markPaid(reference: string, signature: string): void {
-    const expiry = Date.now() + this.ttlMs;
-    this.store.set(reference, { expiry, signature });
+  async releaseReference(reference: string): Promise<void> {
+    const issued = this.references.get(reference);
+    if (issued) {
+      issued.consumed = false;
+    }
   }
 
-  /**
-   * Clean up expired entries (call periodically)
-   */
-  cleanup(): number {
+  async markSignatureUsed(
+    signature: string,
+    reference: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const existing = this.signatures.get(signature);
+    if (existing && Date.now() <= existing.expiry) {
+      return false;
+    }
+
+    const expiry = Date.now() + ttlSeconds * 1000;
+    this.signatures.set(signature, { expiry, reference });
+    return true;
+  }
+
+  async getCreditBalance(account: string): Promise<number> {
+    return this.credits.get(account)?.balance || 0;
+  }
+
+  async addCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number> {
+    const credits = this.getCredits(account);
+    credits.balance += entry.credits;
+    credits.history.unshift({ ...entry, balance: credits.balance });
+    credits.history.length = Math.min(credits.history.length, CREDIT_HISTORY_LIMIT);
+    return credits.balance;
+  }
+
+  async deductCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number | null> {
+    const credits = this.getCredits(account);
+    if (credits.balance < entry.credits) {
+      return null;
+    }
+    credits.balance -= entry.credits;
+    credits.history.unshift({ ...entry, balance: credits.balance });
+    credits.history.length = Math.min(credits.history.length, CREDIT_HISTORY_LIMIT);
+    return credits.balance;
+  }
+
+  async getCreditHistory(
+    account: string,
+    limit: number
+  ): Promise<CreditUsageEntry[]> {
+    return (this.credits.get(account)?.history || [])
+      .slice(0, limit)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async createRefund(record: RefundRecord): Promise<boolean> {
+    if (this.refunds.has(record.reference)) {
+      return false;
+    }
+    this.refunds.set(record.reference, { ...record });
+    return true;
+  }
+
+  async updateRefund(record: RefundRecord): Promise<void> {
+    this.refunds.set(record.reference, { ...record });
+  }
+
+  async getRefund(reference: string): Promise<RefundRecord | null> {
+    const record = this.refunds.get(reference);
+    return record ? { ...record } : null;
+  }
+
+  async cleanup(): Promise<number> {
     const now = Date.now();
     let cleaned = 0;
-    for (const [ref, entry] of this.store.entries()) {
-      if (now > entry.expiry) {
-        this.store.delete(ref);
-        cleaned++;
+    for (const map of [this.store, this.references, this.signatures]) {
+      for (const [key, entry] of map.entries()) {
+        if (now > entry.expiry) {
+          map.delete(key);
+          cleaned++;
+        }
       }
     }
     return cleaned;
   }
+
+  private getCredits(account: string) {
+    let credits = this.credits.get(account);
+    if (!credits) {
+      credits = { balance: 0, history: [] };
+      this.credits.set(account, credits);
+    }
+    return credits;
+  }
 }
@@ -0,0 +1,208 @@
+/**
+ * Payment store interface
+ * Persists verified payments, issued references and used transaction signatures.
+ * Implementations may be shared by several gateway instances so that cached
+ * payments and replay protection work across a whole cluster.
+ */
+
+import { PaymentErrorCode } from './types';
+
+/**
+ * Reference advertised in a 402 response
+ */
+export interface IssuedReference {
+  requirementIndex: number; // Index into ResourceServerOptions.paymentRequirements
+  amount: string; // Atomic amount advertised for this reference
+  route: string; // Route the reference was issued for
+  expiry: number; // Expiration timestamp (ms)
+  consumed: boolean; // Whether a payment was already settled with it
+}
+
+/**
+ * Payment settled for a reference
+ */
+export interface PaidPayment {
+  signature: string; // Transaction signature
+  route: string; // Route the payment was settled for
+  network: string;
+}
+
+export interface PaymentStore {
+  /**
+   * Check if a reference is paid and not expired
+   */
+  isPaid(reference: string): Promise<boolean>;
+
+  /**
+   * Get the payment of a paid reference, or null if unknown or expired
+   */
+  getPayment(reference: string): Promise<PaidPayment | null>;
+
+  /**
+   * Mark a reference as paid with the settled payment
+   */
+  markPaid(
+    reference: string,
+    payment: PaidPayment,
+    ttlSeconds: number
+  ): Promise<void>;
+
+  /**
+   * Record a reference advertised in a 402 response
+   */
+  issueReference(reference: string, issued: IssuedReference): Promise<void>;
+
+  /**
+   * Get an issued reference, or null if unknown or expired
+   */
+  getIssuedReference(reference: string): Promise<IssuedReference | null>;
+
+  /**
+   * Atomically mark an issued reference as consumed
+   * Returns false if it is unknown or was already consumed
+   */
+  consumeReference(reference: string): Promise<boolean>;
+
+  /**
+   * Release a consumed reference so it can be used again
+   */
+  releaseReference(reference: string): Promise<void>;
+
+  /**
+   * Atomically record a transaction signature as used for a reference
+   * Returns false if the signature was already used
+   */
+  markSignatureUsed(
+    signature: string,
+    reference: string,
+    ttlSeconds: number
+  ): Promise<boolean>;
+
+  /**
+   * Clean up expired entries (call periodically)
+   * Returns the number of removed entries
+   */
+  cleanup(): Promise<number>;
+}
+
+/**
+ * Entry of the credit usage history of an account (credits mode)
+ */
+export interface CreditUsageEntry {
+  type: 'top-up' | 'usage';
+  credits: number; // Credits added (top-up) or deducted (usage)
+  balance: number; // Balance after the entry
+  timestamp: number; // Unix ms
+  route: string;
+  reference?: string; // Reference of the top-up payment
+  signature?: string; // Transaction signature of the top-up payment
+}
+
+/**
+ * Prepaid credit balances (credits mode)
+ * Implemented by the built-in payment stores; balances never expire
+ */
+export interface CreditStore {
+  /**
+   * Get the credit balance of an account (0 if unknown)
+   */
+  getCreditBalance(account: string): Promise<number>;
+
+  /**
+   * Atomically add credits to an account
+   * Returns the new balance
+   */
+  addCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number>;
+
+  /**
+   * Atomically deduct credits if the balance covers them
+   * Returns the new balance, or null if the balance is insufficient
+   */
+  deductCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number | null>;
+
+  /**
+   * Get the most recent usage history entries of an account, newest first
+   */
+  getCreditHistory(account: string, limit: number): Promise<CreditUsageEntry[]>;
+}
+
+/**
+ * Usage history entries kept per account
+ */
+export const CREDIT_HISTORY_LIMIT = 1000;
+
+/**
+ * Check if a payment store also keeps credit balances
+ */
+export function isCreditStore(
+  store: PaymentStore
+): store is PaymentStore & CreditStore {
+  const candidate = store as Partial<CreditStore>;
+  return (
+    typeof candidate.getCreditBalance === 'function' &&
+    typeof candidate.addCredits === 'function' &&
+    typeof candidate.deductCredits === 'function' &&
+    typeof candidate.getCreditHistory === 'function'
+  );
+}
+
+/**
+ * Refund of a payment whose protected response failed (refund policy)
+ */
+export interface RefundRecord {
+  reference: string; // Reference of the refunded payment
+  status: 'pending' | 'refunded' | 'failed';
+  route: string;
+  payer: string;
+  mint: string;
+  amountAtomic: string;
+  paymentTransaction: string; // Signature of the refunded payment
+  responseStatus: number; // HTTP status of the failed response
+  destination?: string; // Source token account of the payment (payer for native SOL)
+  transaction?: string; // Signature of the refund transaction
+  error?: string;
+  errorCode?: PaymentErrorCode;
+  timestamp: number; // Unix ms of the last update
+}
+
+/**
+ * Refunds recorded against payment references (refund policy)
+ * Implemented by the built-in payment stores; records never expire
+ */
+export interface RefundStore {
+  /**
+   * Record a refund unless one is already recorded for its reference
+   * Returns false if one exists, so a payment is refunded at most once
+   */
+  createRefund(record: RefundRecord): Promise<boolean>;
+
+  /**
+   * Replace the recorded refund of a reference
+   */
+  updateRefund(record: RefundRecord): Promise<void>;
+
+  /**
+   * Get the recorded refund of a reference
+   */
+  getRefund(reference: string): Promise<RefundRecord | null>;
+}
+
+/**
+ * Check if a payment store also records refunds
+ */
+export function isRefundStore(
+  store: PaymentStore
+): store is PaymentStore & RefundStore {
+  const candidate = store as Partial<RefundStore>;
+  return (
+    typeof candidate.createRefund === 'function' &&
+    typeof candidate.updateRefund === 'function' &&
+    typeof candidate.getRefund === 'function'
+  );
+}
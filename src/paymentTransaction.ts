@@ -0,0 +1,286 @@
+/**
+ * Payment transaction builder
+ * Builds and signs the transfer a payment requirement asks for with @solana/kit
+ *
+ * Usage:
+ * ```ts
+ * import { buildPaymentTransaction, createXPaymentHeaderFromTransaction } from 'solana-x402-gateway';
+ *
+ * const transaction = await buildPaymentTransaction(requirement, signer, rpc, {
+ *   createRecipientTokenAccount: true,
+ *   computeUnitPrice: 10000,
+ * });
+ * const xPaymentHeader = createXPaymentHeaderFromTransaction(transaction, requirement);
+ * ```
+ */
+
+import {
+  AccountRole,
+  address,
+  appendTransactionMessageInstructions,
+  createNoopSigner,
+  createTransactionMessage,
+  getBase64EncodedWireTransaction,
+  partiallySignTransactionMessageWithSigners,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  type Blockhash,
+  type Instruction,
+  type TransactionSigner,
+} from '@solana/kit';
+import { SolanaRpcClient } from './rpcClient';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  SYSTEM_PROGRAM_ADDRESS,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+  getAssociatedTokenAddress,
+} from './transactionInspector';
+import { fromX402PaymentRequirements } from './protocol';
+import { PaymentRequirement, X402PaymentRequirements } from './types';
+
+// Instruction discriminators
+const SYSTEM_TRANSFER = 2;
+const TOKEN_TRANSFER_CHECKED = 12;
+const ATA_CREATE_IDEMPOTENT = 1;
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+const DEFAULT_COMPUTE_UNIT_LIMIT = 100000;
+
+export interface PaymentTransactionOptions {
+  /** Create the recipient's associated token account if it doesn't exist, paid by the signer (default: false) */
+  createRecipientTokenAccount?: boolean;
+  /** Compute unit limit of the transaction (default: 100000) */
+  computeUnitLimit?: number;
+  /** Priority fee in micro-lamports per compute unit (default: none) */
+  computeUnitPrice?: number | bigint;
+  /** Token program of the mint (default: read from the mint account, Token or Token-2022) */
+  tokenProgram?: string;
+}
+
+/**
+ * Build and sign a payment transaction for a payment requirement (legacy or x402 entry)
+ * Returns the Base64 encoded wire transaction expected in the X-PAYMENT header
+ *
+ * Token transfers use TransferChecked between associated token accounts of the
+ * mint's token program (Token or Token-2022). The reference is added as a
+ * read-only account of the transfer. In gasless mode
+ * (requirement.feePayer set) the transaction is only partially signed, the
+ * gateway adds the fee payer signature.
+ */
+export async function buildPaymentTransaction(
+  requirement: PaymentRequirement | X402PaymentRequirements,
+  signer: TransactionSigner,
+  rpc: SolanaRpcClient,
+  options: PaymentTransactionOptions = {}
+): Promise<string> {
+  const paymentRequirement =
+    'scheme' in requirement
+      ? fromX402PaymentRequirements(requirement)
+      : requirement;
+
+  const instructions = getComputeBudgetInstructions(
+    options.computeUnitLimit ?? DEFAULT_COMPUTE_UNIT_LIMIT,
+    options.computeUnitPrice
+  );
+  if (paymentRequirement.assetType === 'native') {
+    instructions.push(getSolTransferInstruction(paymentRequirement, signer));
+  } else {
+    const tokenProgram =
+      options.tokenProgram ||
+      (await getMintTokenProgram(paymentRequirement.mint, rpc));
+    if (options.createRecipientTokenAccount) {
+      instructions.push(
+        await getCreateRecipientTokenAccountInstruction(
+          paymentRequirement,
+          signer,
+          tokenProgram
+        )
+      );
+    }
+    instructions.push(
+      await getTokenTransferInstruction(paymentRequirement, signer, tokenProgram)
+    );
+  }
+
+  // Gasless mode: build against the blockhash advertised by the gateway
+  let lifetime: { blockhash: Blockhash; lastValidBlockHeight: bigint };
+  if (
+    paymentRequirement.recentBlockhash &&
+    paymentRequirement.lastValidBlockHeight
+  ) {
+    lifetime = {
+      blockhash: paymentRequirement.recentBlockhash as Blockhash,
+      lastValidBlockHeight: BigInt(paymentRequirement.lastValidBlockHeight),
+    };
+  } else {
+    const { value } = await (rpc.getLatestBlockhash() as any).send();
+    lifetime = {
+      blockhash: value.blockhash,
+      lastValidBlockHeight: BigInt(value.lastValidBlockHeight),
+    };
+  }
+
+  const feePayer = paymentRequirement.feePayer
+    ? createNoopSigner(address(paymentRequirement.feePayer))
+    : signer;
+  const message = pipe(
+    createTransactionMessage({ version: 0 }),
+    (m) => setTransactionMessageFeePayerSigner(feePayer, m),
+    (m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
+    (m) => appendTransactionMessageInstructions(instructions, m)
+  );
+
+  const transaction = await partiallySignTransactionMessageWithSigners(message);
+  return getBase64EncodedWireTransaction(transaction);
+}
+
+/**
+ * Token program owning a mint (Token or Token-2022)
+ */
+export async function getMintTokenProgram(
+  mint: string,
+  rpc: SolanaRpcClient
+): Promise<string> {
+  const { value } = await (
+    rpc.getAccountInfo(address(mint), { encoding: 'base64' }) as any
+  ).send();
+  if (!value) {
+    throw new Error(`Mint account ${mint} not found`);
+  }
+  const owner = String(value.owner);
+  if (owner !== TOKEN_PROGRAM_ADDRESS && owner !== TOKEN_2022_PROGRAM_ADDRESS) {
+    throw new Error(`Account ${mint} is not a token mint (owner ${owner})`);
+  }
+  return owner;
+}
+
+/**
+ * SetComputeUnitLimit and (if a price is set) SetComputeUnitPrice instructions
+ */
+function getComputeBudgetInstructions(
+  computeUnitLimit: number,
+  computeUnitPrice?: number | bigint
+): Instruction[] {
+  const limitData = Buffer.alloc(5);
+  limitData.writeUInt8(SET_COMPUTE_UNIT_LIMIT, 0);
+  limitData.writeUInt32LE(computeUnitLimit, 1);
+  const instructions: Instruction[] = [
+    {
+      programAddress: address(COMPUTE_BUDGET_PROGRAM_ADDRESS),
+      data: new Uint8Array(limitData),
+    },
+  ];
+
+  if (computeUnitPrice !== undefined && BigInt(computeUnitPrice) > 0n) {
+    const priceData = Buffer.alloc(9);
+    priceData.writeUInt8(SET_COMPUTE_UNIT_PRICE, 0);
+    priceData.writeBigUInt64LE(BigInt(computeUnitPrice), 1);
+    instructions.push({
+      programAddress: address(COMPUTE_BUDGET_PROGRAM_ADDRESS),
+      data: new Uint8Array(priceData),
+    });
+  }
+  return instructions;
+}
+
+/**
+ * Associated Token Account CreateIdempotent for the recipient, funded by the signer
+ */
+async function getCreateRecipientTokenAccountInstruction(
+  paymentRequirement: PaymentRequirement,
+  signer: TransactionSigner,
+  tokenProgram: string
+): Promise<Instruction> {
+  const { mint, recipient } = paymentRequirement;
+  const recipientTokenAccount = await getAssociatedTokenAddress(
+    recipient,
+    mint,
+    tokenProgram
+  );
+
+  return {
+    programAddress: address(ASSOCIATED_TOKEN_PROGRAM_ADDRESS),
+    accounts: [
+      { address: signer.address, role: AccountRole.WRITABLE_SIGNER, signer },
+      { address: address(recipientTokenAccount), role: AccountRole.WRITABLE },
+      { address: address(recipient), role: AccountRole.READONLY },
+      { address: address(mint), role: AccountRole.READONLY },
+      { address: address(SYSTEM_PROGRAM_ADDRESS), role: AccountRole.READONLY },
+      { address: address(tokenProgram), role: AccountRole.READONLY },
+    ],
+    data: new Uint8Array([ATA_CREATE_IDEMPOTENT]),
+  } as Instruction;
+}
+
+/**
+ * System program transfer of lamports to the recipient
+ */
+function getSolTransferInstruction(
+  paymentRequirement: PaymentRequirement,
+  signer: TransactionSigner
+): Instruction {
+  const data = Buffer.alloc(12);
+  data.writeUInt32LE(SYSTEM_TRANSFER, 0);
+  data.writeBigUInt64LE(BigInt(paymentRequirement.amountAtomic), 4);
+
+  return {
+    programAddress: address(SYSTEM_PROGRAM_ADDRESS),
+    accounts: [
+      { address: signer.address, role: AccountRole.WRITABLE_SIGNER, signer },
+      {
+        address: address(paymentRequirement.recipient),
+        role: AccountRole.WRITABLE,
+      },
+      {
+        address: address(paymentRequirement.reference),
+        role: AccountRole.READONLY,
+      },
+    ],
+    data: new Uint8Array(data),
+  } as Instruction;
+}
+
+/**
+ * TransferChecked between the associated token accounts of signer and recipient
+ */
+async function getTokenTransferInstruction(
+  paymentRequirement: PaymentRequirement,
+  signer: TransactionSigner,
+  tokenProgram: string
+): Promise<Instruction> {
+  const { mint, recipient } = paymentRequirement;
+  const source = await getAssociatedTokenAddress(
+    signer.address,
+    mint,
+    tokenProgram
+  );
+  const destination = await getAssociatedTokenAddress(
+    recipient,
+    mint,
+    tokenProgram
+  );
+
+  const data = Buffer.alloc(10);
+  data.writeUInt8(TOKEN_TRANSFER_CHECKED, 0);
+  data.writeBigUInt64LE(BigInt(paymentRequirement.amountAtomic), 1);
+  data.writeUInt8(paymentRequirement.decimals, 9);
+
+  return {
+    programAddress: address(tokenProgram),
+    accounts: [
+      { address: address(source), role: AccountRole.WRITABLE },
+      { address: address(mint), role: AccountRole.READONLY },
+      { address: address(destination), role: AccountRole.WRITABLE },
+      { address: signer.address, role: AccountRole.READONLY_SIGNER, signer },
+      {
+        address: address(paymentRequirement.reference),
+        role: AccountRole.READONLY,
+      },
+    ],
+    data: new Uint8Array(data),
+  } as Instruction;
+}
@@ -0,0 +1,51 @@
+/**
+ * In-memory penalty list for optimistic settlement.
+ * Key: payer (base58 public key string)
+ * Value: expiry timestamp (Unix ms)
+ *
+ * Payers whose optimistically served transactions later fail to settle are
+ * listed for a while; their payments are settled synchronously again.
+ */
+export class PenaltyList {
+  private store: Map<string, number>;
+  private penaltyMs: number;
+
+  constructor(penaltySeconds: number) {
+    this.store = new Map();
+    this.penaltyMs = penaltySeconds * 1000;
+  }
+
+  /**
+   * Penalize a payer
+   */
+  add(payer: string): void {
+    this.store.set(payer, Date.now() + this.penaltyMs);
+  }
+
+  /**
+   * Check if a payer is penalized
+   */
+  has(payer: string): boolean {
+    const expiry = this.store.get(payer);
+    if (expiry === undefined || Date.now() > expiry) {
+      this.store.delete(payer);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Clean up expired penalties (call periodically)
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [payer, expiry] of this.store.entries()) {
+      if (now > expiry) {
+        this.store.delete(payer);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * x402 protocol format helpers
+ * Converts between the gateway's legacy shapes and the published x402 schema
+ */
+
+import {
+  PaymentRequirement,
+  X402PaymentRequirements,
+} from './types';
+
+/**
+ * Format of 402 response bodies
+ * - 'x402': published x402 schema (x402Version, accepts, error)
+ * - 'legacy': paymentRequirements only
+ * - 'both': x402 fields plus legacy paymentRequirements
+ */
+export type ProtocolFormat = 'x402' | 'legacy' | 'both';
+
+const X402_NETWORKS: Record<string, string> = {
+  devnet: 'solana-devnet',
+  testnet: 'solana-testnet',
+  'mainnet-beta': 'solana',
+};
+
+/**
+ * Convert a Solana cluster name to its x402 network name
+ * e.g. "devnet" -> "solana-devnet", "mainnet-beta" -> "solana"
+ */
+export function toX402Network(network: string): string {
+  return X402_NETWORKS[network] || network;
+}
+
+/**
+ * Convert an x402 network name to its Solana cluster name
+ * e.g. "solana-devnet" -> "devnet", "solana" -> "mainnet-beta"
+ */
+export function fromX402Network(network: string): string {
+  const entry = Object.entries(X402_NETWORKS).find(
+    ([, x402Network]) => x402Network === network
+  );
+  return entry ? entry[0] : network;
+}
+
+/**
+ * Convert a payment requirement to an x402 `accepts` entry
+ */
+export function toX402PaymentRequirements(
+  paymentRequirement: PaymentRequirement,
+  resource: string,
+  description: string,
+  mimeType: string
+): X402PaymentRequirements {
+  return {
+    scheme: 'exact',
+    network: toX402Network(paymentRequirement.network),
+    maxAmountRequired: paymentRequirement.amountAtomic,
+    resource,
+    description,
+    mimeType,
+    payTo: paymentRequirement.recipient,
+    maxTimeoutSeconds: paymentRequirement.expires_in,
+    asset: paymentRequirement.mint,
+    extra: {
+      reference: paymentRequirement.reference,
+      assetType: paymentRequirement.assetType,
+      decimals: paymentRequirement.decimals,
+      amount: paymentRequirement.amount,
+      feePayer: paymentRequirement.feePayer,
+      recentBlockhash: paymentRequirement.recentBlockhash,
+      lastValidBlockHeight: paymentRequirement.lastValidBlockHeight,
+      accessPassSeconds: paymentRequirement.accessPassSeconds,
+    },
+  };
+}
+
+/**
+ * Convert an x402 `accepts` entry back to a payment requirement
+ * Requires the Solana specific `extra` fields advertised by this gateway
+ */
+export function fromX402PaymentRequirements(
+  requirements: X402PaymentRequirements
+): PaymentRequirement {
+  const extra = requirements.extra;
+  if (!extra?.reference) {
+    throw new Error('x402 payment requirements are missing extra.reference');
+  }
+  return {
+    network: fromX402Network(requirements.network),
+    assetType: extra.assetType || 'spl-token',
+    mint: requirements.asset,
+    amount: extra.amount,
+    amountAtomic: requirements.maxAmountRequired,
+    decimals: extra.decimals,
+    recipient: requirements.payTo,
+    reference: extra.reference,
+    expires_in: requirements.maxTimeoutSeconds,
+    feePayer: extra.feePayer,
+    recentBlockhash: extra.recentBlockhash,
+    lastValidBlockHeight: extra.lastValidBlockHeight,
+    accessPassSeconds: extra.accessPassSeconds,
+  };
+}
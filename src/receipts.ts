@@ -0,0 +1,147 @@
+/**
+ * Signed payment receipts
+ * Settled payments are answered with a receipt signed by the gateway's Ed25519
+ * key, a proof of purchase that downstream services and customers can check
+ * offline against the key published at the receipt key endpoint.
+ *
+ * Usage:
+ * ```ts
+ * const receiptSigner = await createKeyPairSignerFromBytes(receiptKeyBytes);
+ * app.use('/api', x402ResourceServer({ ...options, receipts: { signer: receiptSigner } }));
+ *
+ * // Downstream: the receipt comes with the X-PAYMENT-RESPONSE settlement
+ * const { receipt } = getPaymentResponse(response)!;
+ * const valid = await verifyReceipt(receipt!, GATEWAY_RECEIPT_KEY);
+ * ```
+ */
+
+import {
+  MessagePartialSigner,
+  address,
+  createSignableMessage,
+  getBase58Decoder,
+  getBase58Encoder,
+  getPublicKeyFromAddress,
+  signatureBytes,
+  verifySignature,
+} from '@solana/kit';
+
+export interface ReceiptOptions {
+  /** Ed25519 key signing receipts, its address is the published receipt key */
+  signer: MessagePartialSigner;
+  /** Retired receipt keys still published so older receipts can be checked (optional) */
+  previousKeys?: string[];
+  /** Path of the receipt key endpoint below the mount path (default: '/.well-known/x402-receipt-keys') */
+  keyPath?: string;
+}
+
+/**
+ * Signed content of a receipt
+ */
+export interface PaymentReceipt {
+  version: 1;
+  gateway: string; // Receipt key (Ed25519 public key as base58 address)
+  network: string;
+  payer: string; // Authority of the payment transfer
+  mint: string;
+  amountAtomic: string;
+  transaction: string; // Transaction signature
+  reference: string;
+  resource: string; // URL of the purchased resource
+  timestamp: number; // Unix ms of the settlement
+}
+
+/**
+ * Receipt with the gateway's signature (base58) over its canonical JSON
+ */
+export interface SignedPaymentReceipt {
+  receipt: PaymentReceipt;
+  signature: string;
+}
+
+/**
+ * Body of the receipt key endpoint
+ */
+export interface ReceiptKeysResponse {
+  keys: Array<{ publicKey: string; algorithm: 'Ed25519'; current: boolean }>;
+}
+
+export const DEFAULT_RECEIPT_KEY_PATH = '/.well-known/x402-receipt-keys';
+
+/**
+ * Receipt fields in signing order
+ */
+const RECEIPT_FIELDS: Array<keyof PaymentReceipt> = [
+  'version',
+  'gateway',
+  'network',
+  'payer',
+  'mint',
+  'amountAtomic',
+  'transaction',
+  'reference',
+  'resource',
+  'timestamp',
+];
+
+/**
+ * Canonical bytes of a receipt: its fields as JSON in a fixed order
+ */
+function getReceiptMessage(receipt: PaymentReceipt): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(receipt, RECEIPT_FIELDS));
+}
+
+/**
+ * Sign a receipt with the gateway's receipt key
+ */
+export async function signReceipt(
+  receipt: Omit<PaymentReceipt, 'version' | 'gateway'>,
+  signer: MessagePartialSigner
+): Promise<SignedPaymentReceipt> {
+  const content: PaymentReceipt = {
+    version: 1,
+    gateway: signer.address,
+    ...receipt,
+  };
+  const [signatures] = await signer.signMessages([
+    createSignableMessage(getReceiptMessage(content)),
+  ]);
+  return {
+    receipt: content,
+    signature: getBase58Decoder().decode(signatures[signer.address]),
+  };
+}
+
+/**
+ * Verify a receipt against the gateway's published receipt key
+ * Accepts the receipt object or its base64 JSON encoding
+ */
+export async function verifyReceipt(
+  receipt: SignedPaymentReceipt | string,
+  gatewayPublicKey: string
+): Promise<boolean> {
+  try {
+    const signed: SignedPaymentReceipt =
+      typeof receipt === 'string'
+        ? JSON.parse(Buffer.from(receipt, 'base64').toString('utf-8'))
+        : receipt;
+    if (signed.receipt?.gateway !== gatewayPublicKey) {
+      return false;
+    }
+    const publicKey = await getPublicKeyFromAddress(address(gatewayPublicKey));
+    return await verifySignature(
+      publicKey,
+      signatureBytes(getBase58Encoder().encode(signed.signature)),
+      getReceiptMessage(signed.receipt)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode a receipt as base64 JSON, e.g. to pass it on in a header
+ */
+export function encodeReceipt(receipt: SignedPaymentReceipt): string {
+  return Buffer.from(JSON.stringify(receipt), 'utf-8').toString('base64');
+}
@@ -0,0 +1,288 @@
+/**
+ * Ledger reconciliation
+ * Walks the transaction history of the recipient accounts and compares it
+ * with the payment ledger: payments received on chain but missing from the
+ * ledger, and ledger entries whose transactions aren't finalized, are reported.
+ *
+ * Usage:
+ * ```ts
+ * const report = await reconcileLedger({
+ *   ledger,
+ *   rpc: createSolanaRpcClient('mainnet-beta', rpcEndpoint),
+ *   paymentRequirements: options.paymentRequirements,
+ *   since: Date.now() - 24 * 3600 * 1000,
+ * });
+ * for (const payment of report.missingFromLedger) {
+ *   alert(`Unrecorded payment ${payment.signature}`);
+ * }
+ * ```
+ */
+
+import { address, type Signature } from '@solana/kit';
+import { LedgerEntry, PaymentLedger } from './paymentLedger';
+import { getMintTokenProgram } from './paymentTransaction';
+import type { PaymentRequirementConfig } from './resourceServerCore';
+import { SolanaRpcClient } from './rpcClient';
+import { getAssociatedTokenAddress } from './transactionInspector';
+import { NATIVE_SOL_MINT, PaymentAssetType } from './types';
+
+export interface ReconciliationOptions {
+  ledger: PaymentLedger;
+  rpc: SolanaRpcClient;
+  /** Requirements whose recipient accounts are walked (token account, or wallet for SOL) */
+  paymentRequirements: PaymentRequirementConfig[];
+  /** Only check transactions and ledger entries from this Unix ms on (default: all) */
+  since?: number;
+  /** Maximum number of signatures walked per account (default: 10000) */
+  maxSignatures?: number;
+}
+
+/**
+ * Payment received by a recipient account without a ledger entry
+ */
+export interface UnrecordedPayment {
+  account: string; // Recipient account (token account, or wallet for SOL)
+  signature: string;
+  slot: number;
+  blockTime?: number; // Unix ms
+  mint: string; // Token mint address (NATIVE_SOL_MINT for native SOL)
+  amountAtomic: string; // Amount the account received
+}
+
+/**
+ * Ledger entry whose transaction isn't finalized
+ * - 'processed' / 'confirmed': not finalized yet
+ * - 'failed': the transaction failed on chain
+ * - 'not_found': the transaction is unknown to the RPC node
+ */
+export interface UnfinalizedEntry {
+  entry: LedgerEntry;
+  status: 'processed' | 'confirmed' | 'failed' | 'not_found';
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  accounts: string[]; // Walked recipient accounts
+  checkedSignatures: number;
+  checkedEntries: number;
+  missingFromLedger: UnrecordedPayment[];
+  notFinalized: UnfinalizedEntry[];
+}
+
+interface RecipientAccount {
+  address: string;
+  assetType: PaymentAssetType;
+  mint: string;
+}
+
+const DEFAULT_MAX_SIGNATURES = 10000;
+const SIGNATURES_PAGE_SIZE = 1000;
+const SIGNATURE_STATUSES_BATCH_SIZE = 256; // RPC limit of getSignatureStatuses
+
+/**
+ * Reconcile the ledger against the chain
+ * Failed transactions and transactions that didn't credit the account
+ * (e.g. refunds sent from it) are not payments and are skipped.
+ */
+export async function reconcileLedger(
+  options: ReconciliationOptions
+): Promise<ReconciliationReport> {
+  const { ledger, rpc, since } = options;
+  const maxSignatures = options.maxSignatures ?? DEFAULT_MAX_SIGNATURES;
+  const recorded = new Set(
+    (await ledger.list()).map((entry) => entry.signature)
+  );
+  const accounts = await getRecipientAccounts(options.paymentRequirements, rpc);
+
+  let checkedSignatures = 0;
+  const missingFromLedger: UnrecordedPayment[] = [];
+  for (const account of accounts) {
+    const signatures = await getAccountSignatures(
+      account.address,
+      rpc,
+      since,
+      maxSignatures
+    );
+    checkedSignatures += signatures.length;
+    for (const info of signatures) {
+      if (info.err || recorded.has(String(info.signature))) {
+        continue;
+      }
+      const received = await getReceivedAmount(String(info.signature), account, rpc);
+      if (received > 0n) {
+        missingFromLedger.push({
+          account: account.address,
+          signature: String(info.signature),
+          slot: Number(info.slot),
+          blockTime:
+            info.blockTime === null || info.blockTime === undefined
+              ? undefined
+              : Number(info.blockTime) * 1000,
+          mint: account.mint,
+          amountAtomic: received.toString(),
+        });
+      }
+    }
+  }
+
+  const entries = await ledger.list({ since });
+  return {
+    accounts: accounts.map((account) => account.address),
+    checkedSignatures,
+    checkedEntries: entries.length,
+    missingFromLedger,
+    notFinalized: await getUnfinalizedEntries(entries, rpc),
+  };
+}
+
+/**
+ * Accounts payments of the requirements are sent to, without duplicates
+ */
+async function getRecipientAccounts(
+  paymentRequirements: PaymentRequirementConfig[],
+  rpc: SolanaRpcClient
+): Promise<RecipientAccount[]> {
+  const accounts = new Map<string, RecipientAccount>();
+  for (const config of paymentRequirements) {
+    if (config.assetType === 'native') {
+      accounts.set(config.recipient, {
+        address: config.recipient,
+        assetType: 'native',
+        mint: NATIVE_SOL_MINT,
+      });
+      continue;
+    }
+    const mint = config.mint!;
+    const tokenAccount = await getAssociatedTokenAddress(
+      config.recipient,
+      mint,
+      await getMintTokenProgram(mint, rpc)
+    );
+    accounts.set(tokenAccount, {
+      address: tokenAccount,
+      assetType: 'spl-token',
+      mint,
+    });
+  }
+  return Array.from(accounts.values());
+}
+
+/**
+ * Signatures of an account, newest first, back to `since`
+ */
+async function getAccountSignatures(
+  account: string,
+  rpc: SolanaRpcClient,
+  since: number | undefined,
+  maxSignatures: number
+): Promise<any[]> {
+  const signatures: any[] = [];
+  let before: string | undefined;
+  while (signatures.length < maxSignatures) {
+    const page: any[] = await (
+      rpc.getSignaturesForAddress(address(account), {
+        limit: Math.min(SIGNATURES_PAGE_SIZE, maxSignatures - signatures.length),
+        ...(before ? { before: before as Signature } : {}),
+      }) as any
+    ).send();
+    for (const info of page) {
+      if (
+        since !== undefined &&
+        info.blockTime !== null &&
+        info.blockTime !== undefined &&
+        Number(info.blockTime) * 1000 < since
+      ) {
+        return signatures;
+      }
+      signatures.push(info);
+    }
+    if (page.length < SIGNATURES_PAGE_SIZE) {
+      break;
+    }
+    before = String(page[page.length - 1].signature);
+  }
+  return signatures;
+}
+
+/**
+ * Amount an account received in a transaction (0 if it didn't receive any)
+ */
+async function getReceivedAmount(
+  signature: string,
+  account: RecipientAccount,
+  rpc: SolanaRpcClient
+): Promise<bigint> {
+  const tx = await (
+    rpc.getTransaction(signature as Signature, {
+      encoding: 'jsonParsed',
+      maxSupportedTransactionVersion: 0,
+    }) as any
+  ).send();
+  if (!tx?.meta) {
+    return 0n;
+  }
+  const accountKeys: any[] = tx.transaction?.message?.accountKeys || [];
+  const index = accountKeys.findIndex(
+    (key: any) => String(key.pubkey ?? key) === account.address
+  );
+  if (index < 0) {
+    return 0n;
+  }
+
+  if (account.assetType === 'native') {
+    return (
+      BigInt(tx.meta.postBalances?.[index] ?? 0) -
+      BigInt(tx.meta.preBalances?.[index] ?? 0)
+    );
+  }
+  const tokenAmount = (balances: any[] | undefined) => {
+    const balance = (balances || []).find(
+      (entry: any) => entry.accountIndex === index && entry.mint === account.mint
+    );
+    return BigInt(balance?.uiTokenAmount?.amount ?? 0);
+  };
+  return tokenAmount(tx.meta.postTokenBalances) - tokenAmount(tx.meta.preTokenBalances);
+}
+
+/**
+ * Ledger entries whose transactions aren't finalized
+ */
+async function getUnfinalizedEntries(
+  entries: LedgerEntry[],
+  rpc: SolanaRpcClient
+): Promise<UnfinalizedEntry[]> {
+  const unfinalized: UnfinalizedEntry[] = [];
+  for (let i = 0; i < entries.length; i += SIGNATURE_STATUSES_BATCH_SIZE) {
+    const batch = entries.slice(i, i + SIGNATURE_STATUSES_BATCH_SIZE);
+    const { value: statuses } = await (
+      rpc.getSignatureStatuses(
+        batch.map((entry) => entry.signature as Signature),
+        { searchTransactionHistory: true }
+      ) as any
+    ).send();
+    batch.forEach((entry, j) => {
+      const status = statuses?.[j];
+      if (!status) {
+        unfinalized.push({ entry, status: 'not_found' });
+      } else if (status.err) {
+        unfinalized.push({
+          entry,
+          status: 'failed',
+          error: stringifyError(status.err),
+        });
+      } else if (status.confirmationStatus !== 'finalized') {
+        unfinalized.push({
+          entry,
+          status: status.confirmationStatus === 'confirmed' ? 'confirmed' : 'processed',
+        });
+      }
+    });
+  }
+  return unfinalized;
+}
+
+function stringifyError(error: unknown): string {
+  return JSON.stringify(error, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
@@ -0,0 +1,453 @@
+/**
+ * Redis-backed payment store
+ * Works with any server speaking the Redis protocol (Redis, Valkey, KeyDB, ...)
+ * so several gateway instances can share verified payments and replay protection.
+ * Credit balances (credits mode) are updated by Lua scripts, so concurrent
+ * requests on different instances can't overspend a balance.
+ *
+ * Usage:
+ * ```ts
+ * const store = new RedisPaymentStore(createRespClient({ host: '127.0.0.1', port: 6379 }));
+ * app.use('/api', x402ResourceServer({ ...options, store }));
+ * ```
+ */
+
+import net from 'net';
+import {
+  CREDIT_HISTORY_LIMIT,
+  CreditStore,
+  CreditUsageEntry,
+  IssuedReference,
+  PaidPayment,
+  PaymentStore,
+  RefundRecord,
+  RefundStore,
+} from './paymentStore';
+
+/**
+ * Minimal command interface of a Redis client
+ * node-redis v4 clients satisfy it directly (`client.sendCommand`)
+ */
+export interface RedisCommandClient {
+  sendCommand(args: string[]): Promise<unknown>;
+}
+
+export interface RedisPaymentStoreOptions {
+  /** Prefix for all keys written by the store (default: 'x402:') */
+  keyPrefix?: string;
+}
+
+/**
+ * Apply a signed credit delta unless it would make the balance negative,
+ * then prepend the history entry (ARGV[2] is the entry JSON up to the balance)
+ * Returns the new balance or -1
+ */
+const UPDATE_CREDITS_SCRIPT = `
+local balance = tonumber(redis.call('GET', KEYS[1]) or '0')
+local delta = tonumber(ARGV[1])
+if balance + delta < 0 then
+  return -1
+end
+balance = redis.call('INCRBY', KEYS[1], delta)
+redis.call('LPUSH', KEYS[2], ARGV[2] .. balance .. '}')
+redis.call('LTRIM', KEYS[2], 0, tonumber(ARGV[3]) - 1)
+return balance
+`;
+
+export class RedisPaymentStore
+  implements PaymentStore, CreditStore, RefundStore
+{
+  private client: RedisCommandClient;
+  private keyPrefix: string;
+
+  constructor(client: RedisCommandClient, options: RedisPaymentStoreOptions = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? 'x402:';
+  }
+
+  async isPaid(reference: string): Promise<boolean> {
+    const exists = await this.client.sendCommand([
+      'EXISTS',
+      this.key('paid', reference),
+    ]);
+    return Number(exists) > 0;
+  }
+
+  async getPayment(reference: string): Promise<PaidPayment | null> {
+    const payment = await this.client.sendCommand([
+      'GET',
+      this.key('paid', reference),
+    ]);
+    return typeof payment === 'string' ? JSON.parse(payment) : null;
+  }
+
+  async markPaid(
+    reference: string,
+    payment: PaidPayment,
+    ttlSeconds: number
+  ): Promise<void> {
+    await this.client.sendCommand([
+      'SET',
+      this.key('paid', reference),
+      JSON.stringify(payment),
+      'PX',
+      String(ttlSeconds * 1000),
+    ]);
+  }
+
+  async issueReference(
+    reference: string,
+    issued: IssuedReference
+  ): Promise<void> {
+    const ttlMs = Math.max(issued.expiry - Date.now(), 1);
+    const { consumed, ...record } = issued;
+    await this.client.sendCommand([
+      'SET',
+      this.key('ref', reference),
+      JSON.stringify(record),
+      'PX',
+      String(ttlMs),
+    ]);
+    if (consumed) {
+      await this.client.sendCommand([
+        'SET',
+        this.key('consumed', reference),
+        '1',
+        'PX',
+        String(ttlMs),
+      ]);
+    }
+  }
+
+  async getIssuedReference(reference: string): Promise<IssuedReference | null> {
+    const record = await this.client.sendCommand([
+      'GET',
+      this.key('ref', reference),
+    ]);
+    if (typeof record !== 'string') {
+      return null;
+    }
+
+    const consumed = await this.client.sendCommand([
+      'EXISTS',
+      this.key('consumed', reference),
+    ]);
+    return { ...JSON.parse(record), consumed: Number(consumed) > 0 };
+  }
+
+  async consumeReference(reference: string): Promise<boolean> {
+    const issued = await this.getIssuedReference(reference);
+    if (!issued) {
+      return false;
+    }
+
+    // SET NX is atomic, so only one instance can consume a reference
+    const result = await this.client.sendCommand([
+      'SET',
+      this.key('consumed', reference),
+      '1',
+      'NX',
+      'PX',
+      String(Math.max(issued.expiry - Date.now(), 1)),
+    ]);
+    return result === 'OK';
+  }
+
+  async releaseReference(reference: string): Promise<void> {
+    await this.client.sendCommand(['DEL', this.key('consumed', reference)]);
+  }
+
+  async markSignatureUsed(
+    signature: string,
+    reference: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const result = await this.client.sendCommand([
+      'SET',
+      this.key('sig', signature),
+      reference,
+      'NX',
+      'PX',
+      String(ttlSeconds * 1000),
+    ]);
+    return result === 'OK';
+  }
+
+  async getCreditBalance(account: string): Promise<number> {
+    const balance = await this.client.sendCommand([
+      'GET',
+      this.key('credits', account),
+    ]);
+    return typeof balance === 'string' ? Number(balance) : 0;
+  }
+
+  async addCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number> {
+    return this.updateCredits(account, entry.credits, entry);
+  }
+
+  async deductCredits(
+    account: string,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number | null> {
+    const balance = await this.updateCredits(account, -entry.credits, entry);
+    return balance < 0 ? null : balance;
+  }
+
+  async getCreditHistory(
+    account: string,
+    limit: number
+  ): Promise<CreditUsageEntry[]> {
+    if (limit <= 0) {
+      return [];
+    }
+    const entries = await this.client.sendCommand([
+      'LRANGE',
+      this.key('credits-history', account),
+      '0',
+      String(limit - 1),
+    ]);
+    return Array.isArray(entries)
+      ? entries.map((entry) => JSON.parse(String(entry)))
+      : [];
+  }
+
+  async createRefund(record: RefundRecord): Promise<boolean> {
+    // SET NX is atomic, so only one instance can start a refund
+    const result = await this.client.sendCommand([
+      'SET',
+      this.key('refund', record.reference),
+      JSON.stringify(record),
+      'NX',
+    ]);
+    return result === 'OK';
+  }
+
+  async updateRefund(record: RefundRecord): Promise<void> {
+    await this.client.sendCommand([
+      'SET',
+      this.key('refund', record.reference),
+      JSON.stringify(record),
+    ]);
+  }
+
+  async getRefund(reference: string): Promise<RefundRecord | null> {
+    const record = await this.client.sendCommand([
+      'GET',
+      this.key('refund', reference),
+    ]);
+    return typeof record === 'string' ? JSON.parse(record) : null;
+  }
+
+  async cleanup(): Promise<number> {
+    // Keys carry their own TTL, Redis expires them
+    return 0;
+  }
+
+  private async updateCredits(
+    account: string,
+    delta: number,
+    entry: Omit<CreditUsageEntry, 'balance'>
+  ): Promise<number> {
+    const entryPrefix = `${JSON.stringify(entry).slice(0, -1)},"balance":`;
+    const balance = await this.client.sendCommand([
+      'EVAL',
+      UPDATE_CREDITS_SCRIPT,
+      '2',
+      this.key('credits', account),
+      this.key('credits-history', account),
+      String(delta),
+      entryPrefix,
+      String(CREDIT_HISTORY_LIMIT),
+    ]);
+    return Number(balance);
+  }
+
+  private key(kind: string, id: string): string {
+    return `${this.keyPrefix}${kind}:${id}`;
+  }
+}
+
+export interface RespClientOptions {
+  host?: string; // Default: '127.0.0.1'
+  port?: number; // Default: 6379
+  password?: string;
+  db?: number;
+}
+
+/**
+ * Redis protocol (RESP2) client
+ * Dependency-free connection used by RedisPaymentStore when no client library is available
+ */
+export interface RespClient extends RedisCommandClient {
+  close(): Promise<void>;
+}
+
+/**
+ * Create a minimal RESP2 client over a single TCP connection
+ * Commands are pipelined and replies are matched in order
+ */
+export function createRespClient(options: RespClientOptions = {}): RespClient {
+  const socket = net.createConnection({
+    host: options.host || '127.0.0.1',
+    port: options.port || 6379,
+  });
+  const pending: Array<{
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  let buffer = Buffer.alloc(0);
+  let closedError: Error | null = null;
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const parsed = parseRespReply(buffer, 0);
+      if (!parsed) {
+        break;
+      }
+      buffer = buffer.subarray(parsed.offset);
+      const request = pending.shift();
+      if (!request) {
+        continue;
+      }
+      if (parsed.value instanceof Error) {
+        request.reject(parsed.value);
+      } else {
+        request.resolve(parsed.value);
+      }
+    }
+  });
+
+  const failAll = (error: Error) => {
+    closedError ||= error;
+    while (pending.length > 0) {
+      pending.shift()!.reject(error);
+    }
+  };
+  socket.on('error', failAll);
+  socket.on('close', () => failAll(new Error('Redis connection closed')));
+
+  const write = (args: string[]): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      if (closedError) {
+        reject(closedError);
+        return;
+      }
+      pending.push({ resolve, reject });
+      socket.write(encodeRespCommand(args));
+    });
+
+  // Authenticate and select the database before any other command is sent
+  // A refused AUTH or SELECT fails the connection instead of running commands
+  // unauthenticated or against the wrong database
+  const setupCommands: string[][] = [];
+  if (options.password) {
+    setupCommands.push(['AUTH', options.password]);
+  }
+  if (options.db) {
+    setupCommands.push(['SELECT', String(options.db)]);
+  }
+  const ready = (async () => {
+    for (const args of setupCommands) {
+      await write(args).catch((error) => {
+        const failure = new Error(`Redis ${args[0]} failed: ${error.message}`);
+        failAll(failure);
+        socket.destroy();
+        throw failure;
+      });
+    }
+  })();
+  ready.catch(() => undefined);
+
+  return {
+    sendCommand: async (args) => {
+      await ready;
+      return write(args);
+    },
+    close: () =>
+      new Promise((resolve) => {
+        closedError ||= new Error('Redis connection closed');
+        if (socket.destroyed) {
+          resolve();
+          return;
+        }
+        socket.end(() => resolve());
+      }),
+  };
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeRespCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(''), 'utf-8');
+}
+
+/**
+ * Parse one RESP reply starting at offset
+ * Returns null if the buffer does not hold a complete reply yet
+ */
+function parseRespReply(
+  buffer: Buffer,
+  offset: number
+): { value: unknown; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return {
+        value: buffer.toString('utf-8', next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, offset: next };
+      }
+      const items: unknown[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseRespReply(buffer, position);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      return {
+        value: new Error(`Unexpected Redis reply type: ${type}`),
+        offset: next,
+      };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Registry of payment references issued by the gateway.
+ * Backed by the configured PaymentStore.
+ *
+ * Every reference advertised in a 402 response is recorded so that payloads
+ * carrying a reference the gateway never issued, one that has expired or one
+ * that was already used are rejected.
+ */
+
+import { IssuedReference, PaymentStore } from './paymentStore';
+import { PaymentErrorCode } from './types';
+
+export type ReferenceLookupResult =
+  | { valid: true; issued: IssuedReference }
+  | { valid: false; error: string; errorCode: PaymentErrorCode };
+
+export class ReferenceRegistry {
+  private store: PaymentStore;
+  private ttlMs: number;
+
+  constructor(store: PaymentStore, ttlSeconds: number) {
+    this.store = store;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * Record a reference advertised in a 402 response
+   */
+  async issue(
+    reference: string,
+    requirementIndex: number,
+    amount: string,
+    route: string
+  ): Promise<void> {
+    await this.store.issueReference(reference, {
+      requirementIndex,
+      amount,
+      route,
+      expiry: Date.now() + this.ttlMs,
+      consumed: false,
+    });
+  }
+
+  /**
+   * Look up an issued reference for a route
+   * Fails if the reference is unknown, expired, consumed or issued for another route
+   */
+  async lookup(
+    reference: string,
+    route: string
+  ): Promise<ReferenceLookupResult> {
+    const issued = await this.store.getIssuedReference(reference);
+    if (!issued) {
+      return {
+        valid: false,
+        error: `Unknown or expired reference: ${reference}`,
+        errorCode: 'reference_unknown',
+      };
+    }
+
+    if (issued.consumed) {
+      return {
+        valid: false,
+        error: `Reference already used: ${reference}`,
+        errorCode: 'reference_used',
+      };
+    }
+
+    if (issued.route !== route) {
+      return {
+        valid: false,
+        error: `Reference ${reference} was issued for ${issued.route}, not ${route}`,
+        errorCode: 'reference_unknown',
+      };
+    }
+
+    return { valid: true, issued };
+  }
+
+  /**
+   * Mark a reference as consumed
+   * Returns false if it was already consumed (e.g. by a concurrent request)
+   */
+  consume(reference: string): Promise<boolean> {
+    return this.store.consumeReference(reference);
+  }
+
+  /**
+   * Release a consumed reference so it can be used again
+   * Used when settlement fails before the payment lands on chain
+   */
+  release(reference: string): Promise<void> {
+    return this.store.releaseReference(reference);
+  }
+}
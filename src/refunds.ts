@@ -0,0 +1,228 @@
+/**
+ * Refund policy
+ * When the protected handler fails after the payment settled (by default any
+ * 5xx response), the payer's amount is sent back from a refund signer to the
+ * account the payment came from.
+ *
+ * Usage:
+ * ```ts
+ * app.use('/api', x402ResourceServer({
+ *   ...options,
+ *   refunds: {
+ *     signer: treasurySigner, // Holds the received funds and pays the refund fees
+ *     refundOn: (status) => status >= 500,
+ *   },
+ * }));
+ * ```
+ */
+
+import {
+  AccountRole,
+  address,
+  appendTransactionMessageInstructions,
+  createTransactionMessage,
+  getBase64EncodedWireTransaction,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  type Instruction,
+  type Signature,
+  type TransactionSigner,
+} from '@solana/kit';
+import { SolanaRpcClient } from './rpcClient';
+import {
+  SYSTEM_PROGRAM_ADDRESS,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+  decodeWireTransaction,
+  getAssociatedTokenAddress,
+  getInstructionAccounts,
+  resolveLookupTables,
+} from './transactionInspector';
+import { PaymentAssetType } from './types';
+
+// Instruction discriminators
+const SYSTEM_TRANSFER = 2;
+const TOKEN_TRANSFER = 3;
+const TOKEN_TRANSFER_CHECKED = 12;
+
+export interface RefundOptions {
+  /** Signer sending refunds and paying their fees, usually the recipient wallet */
+  signer: TransactionSigner;
+  /** Response statuses that trigger a refund (default: status >= 500) */
+  refundOn?: (status: number, route: string) => boolean;
+}
+
+/**
+ * Settled payment that can be refunded
+ */
+export interface RefundablePayment {
+  reference: string;
+  route: string;
+  assetType: PaymentAssetType;
+  mint: string;
+  amountAtomic: string;
+  decimals: number;
+  recipient: string;
+  payer: string;
+  transaction: string; // Signed payment transaction (Base64 wire format), empty for submitted payments
+  signature: string; // Signature of the payment transaction
+}
+
+/**
+ * Default refund condition: the handler failed with a server error
+ */
+export function isServerError(status: number): boolean {
+  return status >= 500;
+}
+
+/**
+ * Build and sign the transaction refunding a payment
+ * Tokens go back to the source token account of the payment, SOL to the payer.
+ * The payment reference is added as a read-only account so the refund can be
+ * found on chain next to the payment.
+ */
+export async function buildRefundTransaction(
+  payment: RefundablePayment,
+  signer: TransactionSigner,
+  rpc: SolanaRpcClient
+): Promise<{ transaction: string; destination: string }> {
+  const amount = BigInt(payment.amountAtomic);
+  let instruction: Instruction;
+  let destination: string;
+
+  if (payment.assetType === 'native') {
+    destination = payment.payer;
+    const data = Buffer.alloc(12);
+    data.writeUInt32LE(SYSTEM_TRANSFER, 0);
+    data.writeBigUInt64LE(amount, 4);
+    instruction = {
+      programAddress: address(SYSTEM_PROGRAM_ADDRESS),
+      accounts: [
+        { address: signer.address, role: AccountRole.WRITABLE_SIGNER, signer },
+        { address: address(destination), role: AccountRole.WRITABLE },
+        { address: address(payment.reference), role: AccountRole.READONLY },
+      ],
+      data: new Uint8Array(data),
+    } as Instruction;
+  } else {
+    const source = await findPaymentSource(payment, rpc);
+    destination = source.tokenAccount;
+    const refundSource = await getAssociatedTokenAddress(
+      signer.address,
+      payment.mint,
+      source.tokenProgram
+    );
+    const data = Buffer.alloc(10);
+    data.writeUInt8(TOKEN_TRANSFER_CHECKED, 0);
+    data.writeBigUInt64LE(amount, 1);
+    data.writeUInt8(payment.decimals, 9);
+    instruction = {
+      programAddress: address(source.tokenProgram),
+      accounts: [
+        { address: address(refundSource), role: AccountRole.WRITABLE },
+        { address: address(payment.mint), role: AccountRole.READONLY },
+        { address: address(destination), role: AccountRole.WRITABLE },
+        { address: signer.address, role: AccountRole.READONLY_SIGNER, signer },
+        { address: address(payment.reference), role: AccountRole.READONLY },
+      ],
+      data: new Uint8Array(data),
+    } as Instruction;
+  }
+
+  const { value: latestBlockhash } = await (
+    rpc.getLatestBlockhash() as any
+  ).send();
+  const message = pipe(
+    createTransactionMessage({ version: 0 }),
+    (m) => setTransactionMessageFeePayerSigner(signer, m),
+    (m) => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, m),
+    (m) => appendTransactionMessageInstructions([instruction], m)
+  );
+  const transaction = await signTransactionMessageWithSigners(message);
+  return {
+    transaction: getBase64EncodedWireTransaction(transaction),
+    destination,
+  };
+}
+
+/**
+ * Find the token account and program a payment was transferred from
+ * Prefers the transfer into the recipient's associated token account
+ */
+async function findPaymentSource(
+  payment: RefundablePayment,
+  rpc: SolanaRpcClient
+): Promise<{ tokenAccount: string; tokenProgram: string }> {
+  const decoded = decodeWireTransaction(
+    payment.transaction || (await getLandedTransaction(payment.signature, rpc))
+  );
+  await resolveLookupTables(decoded, rpc);
+
+  const transfers: Array<{
+    source: string;
+    destination: string;
+    tokenProgram: string;
+  }> = [];
+  for (const instruction of decoded.instructions) {
+    if (
+      instruction.programId !== TOKEN_PROGRAM_ADDRESS &&
+      instruction.programId !== TOKEN_2022_PROGRAM_ADDRESS
+    ) {
+      continue;
+    }
+    const accounts = getInstructionAccounts(decoded, instruction);
+    if (instruction.data[0] === TOKEN_TRANSFER_CHECKED && accounts[1] === payment.mint) {
+      transfers.push({
+        source: accounts[0],
+        destination: accounts[2],
+        tokenProgram: instruction.programId,
+      });
+    } else if (instruction.data[0] === TOKEN_TRANSFER) {
+      transfers.push({
+        source: accounts[0],
+        destination: accounts[1],
+        tokenProgram: instruction.programId,
+      });
+    }
+  }
+
+  for (const transfer of transfers) {
+    const recipientTokenAccount = await getAssociatedTokenAddress(
+      payment.recipient,
+      payment.mint,
+      transfer.tokenProgram
+    );
+    if (transfer.destination === recipientTokenAccount) {
+      return { tokenAccount: transfer.source, tokenProgram: transfer.tokenProgram };
+    }
+  }
+  if (transfers.length === 0) {
+    throw new Error(`No token transfer found in payment ${payment.signature}`);
+  }
+  return {
+    tokenAccount: transfers[0].source,
+    tokenProgram: transfers[0].tokenProgram,
+  };
+}
+
+/**
+ * Wire transaction of a payment the wallet submitted itself
+ */
+async function getLandedTransaction(
+  signature: string,
+  rpc: SolanaRpcClient
+): Promise<string> {
+  const tx = await (
+    rpc.getTransaction(signature as Signature, {
+      encoding: 'base64',
+      maxSupportedTransactionVersion: 0,
+      commitment: 'confirmed',
+    }) as any
+  ).send();
+  if (!tx?.transaction) {
+    throw new Error(`Payment transaction ${signature} not found`);
+  }
+  return tx.transaction[0];
+}
@@ -0,0 +1,1870 @@
+/**
+ * x402 Resource Server Core
+ * Framework-agnostic payment protocol logic shared by the HTTP adapters
+ *
+ * The core takes the X-PAYMENT header and the requested route and returns a
+ * decision: a 402 body, a settlement header to attach before continuing, or an error.
+ * Adapters (Express, Fastify, Fetch/Hono, Koa, node:http) only translate
+ * their request and response objects.
+ */
+
+import {
+  generateKeyPair,
+  getAddressFromPublicKey,
+  getBase58Decoder,
+} from '@solana/kit';
+import { PaymentState } from './paymentState';
+import {
+  CreditStore,
+  PaidPayment,
+  PaymentStore,
+  RefundRecord,
+  isCreditStore,
+  isRefundStore,
+} from './paymentStore';
+import { PaymentLedger } from './paymentLedger';
+import { ReferenceRegistry } from './referenceRegistry';
+import { PenaltyList } from './penaltyList';
+import {
+  createSolanaRpcClient,
+  getPrimaryRpcEndpoint,
+  RpcFailoverOptions,
+  isRpcUnavailableError,
+  SolanaRpcClient,
+} from './rpcClient';
+import { MintInfoCache } from './mintInfo';
+import { formatAtomicAmount, toAtomicAmount } from './amount';
+import {
+  isSubmittedPayment,
+  parsePaymentPayload,
+  validatePaymentPayload,
+} from './paymentPayload';
+import {
+  Facilitator,
+  FeePayerConfig,
+  createFacilitatorClient,
+  createLocalFacilitator,
+} from './facilitator';
+import {
+  InstructionAllowlistEntry,
+  decodeWireTransaction,
+} from './transactionInspector';
+import { ConfirmationOptions } from './transactionConfirmation';
+import { sendSignedTransaction } from './transactionHandler';
+import {
+  RefundOptions,
+  RefundablePayment,
+  buildRefundTransaction,
+  isServerError,
+} from './refunds';
+import {
+  PaymentEvent,
+  PaymentEventSink,
+  PaymentHooks,
+  createPaymentEventEmitter,
+} from './paymentEvents';
+import {
+  AccessPassClaims,
+  AccessPassConfig,
+  AccessPassOptions,
+  getBearerToken,
+  signAccessPass,
+  verifyAccessPass,
+} from './accessPass';
+import {
+  CREDITS_BALANCE_HEADER,
+  CREDITS_COST_HEADER,
+  CreditBalanceResponse,
+  CreditHistoryResponse,
+  CreditsOptions,
+  CreditsUsage,
+  DEFAULT_CREDITS_AUTH_MAX_AGE_SECONDS,
+  DEFAULT_CREDITS_HISTORY_LIMIT,
+  DEFAULT_CREDITS_PATH,
+  getRouteCost,
+  verifyCreditsAuthHeader,
+} from './credits';
+import {
+  DEFAULT_RECEIPT_KEY_PATH,
+  ReceiptKeysResponse,
+  ReceiptOptions,
+  SignedPaymentReceipt,
+  signReceipt,
+} from './receipts';
+import {
+  ProtocolFormat,
+  toX402Network,
+  toX402PaymentRequirements,
+} from './protocol';
+import {
+  NATIVE_SOL_DECIMALS,
+  NATIVE_SOL_MINT,
+  PaymentAssetType,
+  PaymentErrorCode,
+  PaymentRequirement,
+  PaymentRequiredResponse,
+  PaymentPayload,
+  PaymentStatusResponse,
+  SettlementResponse,
+  X402_VERSION,
+} from './types';
+
+export const X_PAYMENT_HEADER = 'x-payment';
+export const X_PAYMENT_RESPONSE_HEADER = 'x-payment-response';
+
+export interface PaymentRequirementConfig {
+  assetType?: PaymentAssetType; // 'spl-token' (default) or 'native' for SOL
+  mint?: string; // Token mint address (required for 'spl-token')
+  amount: string | number; // Amount in token units, preferably a decimal string (e.g., "0.05")
+  decimals?: number; // Mint decimals (default: fetched from RPC and cached)
+  recipient: string; // Recipient wallet address
+  credits?: number; // Credits mode: credits granted by a top-up with this requirement (default: credits.topUpCredits)
+  accessPass?: AccessPassConfig; // Sell a time-based access pass instead of a single request (needs accessPasses)
+}
+
+export interface ResourceServerOptions {
+  /** Solana network: 'devnet' | 'mainnet-beta' | 'testnet' */
+  network: 'devnet' | 'mainnet-beta' | 'testnet';
+  /** Solana RPC endpoint URL (required unless rpcFailover, rpc or a facilitator is set) */
+  rpcEndpoint?: string;
+  /** Several RPC endpoints with failover, retries and circuit breakers (replaces rpcEndpoint) */
+  rpcFailover?: RpcFailoverOptions;
+  /** Solana RPC client (optional, created from rpcEndpoint otherwise) */
+  rpc?: SolanaRpcClient;
+  /** Payment requirements configuration */
+  paymentRequirements: PaymentRequirementConfig[];
+  /** TTL in seconds for cached payment verifications (default: 300) */
+  ttlSeconds?: number;
+  /** Programs and instructions a payment transaction may contain (default: DEFAULT_INSTRUCTION_ALLOWLIST) */
+  instructionAllowlist?: InstructionAllowlistEntry[];
+  /** Gasless mode: the gateway pays network fees of client transactions (optional) */
+  feePayer?: FeePayerConfig;
+  /** Commitment, timeouts (optionally tiered by amount) and WebSocket endpoint of confirmations */
+  confirmation?: ConfirmationOptions;
+  /** Remote facilitator URL or instance that verifies and settles payments instead of calling RPC directly (optional) */
+  facilitator?: string | Facilitator;
+  /** Format of 402 response bodies: 'x402', 'legacy' or 'both' (default: 'both') */
+  protocolFormat?: ProtocolFormat;
+  /** Description of the protected resource advertised in x402 requirements (optional) */
+  description?: string;
+  /** MIME type of the protected resource response (default: 'application/json') */
+  mimeType?: string;
+  /**
+   * Settlement mode (default: 'sync')
+   * - 'sync': serve once the payment is confirmed
+   * - 'async': answer 202 Accepted with a status URL once the payment is submitted
+   * - 'optimistic': serve once the payment is submitted, confirm in the background
+   */
+  settlementMode?: SettlementMode;
+  /** Path of the payment status endpoint below the mount path (default: '/x402/payments') */
+  statusPath?: string;
+  /** Seconds a payer whose optimistic payment failed is settled synchronously (default: 86400) */
+  penaltySeconds?: number;
+  /** Prepaid credits: payments top up a balance that requests spend (optional, sync settlement only) */
+  credits?: CreditsOptions;
+  /** Signing keys of access passes sold by accessPass requirements (optional, sync settlement only) */
+  accessPasses?: AccessPassOptions;
+  /** Ed25519 key signing payment receipts, published at the receipt key endpoint (optional) */
+  receipts?: ReceiptOptions;
+  /** Refund payments whose protected response failed, e.g. with a 5xx (optional, sync settlement only) */
+  refunds?: RefundOptions;
+  /** Store for verified payments, issued references and used signatures (default: in-memory) */
+  store?: PaymentStore;
+  /** Durable record of settled payments for accounting and reconciliation (optional) */
+  ledger?: PaymentLedger;
+  /** Typed payment lifecycle hooks (optional) */
+  hooks?: PaymentHooks;
+  /** Receiver of all payment events, e.g. a WebhookDispatcher (optional) */
+  webhooks?: PaymentEventSink;
+  /** Custom logger function (optional) */
+  logger?: (message: string) => void;
+}
+
+/**
+ * Request as seen by the core, extracted from the framework request by an adapter
+ */
+export interface PaymentRequestContext {
+  /** Value of the X-PAYMENT header (undefined if absent) */
+  paymentHeader?: string;
+  /** Value of the X-CREDITS-AUTH header (undefined if absent) */
+  creditsHeader?: string;
+  /** Value of the Authorization header, carrying access passes (undefined if absent) */
+  authorization?: string;
+  /** Route references are issued for: mount path + request path, without query string */
+  route: string;
+  /** Full URL of the requested resource, advertised in x402 requirements */
+  resource: string;
+  /** Mount path of the middleware, prefix of the payment status endpoint (default: '') */
+  basePath?: string;
+}
+
+export type SettlementMode = 'sync' | 'async' | 'optimistic';
+
+/**
+ * Outcome of processing a request
+ * Adapters set the headers, then either continue ('verified') or respond with status and body
+ * - 'payment-required': respond with the 402 body
+ * - 'verified': continue to the route handler (headers carry X-PAYMENT-RESPONSE and/or the credits balance)
+ * - 'accepted': respond 202, the payment settles in the background (async mode)
+ * - 'status': respond with the payment status (async mode status endpoint)
+ * - 'credits': respond with the credit balance or usage history (credits mode endpoints)
+ * - 'receipt-keys': respond with the published receipt keys
+ * - 'error': respond with the status and error body
+ */
+export type PaymentDecision =
+  | {
+      type: 'payment-required';
+      status: 402;
+      headers: Record<string, string>;
+      body: PaymentRequiredResponse;
+    }
+  | {
+      type: 'verified';
+      headers: Record<string, string>;
+      /** Absent when the request was paid from credits alone */
+      settlement?: SettlementResponse;
+      paymentPayload?: PaymentPayload;
+      /** Credits spent by the request (credits mode) */
+      credits?: CreditsUsage;
+      /** Claims of the access pass the request was served with */
+      accessPass?: AccessPassClaims;
+    }
+  | {
+      type: 'accepted';
+      status: 202;
+      headers: Record<string, string>;
+      body: PaymentStatusResponse;
+    }
+  | {
+      type: 'status';
+      status: number;
+      headers: Record<string, string>;
+      body: PaymentStatusResponse | { error: string };
+    }
+  | {
+      type: 'credits';
+      status: number;
+      headers: Record<string, string>;
+      body:
+        | CreditBalanceResponse
+        | CreditHistoryResponse
+        | { error: string; errorCode?: PaymentErrorCode };
+    }
+  | {
+      type: 'receipt-keys';
+      status: 200;
+      headers: Record<string, string>;
+      body: ReceiptKeysResponse;
+    }
+  | {
+      type: 'error';
+      status: number;
+      headers: Record<string, string>;
+      body: { error: string; errorCode?: PaymentErrorCode };
+    };
+
+export interface ResourceServerCore {
+  /** Process a request and decide how the adapter responds */
+  handle(request: PaymentRequestContext): Promise<PaymentDecision>;
+  /**
+   * Report the status of the response served after a 'verified' decision
+   * Refunds the payment if the refund policy matches; never rejects
+   */
+  handleResponse(decision: PaymentDecision, status: number): Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_MIME_TYPE = 'application/json';
+const DEFAULT_STATUS_PATH = '/x402/payments';
+const DEFAULT_PENALTY_SECONDS = 86400;
+
+/**
+ * Create the framework-agnostic x402 resource server core
+ * Validates options and sets up the store, reference registry and facilitator
+ */
+export function createResourceServerCore(
+  options: ResourceServerOptions
+): ResourceServerCore {
+  const {
+    network,
+    rpcEndpoint,
+    paymentRequirements,
+    ttlSeconds = DEFAULT_TTL_SECONDS,
+    store: paymentState = new PaymentState(),
+    settlementMode = 'sync',
+    statusPath = DEFAULT_STATUS_PATH,
+    logger = console.log,
+  } = options;
+
+  for (const config of paymentRequirements) {
+    if ((config.assetType ?? 'spl-token') === 'spl-token' && !config.mint) {
+      throw new Error('Payment requirement with SPL token asset needs a mint');
+    }
+  }
+  const credits = options.credits;
+  if (credits) {
+    validateCreditsOptions(credits, paymentRequirements, settlementMode, paymentState);
+  }
+  validateAccessPassOptions(options, settlementMode);
+  if (options.refunds) {
+    if (settlementMode !== 'sync') {
+      throw new Error('Refunds require sync settlement');
+    }
+    if (!isRefundStore(paymentState)) {
+      throw new Error('Refunds require a payment store that records refunds');
+    }
+  }
+  const refundStore =
+    options.refunds && isRefundStore(paymentState) ? paymentState : null;
+  const creditStore =
+    credits && isCreditStore(paymentState) ? paymentState : null;
+  const creditsAuthMaxAge =
+    credits?.authMaxAgeSeconds ?? DEFAULT_CREDITS_AUTH_MAX_AGE_SECONDS;
+  const rpcConfig = options.rpcFailover
+    ? { logger, ...options.rpcFailover }
+    : rpcEndpoint;
+  if (!rpcConfig && !options.rpc && !options.facilitator) {
+    throw new Error(
+      'rpcEndpoint is required unless rpcFailover, rpc or a facilitator is set'
+    );
+  }
+
+  // Initialize reference registry, RPC client, mint lookups and facilitator
+  const referenceRegistry = new ReferenceRegistry(paymentState, ttlSeconds);
+  const rpcClient =
+    options.rpc ||
+    (rpcConfig ? createSolanaRpcClient(network, rpcConfig) : null);
+  const mintInfo = rpcClient ? new MintInfoCache(rpcClient) : null;
+  if (options.refunds && !rpcClient) {
+    throw new Error('Refunds require rpcEndpoint, rpcFailover or rpc');
+  }
+  const facilitator =
+    typeof options.facilitator === 'string'
+      ? createFacilitatorClient(options.facilitator)
+      : options.facilitator ||
+        createLocalFacilitator(
+          {
+            network,
+            rpcEndpoint: rpcConfig && getPrimaryRpcEndpoint(rpcConfig),
+            instructionAllowlist: options.instructionAllowlist,
+            feePayer: options.feePayer,
+            confirmation: options.confirmation,
+            logger,
+          },
+          rpcClient!
+        );
+
+  const emit = createPaymentEventEmitter(
+    options.hooks,
+    options.webhooks ? [options.webhooks] : [],
+    logger
+  );
+
+  // Async settlement: pending and failed settlements of this instance
+  // (settled payments are read from the store), with the route and payload they were submitted for
+  const settlements = new Map<
+    string,
+    {
+      status: PaymentStatusResponse;
+      route: string;
+      signature: string | null;
+      expiry: number;
+    }
+  >();
+  // Receipts of settled payments, resent on cache hits of this instance
+  const receipts = new Map<
+    string,
+    { receipt: SignedPaymentReceipt; expiry: number }
+  >();
+  // Payments settled by this instance that are refunded if their response fails
+  const refundable = new Map<
+    string,
+    { payment: RefundablePayment; expiry: number }
+  >();
+  const penaltyList = new PenaltyList(
+    options.penaltySeconds ?? DEFAULT_PENALTY_SECONDS
+  );
+
+  // Setup periodic cleanup
+  setInterval(async () => {
+    const now = Date.now();
+    for (const map of [settlements, receipts, refundable]) {
+      for (const [reference, entry] of map.entries()) {
+        if (now > entry.expiry) {
+          map.delete(reference);
+        }
+      }
+    }
+    penaltyList.cleanup();
+    try {
+      const cleaned = await paymentState.cleanup();
+      if (cleaned > 0) {
+        logger(`Cleaned up ${cleaned} expired payment store entries`);
+      }
+    } catch (error) {
+      logger(`Payment store cleanup failed: ${error}`);
+    }
+  }, 60000).unref(); // Every minute
+
+  // Gasless mode: the fee payer comes from the options or the facilitator
+  let feePayerAddress: Promise<string | undefined> | null = null;
+  const getFeePayerAddress = () => {
+    if (!feePayerAddress) {
+      feePayerAddress = options.feePayer
+        ? Promise.resolve(options.feePayer.signer.address)
+        : facilitator.supported().then(
+            ({ kinds }) =>
+              kinds.find((kind) => kind.network === network)?.extra?.feePayer
+          );
+      feePayerAddress.catch(() => {
+        feePayerAddress = null;
+      });
+    }
+    return feePayerAddress;
+  };
+
+  const paymentRequired = async (
+    request: PaymentRequestContext,
+    failure: PaymentFailure
+  ): Promise<PaymentDecision> => {
+    let feePayer: string | undefined;
+    try {
+      feePayer = await getFeePayerAddress();
+    } catch (supportedError) {
+      logger(`Error fetching supported payment kinds: ${supportedError}`);
+      return {
+        type: 'error',
+        status: 503,
+        headers: {},
+        body: {
+          error: 'Unable to build payment requirements',
+          errorCode: 'facilitator_unavailable',
+        },
+      };
+    }
+
+    try {
+      const { body, paymentRequirements: issued } =
+        await buildPaymentRequiredResponse(
+          request,
+          options,
+          referenceRegistry,
+          mintInfo,
+          rpcClient,
+          feePayer,
+          failure
+        );
+      for (const paymentRequirement of issued) {
+        emit({
+          type: 'payment.required',
+          ...requirementEventFields(request.route, paymentRequirement),
+          reason: failure.error,
+          errorCode: failure.errorCode,
+        });
+      }
+      return { type: 'payment-required', status: 402, headers: {}, body };
+    } catch (buildError) {
+      logger(`Error building payment requirements: ${buildError}`);
+      const errorCode = isRpcUnavailableError(buildError)
+        ? 'rpc_unavailable'
+        : 'internal_error';
+      return {
+        type: 'error',
+        status: getInfrastructureErrorStatus(errorCode)!,
+        headers: {},
+        body: { error: 'Unable to build payment requirements', errorCode },
+      };
+    }
+  };
+
+  /**
+   * Reject a payment: 402 with fresh requirements, or 5xx for infrastructure
+   * failures (paying again would not help, the client retries the same payment)
+   */
+  const rejectPayment = (
+    request: PaymentRequestContext,
+    failure: PaymentFailure
+  ): Promise<PaymentDecision> => {
+    const status = getInfrastructureErrorStatus(failure.errorCode);
+    if (status) {
+      return Promise.resolve({
+        type: 'error',
+        status,
+        headers: {},
+        body: { error: failure.error, errorCode: failure.errorCode },
+      });
+    }
+    return paymentRequired(request, failure);
+  };
+
+  /**
+   * Answer a request the payment store failed on with 503
+   */
+  const storeUnavailable = (action: string, error: unknown): PaymentDecision => {
+    logger(`Error ${action}: ${error}`);
+    return {
+      type: 'error',
+      status: 503,
+      headers: {},
+      body: { error: `Error ${action}: ${error}`, errorCode: 'store_unavailable' },
+    };
+  };
+
+  /**
+   * Payment rejected before settlement: report the failure, then reject it
+   */
+  const paymentFailed = (
+    request: PaymentRequestContext,
+    event: PaymentEventFields,
+    failure: PaymentFailure
+  ): Promise<PaymentDecision> => {
+    emit({
+      type: 'payment.failed',
+      ...event,
+      reason: failure.error,
+      errorCode: failure.errorCode,
+    });
+    return rejectPayment(request, failure);
+  };
+
+  const trackSettlement = (
+    status: PaymentStatusResponse,
+    route: string,
+    signature: string | null
+  ) => {
+    settlements.set(status.reference, {
+      status,
+      route,
+      signature,
+      expiry: Date.now() + ttlSeconds * 1000,
+    });
+  };
+
+  const getTrackedSettlement = (reference: string) => {
+    const entry = settlements.get(reference);
+    return entry && Date.now() <= entry.expiry ? entry : null;
+  };
+
+  /**
+   * Record a finished settlement
+   * Returns the reason the payment can't be accepted, or null if it is settled
+   */
+  const completeSettlement = async (
+    event: PaymentEventFields,
+    settlement: SettlementResponse,
+    paymentRequirement: PaymentRequirement,
+    topUpCredits?: number
+  ): Promise<PaymentFailure | null> => {
+    const reference = event.reference;
+    const settled = {
+      ...event,
+      payer: settlement.payer || event.payer,
+      signature: settlement.transaction || event.signature,
+    };
+    if (!settlement.success) {
+      logger(`Payment settlement failed: ${settlement.error}`);
+      await referenceRegistry.release(reference);
+      const failure: PaymentFailure = {
+        error: `Payment settlement failed: ${settlement.error}`,
+        errorCode: settlement.errorCode || 'transaction_failed',
+      };
+      emit({
+        type: 'payment.failed',
+        ...settled,
+        reason: failure.error,
+        errorCode: failure.errorCode,
+      });
+      return failure;
+    }
+
+    logger(`Payment verified and confirmed for reference: ${reference}`);
+    if (
+      !(await paymentState.markSignatureUsed(
+        settlement.transaction,
+        reference,
+        ttlSeconds
+      ))
+    ) {
+      logger(`Transaction ${settlement.transaction} was already used`);
+      const failure: PaymentFailure = {
+        error: 'Transaction was already used',
+        errorCode: 'transaction_already_used',
+      };
+      emit({
+        type: 'payment.failed',
+        ...settled,
+        reason: failure.error,
+        errorCode: failure.errorCode,
+      });
+      return failure;
+    }
+    // Credits mode: the payment tops up the payer's balance
+    if (creditStore && topUpCredits && settled.payer) {
+      const balance = await creditStore.addCredits(settled.payer, {
+        type: 'top-up',
+        credits: topUpCredits,
+        timestamp: Date.now(),
+        route: event.route,
+        reference,
+        signature: settlement.transaction,
+      });
+      logger(`Credited ${topUpCredits} credits to ${settled.payer}, balance: ${balance}`);
+    }
+    await paymentState.markPaid(
+      reference,
+      { signature: settlement.transaction, route: event.route, network },
+      ttlSeconds
+    );
+    await recordPayment(event.route, settled.payer, settlement, paymentRequirement);
+    emit({ type: 'payment.settled', ...settled });
+    return null;
+  };
+
+  /**
+   * Append a settled payment to the ledger
+   * A payment that can't be recorded is logged and stands, reconciliation reports it
+   */
+  const recordPayment = async (
+    route: string,
+    payer: string | undefined,
+    settlement: SettlementResponse,
+    paymentRequirement: PaymentRequirement
+  ) => {
+    if (!options.ledger) {
+      return;
+    }
+    try {
+      await options.ledger.record({
+        reference: paymentRequirement.reference,
+        route,
+        network,
+        payer: payer || '',
+        assetType: paymentRequirement.assetType,
+        mint: paymentRequirement.mint,
+        amountAtomic: paymentRequirement.amountAtomic,
+        decimals: paymentRequirement.decimals,
+        recipient: paymentRequirement.recipient,
+        signature: settlement.transaction,
+        slot: settlement.slot,
+        timestamp: Date.now(),
+        requirement: paymentRequirement,
+      });
+    } catch (ledgerError) {
+      logger(
+        `Error recording payment ${paymentRequirement.reference} in the ledger: ${ledgerError}`
+      );
+    }
+  };
+
+  /**
+   * Sign the receipt of a settled payment and keep it for cache hits
+   * A receipt that can't be signed is logged and left out, the payment stands
+   */
+  const issueReceipt = async (
+    event: PaymentEventFields,
+    settlement: SettlementResponse,
+    resource: string
+  ): Promise<SignedPaymentReceipt | undefined> => {
+    if (!options.receipts) {
+      return undefined;
+    }
+    try {
+      const receipt = await signReceipt(
+        {
+          network: event.network,
+          payer: settlement.payer || event.payer || '',
+          mint: event.mint || '',
+          amountAtomic: event.amountAtomic || '',
+          transaction: settlement.transaction,
+          reference: event.reference,
+          resource,
+          timestamp: Date.now(),
+        },
+        options.receipts.signer
+      );
+      receipts.set(event.reference, {
+        receipt,
+        expiry: Date.now() + ttlSeconds * 1000,
+      });
+      return receipt;
+    } catch (signError) {
+      logger(`Error signing receipt for reference ${event.reference}: ${signError}`);
+      return undefined;
+    }
+  };
+
+  const getReceipt = (reference: string) => {
+    const entry = receipts.get(reference);
+    return entry && Date.now() <= entry.expiry ? entry.receipt : undefined;
+  };
+
+  /**
+   * Finish a submitted settlement after the response was sent (async and optimistic modes)
+   * Payers of failed optimistic payments are penalized
+   */
+  const completeSettlementInBackground = async (
+    status: PaymentStatusResponse,
+    payloadSignature: string | null,
+    event: PaymentEventFields,
+    settling: Promise<SettlementResponse>,
+    paymentRequirement: PaymentRequirement,
+    optimistic: boolean,
+    resource: string
+  ) => {
+    let failure: PaymentFailure | null;
+    let settlement: SettlementResponse | undefined;
+    try {
+      settlement = await settling;
+      failure = await completeSettlement(event, settlement, paymentRequirement);
+    } catch (completeError) {
+      failure = {
+        error: `Error completing settlement: ${completeError}`,
+        errorCode: 'internal_error',
+      };
+      emit({
+        type: 'payment.failed',
+        ...event,
+        reason: failure.error,
+        errorCode: failure.errorCode,
+      });
+    }
+
+    if (!failure) {
+      trackSettlement(
+        {
+          ...status,
+          status: 'settled',
+          receipt: await issueReceipt(event, settlement!, resource),
+        },
+        event.route,
+        payloadSignature
+      );
+      return;
+    }
+    logger(
+      `Background settlement failed for reference ${status.reference}: ${failure.error}`
+    );
+    trackSettlement(
+      {
+        ...status,
+        status: 'failed',
+        error: failure.error,
+        errorCode: failure.errorCode,
+      },
+      event.route,
+      payloadSignature
+    );
+    // Infrastructure failures are not the payer's fault
+    if (
+      optimistic &&
+      status.payer &&
+      !getInfrastructureErrorStatus(failure.errorCode)
+    ) {
+      penaltyList.add(status.payer);
+      logger(`Payer ${status.payer} penalized, settling synchronously from now on`);
+    }
+  };
+
+  /**
+   * Payment status endpoint (async settlement)
+   */
+  const paymentStatus = async (reference: string): Promise<PaymentDecision> => {
+    const tracked = getTrackedSettlement(reference);
+    if (tracked) {
+      return { type: 'status', status: 200, headers: {}, body: tracked.status };
+    }
+    let paid: PaidPayment | null;
+    try {
+      paid = await paymentState.getPayment(reference);
+    } catch (error) {
+      return storeUnavailable('reading payment status', error);
+    }
+    if (paid) {
+      return {
+        type: 'status',
+        status: 200,
+        headers: {},
+        body: {
+          reference,
+          status: 'settled',
+          network,
+          transaction: paid.signature || undefined,
+          receipt: getReceipt(reference),
+        },
+      };
+    }
+    return {
+      type: 'status',
+      status: 404,
+      headers: {},
+      body: { error: `Unknown payment reference: ${reference}` },
+    };
+  };
+
+  /**
+   * Check the X-CREDITS-AUTH header of a request (credits mode)
+   * Each signed header is accepted once
+   */
+  const authorizeCredits = async (
+    request: PaymentRequestContext
+  ): Promise<{ valid: true; payer: string } | ({ valid: false } & PaymentFailure)> => {
+    const auth = await verifyCreditsAuthHeader(
+      request.creditsHeader || '',
+      request.route,
+      creditsAuthMaxAge
+    );
+    if (!auth.valid) {
+      return { valid: false, error: auth.error, errorCode: 'invalid_credits_auth' };
+    }
+    // Headers are accepted within creditsAuthMaxAge either side of their timestamp
+    if (
+      !(await paymentState.markSignatureUsed(
+        `credits-auth:${auth.signature}`,
+        auth.payer,
+        creditsAuthMaxAge * 2
+      ))
+    ) {
+      return {
+        valid: false,
+        error: 'X-CREDITS-AUTH header was already used',
+        errorCode: 'invalid_credits_auth',
+      };
+    }
+    return { valid: true, payer: auth.payer };
+  };
+
+  /**
+   * Deduct the cost of the requested route from the payer's balance (credits mode)
+   * Returns null if the balance doesn't cover it
+   */
+  const spendCredits = async (
+    request: PaymentRequestContext,
+    payer: string
+  ): Promise<CreditsUsage | null> => {
+    const cost = getRouteCost(credits!, request.route);
+    const balance = await creditStore!.deductCredits(payer, {
+      type: 'usage',
+      credits: cost,
+      timestamp: Date.now(),
+      route: request.route,
+    });
+    if (balance === null) {
+      logger(`Insufficient credits of ${payer} for ${request.route}`);
+      return null;
+    }
+    return { payer, cost, balance };
+  };
+
+  const insufficientCredits = (
+    request: PaymentRequestContext
+  ): Promise<PaymentDecision> =>
+    paymentRequired(request, {
+      error: `Insufficient credits: ${request.route} costs ${getRouteCost(credits!, request.route)}`,
+      errorCode: 'insufficient_credits',
+    });
+
+  /**
+   * Serve a request from the payer's credit balance (credits mode)
+   */
+  const payWithCredits = async (
+    request: PaymentRequestContext
+  ): Promise<PaymentDecision> => {
+    try {
+      const auth = await authorizeCredits(request);
+      if (!auth.valid) {
+        logger(`Credits authorization failed: ${auth.error}`);
+        return paymentRequired(request, auth);
+      }
+      const usage = await spendCredits(request, auth.payer);
+      if (!usage) {
+        return insufficientCredits(request);
+      }
+      return {
+        type: 'verified',
+        headers: creditsUsageHeaders(usage),
+        credits: usage,
+      };
+    } catch (error) {
+      logger(`Error spending credits: ${error}`);
+      return rejectPayment(request, {
+        error: `Error spending credits: ${error}`,
+        errorCode: 'internal_error',
+      });
+    }
+  };
+
+  /**
+   * Credit balance and usage history endpoints (credits mode)
+   */
+  const creditsEndpoint = async (
+    request: PaymentRequestContext,
+    history: boolean
+  ): Promise<PaymentDecision> => {
+    try {
+      const auth = request.creditsHeader
+        ? await authorizeCredits(request)
+        : ({
+            valid: false,
+            error: 'X-CREDITS-AUTH header is required',
+            errorCode: 'invalid_credits_auth',
+          } as const);
+      if (!auth.valid) {
+        return {
+          type: 'credits',
+          status: 401,
+          headers: {},
+          body: { error: auth.error, errorCode: auth.errorCode },
+        };
+      }
+      const balance = await creditStore!.getCreditBalance(auth.payer);
+      return {
+        type: 'credits',
+        status: 200,
+        headers: {},
+        body: history
+          ? {
+              payer: auth.payer,
+              balance,
+              history: await creditStore!.getCreditHistory(
+                auth.payer,
+                credits!.historyLimit ?? DEFAULT_CREDITS_HISTORY_LIMIT
+              ),
+            }
+          : { payer: auth.payer, balance },
+      };
+    } catch (error) {
+      return storeUnavailable('reading credits', error);
+    }
+  };
+
+  /**
+   * Sign the access pass bought by a settled payment
+   * Passes are scoped to all routes of the middleware unless the requirement lists routes
+   */
+  const issueAccessPass = (
+    request: PaymentRequestContext,
+    config: AccessPassConfig,
+    payer: string | undefined,
+    reference: string
+  ): string => {
+    const now = Math.floor(Date.now() / 1000);
+    logger(`Access pass issued for reference: ${reference}`);
+    return signAccessPass(
+      {
+        iss: options.accessPasses!.issuer,
+        sub: payer || '',
+        scope: config.routes || [`${request.basePath || ''}/*`],
+        iat: now,
+        exp: now + config.durationSeconds,
+        jti: reference,
+      },
+      options.accessPasses!
+    );
+  };
+
+  /**
+   * Refund a payment whose protected response failed
+   * The refund is recorded against the reference first, so it runs at most once
+   */
+  const refundPayment = async (
+    payment: RefundablePayment,
+    responseStatus: number
+  ): Promise<void> => {
+    const record: RefundRecord = {
+      reference: payment.reference,
+      status: 'pending',
+      route: payment.route,
+      payer: payment.payer,
+      mint: payment.mint,
+      amountAtomic: payment.amountAtomic,
+      paymentTransaction: payment.signature,
+      responseStatus,
+      timestamp: Date.now(),
+    };
+    try {
+      if (!(await refundStore!.createRefund(record))) {
+        logger(`Payment ${payment.reference} was already refunded`);
+        return;
+      }
+      logger(
+        `Refunding payment ${payment.reference} after a ${responseStatus} response`
+      );
+      const { transaction, destination } = await buildRefundTransaction(
+        payment,
+        options.refunds!.signer,
+        rpcClient!
+      );
+      record.destination = destination;
+      const result = await sendSignedTransaction(transaction, rpcClient!, {
+        commitment: options.confirmation?.commitment,
+        timeoutMs:
+          options.confirmation?.timeoutSeconds === undefined
+            ? undefined
+            : options.confirmation.timeoutSeconds * 1000,
+        pollIntervalMs: options.confirmation?.pollIntervalMs,
+      });
+      record.transaction = result.signature || undefined;
+      if (result.success) {
+        record.status = 'refunded';
+      } else {
+        record.status = 'failed';
+        record.error = `Refund failed: ${result.error}`;
+        record.errorCode = result.errorCode;
+      }
+    } catch (refundError) {
+      record.status = 'failed';
+      record.error = `Refund error: ${refundError}`;
+      record.errorCode = isRpcUnavailableError(refundError)
+        ? 'rpc_unavailable'
+        : 'internal_error';
+    }
+
+    record.timestamp = Date.now();
+    try {
+      await refundStore!.updateRefund(record);
+    } catch (storeError) {
+      logger(`Error recording refund of ${payment.reference}: ${storeError}`);
+    }
+    const event: PaymentEventFields = {
+      route: payment.route,
+      network,
+      reference: payment.reference,
+      payer: payment.payer,
+      mint: payment.mint,
+      amountAtomic: payment.amountAtomic,
+      signature: payment.signature,
+      reason: `Response failed with status ${responseStatus}`,
+    };
+    if (record.status === 'refunded') {
+      logger(`Payment ${payment.reference} refunded: ${record.transaction}`);
+      emit({
+        type: 'payment.refunded',
+        ...event,
+        refundSignature: record.transaction,
+      });
+    } else {
+      logger(`Refund of payment ${payment.reference} failed: ${record.error}`);
+      emit({
+        type: 'payment.refund_failed',
+        ...event,
+        reason: record.error,
+        errorCode: record.errorCode,
+      });
+    }
+  };
+
+  const handleResponse = async (
+    decision: PaymentDecision,
+    status: number
+  ): Promise<void> => {
+    const reference =
+      decision.type === 'verified' ? decision.paymentPayload?.reference : undefined;
+    const entry = reference ? refundable.get(reference) : undefined;
+    if (!reference || !entry) {
+      return;
+    }
+    // Only the response the payment was settled for counts
+    refundable.delete(reference);
+    const refundOn = options.refunds!.refundOn || isServerError;
+    if (refundOn(status, entry.payment.route)) {
+      await refundPayment(entry.payment, status);
+    }
+  };
+
+  const accepted = (status: PaymentStatusResponse): PaymentDecision => ({
+    type: 'accepted',
+    status: 202,
+    headers: status.statusUrl ? { location: status.statusUrl } : {},
+    body: status,
+  });
+
+  const handle = async (
+    request: PaymentRequestContext
+  ): Promise<PaymentDecision> => {
+    const basePath = request.basePath || '';
+
+    // Payment status endpoint (async settlement)
+    if (
+      settlementMode !== 'sync' &&
+      request.route.startsWith(`${basePath}${statusPath}/`)
+    ) {
+      return paymentStatus(
+        request.route.slice(`${basePath}${statusPath}/`.length)
+      );
+    }
+
+    // Credit balance and usage history endpoints
+    if (credits) {
+      const creditsPath = `${basePath}${credits.path || DEFAULT_CREDITS_PATH}`;
+      if (
+        request.route === creditsPath ||
+        request.route === `${creditsPath}/history`
+      ) {
+        return creditsEndpoint(request, request.route !== creditsPath);
+      }
+    }
+
+    // Receipt key endpoint
+    if (
+      options.receipts &&
+      request.route ===
+        `${basePath}${options.receipts.keyPath || DEFAULT_RECEIPT_KEY_PATH}`
+    ) {
+      return {
+        type: 'receipt-keys',
+        status: 200,
+        headers: { 'cache-control': 'public, max-age=300' },
+        body: {
+          keys: [
+            options.receipts.signer.address,
+            ...(options.receipts.previousKeys || []),
+          ].map((publicKey, index) => ({
+            publicKey,
+            algorithm: 'Ed25519' as const,
+            current: index === 0,
+          })),
+        },
+      };
+    }
+
+    const xPaymentHeader = request.paymentHeader;
+    // Access pass bought earlier, checked offline
+    const bearerToken = getBearerToken(request.authorization);
+    if (options.accessPasses && bearerToken && !xPaymentHeader) {
+      const pass = verifyAccessPass(bearerToken, options.accessPasses, request.route);
+      if (!pass.valid) {
+        logger(`Access pass rejected: ${pass.error}`);
+        return paymentRequired(request, pass);
+      }
+      return { type: 'verified', headers: {}, accessPass: pass.claims };
+    }
+
+    // Event fields of the payment once its requirement is known
+    let requirementEvent: PaymentEventFields | null = null;
+
+    // No X-PAYMENT header - spend credits or return 402 Payment Required
+    if (!xPaymentHeader) {
+      if (credits && request.creditsHeader) {
+        return payWithCredits(request);
+      }
+      return paymentRequired(request, {
+        error: 'X-PAYMENT header is required',
+        errorCode: 'payment_required',
+      });
+    }
+
+    // Parse and validate payment payload
+    let paymentPayload: PaymentPayload;
+    try {
+      paymentPayload = parsePaymentPayload(xPaymentHeader);
+    } catch (parseError: any) {
+      logger(`${parseError?.message || parseError}`);
+      return paymentRequired(request, {
+        error: `${parseError?.message || parseError}`,
+        errorCode: 'invalid_payload',
+      });
+    }
+    if (!validatePaymentPayload(paymentPayload)) {
+      logger(`Invalid Payment Payload format`);
+      return paymentRequired(request, {
+        error: 'Invalid Payment Payload format',
+        errorCode: 'invalid_payload',
+      });
+    }
+
+    try {
+      // x402 payloads may omit the reference, find it in the transaction
+      if (!paymentPayload.reference) {
+        paymentPayload.reference = await findReferenceInTransaction(
+          paymentPayload.transaction,
+          paymentState
+        );
+      }
+
+      // Check cache first, a payment only covers the route and network it was settled for
+      const cacheKey = paymentPayload.reference;
+      const paid = await paymentState.getPayment(cacheKey);
+      if (
+        paid &&
+        paid.route === request.route &&
+        paid.network === paymentPayload.network
+      ) {
+        // Credits mode: the top-up was credited once, later requests spend credits
+        if (credits) {
+          return request.creditsHeader
+            ? payWithCredits(request)
+            : paymentRequired(request, {
+                error: 'Reference already used, spend credits with X-CREDITS-AUTH',
+                errorCode: 'reference_used',
+              });
+        }
+        if (refundStore && (await refundStore.getRefund(cacheKey))) {
+          return paymentRequired(request, {
+            error: 'Payment was refunded',
+            errorCode: 'payment_refunded',
+          });
+        }
+        logger(`Payment ${cacheKey} already verified (cached)`);
+        emit({
+          type: 'payment.cache_hit',
+          route: request.route,
+          network,
+          reference: cacheKey,
+          signature: paid.signature || undefined,
+        });
+        const receipt = getReceipt(cacheKey);
+        return verifiedPayment(paymentPayload, {
+          success: true,
+          transaction: paid.signature || receipt?.receipt.transaction || '',
+          network,
+          payer: receipt?.receipt.payer,
+          receipt,
+        });
+      }
+
+      // Payment submitted earlier is still being confirmed (only for the same payload and route)
+      const tracked = getTrackedSettlement(cacheKey);
+      if (tracked?.status.status === 'pending') {
+        if (
+          tracked.route !== request.route ||
+          !tracked.signature ||
+          getPayloadSignature(paymentPayload) !== tracked.signature
+        ) {
+          logger(`Reference ${cacheKey} is pending settlement of another payment`);
+          return paymentRequired(request, {
+            error: 'Reference is pending settlement of another payment',
+            errorCode: 'reference_used',
+          });
+        }
+        logger(`Payment ${cacheKey} is pending confirmation`);
+        return settlementMode === 'optimistic'
+          ? verifiedPayment(paymentPayload, {
+              success: true,
+              transaction: tracked.status.transaction || '',
+              network,
+              payer: tracked.status.payer,
+            })
+          : accepted(tracked.status);
+      }
+
+      // Find matching payment requirement for an issued reference
+      const match = await findMatchingPaymentRequirement(
+        paymentPayload,
+        paymentRequirements,
+        network,
+        referenceRegistry,
+        mintInfo,
+        request.route,
+        ttlSeconds
+      );
+      if (!match.valid) {
+        logger(`No matching payment requirement found: ${match.error}`);
+        return paymentFailed(
+          request,
+          { route: request.route, network, reference: cacheKey },
+          match
+        );
+      }
+      const paymentRequirement = match.paymentRequirement;
+      const topUpCredits = credits
+        ? match.config.credits ?? credits.topUpCredits
+        : undefined;
+      const event = requirementEventFields(request.route, paymentRequirement);
+      requirementEvent = event;
+
+      // Step 1: Verify signed transaction before sending
+      logger(
+        `Verifying signed transaction for reference: ${paymentPayload.reference}`
+      );
+      const verificationResult = await facilitator.verify(
+        paymentPayload,
+        paymentRequirement
+      );
+      event.payer = verificationResult.payer;
+      if (!verificationResult.valid) {
+        logger(`Transaction verification failed: ${verificationResult.error}`);
+        return paymentFailed(request, event, {
+          error: `Transaction verification failed: ${verificationResult.error}`,
+          errorCode: verificationResult.errorCode || 'invalid_transaction',
+        });
+      }
+      emit({ type: 'payment.verified', ...event });
+
+      // Claim the reference so concurrent requests can't settle it twice
+      if (!(await referenceRegistry.consume(paymentPayload.reference))) {
+        logger(`Reference already used: ${paymentPayload.reference}`);
+        return paymentFailed(request, event, {
+          error: 'Reference already used',
+          errorCode: 'reference_used',
+        });
+      }
+
+      // Step 2: Send transaction to blockchain and wait for confirmation
+      // Async and optimistic modes answer once it is submitted (unless the payer is penalized)
+      const payer = verificationResult.payer;
+      const background =
+        settlementMode === 'async' ||
+        (settlementMode === 'optimistic' && !(payer && penaltyList.has(payer)));
+      let resolveSubmitted: (signature: string) => void = () => undefined;
+      const submitted = new Promise<string>((resolve) => {
+        resolveSubmitted = resolve;
+      });
+      const onSubmitted = (signature: string) => {
+        event.signature = signature;
+        emit({ type: 'payment.submitted', ...event });
+        resolveSubmitted(signature);
+      };
+      const settling = facilitator
+        .settle(paymentPayload, paymentRequirement, {
+          onSubmitted,
+          verified: verificationResult,
+        })
+        .catch(
+          (settleError): SettlementResponse => ({
+            success: false,
+            transaction: '',
+            network,
+            payer,
+            error: `Settlement error: ${settleError}`,
+            errorCode: isRpcUnavailableError(settleError)
+              ? 'rpc_unavailable'
+              : 'internal_error',
+          })
+        );
+
+      // Remote facilitators don't report submission, they finish settlement first
+      const signature = background
+        ? await Promise.race([submitted, settling.then(() => null)])
+        : null;
+      if (signature === null) {
+        const confirmed = await settling;
+        const failure = await completeSettlement(
+          event,
+          confirmed,
+          paymentRequirement,
+          topUpCredits
+        );
+        if (failure) {
+          return rejectPayment(request, failure);
+        }
+        const settlement: SettlementResponse = {
+          ...confirmed,
+          receipt: await issueReceipt(event, confirmed, request.resource),
+        };
+        const payer = settlement.payer || event.payer;
+        // Access pass requirement: the settlement response carries the signed pass
+        if (match.config.accessPass) {
+          return verifiedPayment(paymentPayload, {
+            ...settlement,
+            accessPass: issueAccessPass(
+              request,
+              match.config.accessPass,
+              payer,
+              cacheKey
+            ),
+          });
+        }
+        // Credits mode: the request is paid from the balance just topped up
+        if (credits && payer) {
+          const usage = await spendCredits(request, payer);
+          if (!usage) {
+            return insufficientCredits(request);
+          }
+          return verifiedPayment(paymentPayload, settlement, usage);
+        }
+        // Refund policy: the payment is refunded if its response fails
+        if (options.refunds && payer) {
+          refundable.set(cacheKey, {
+            payment: {
+              reference: cacheKey,
+              route: request.route,
+              assetType: paymentRequirement.assetType,
+              mint: paymentRequirement.mint,
+              amountAtomic: paymentRequirement.amountAtomic,
+              decimals: paymentRequirement.decimals,
+              recipient: paymentRequirement.recipient,
+              payer,
+              transaction: paymentPayload.transaction,
+              signature: settlement.transaction,
+            },
+            expiry: Date.now() + ttlSeconds * 1000,
+          });
+        }
+        return verifiedPayment(paymentPayload, settlement);
+      }
+
+      logger(
+        `Payment submitted for reference: ${cacheKey}, confirming in the background`
+      );
+      const status: PaymentStatusResponse = {
+        reference: cacheKey,
+        status: 'pending',
+        network,
+        transaction: signature,
+        payer,
+        statusUrl: new URL(
+          `${basePath}${statusPath}/${cacheKey}`,
+          request.resource
+        ).toString(),
+      };
+      const payloadSignature = getPayloadSignature(paymentPayload);
+      trackSettlement(status, request.route, payloadSignature);
+      void completeSettlementInBackground(
+        status,
+        payloadSignature,
+        { ...event },
+        settling,
+        paymentRequirement,
+        settlementMode === 'optimistic',
+        request.resource
+      );
+
+      return settlementMode === 'optimistic'
+        ? verifiedPayment(paymentPayload, {
+            success: true,
+            transaction: signature,
+            network,
+            payer,
+          })
+        : accepted(status);
+    } catch (error) {
+      logger(`Error processing payment: ${error}`);
+      const failure: PaymentFailure = {
+        error: `Error processing payment: ${error}`,
+        errorCode: isRpcUnavailableError(error)
+          ? 'rpc_unavailable'
+          : 'internal_error',
+      };
+      return requirementEvent
+        ? paymentFailed(request, requirementEvent, failure)
+        : rejectPayment(request, failure);
+    }
+  };
+
+  return { handle, handleResponse };
+}
+
+type PaymentEventFields = Omit<PaymentEvent, 'type' | 'timestamp'>;
+
+/**
+ * Reason a payment was rejected or failed
+ */
+interface PaymentFailure {
+  error: string;
+  errorCode: PaymentErrorCode;
+}
+
+/**
+ * HTTP status of infrastructure failures, null for failures answered with 402
+ */
+function getInfrastructureErrorStatus(
+  errorCode: PaymentErrorCode
+): 500 | 503 | null {
+  switch (errorCode) {
+    case 'rpc_unavailable':
+    case 'facilitator_unavailable':
+    case 'store_unavailable':
+    case 'confirmation_timeout':
+      return 503;
+    case 'internal_error':
+      return 500;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Event fields describing a payment requirement
+ */
+function requirementEventFields(
+  route: string,
+  paymentRequirement: PaymentRequirement
+): PaymentEventFields {
+  return {
+    route,
+    network: paymentRequirement.network,
+    reference: paymentRequirement.reference,
+    mint: paymentRequirement.mint,
+    amount: paymentRequirement.amount,
+    amountAtomic: paymentRequirement.amountAtomic,
+  };
+}
+
+/**
+ * Build the HTTP 402 Payment Required response body
+ * Issues a fresh reference for every configured requirement and returns
+ * the issued requirements alongside the body
+ */
+async function buildPaymentRequiredResponse(
+  request: PaymentRequestContext,
+  options: ResourceServerOptions,
+  referenceRegistry: ReferenceRegistry,
+  mintInfo: MintInfoCache | null,
+  rpcClient: SolanaRpcClient | null,
+  feePayer: string | undefined,
+  failure: PaymentFailure
+): Promise<{
+  body: PaymentRequiredResponse;
+  paymentRequirements: PaymentRequirement[];
+}> {
+  const route = request.route;
+
+  // Gasless mode: advertise the gateway fee payer and a blockhash to build against
+  let gasless: GaslessRequirementFields | undefined;
+  if (feePayer) {
+    gasless = { feePayer };
+    if (rpcClient) {
+      const { value: latestBlockhash } = await (
+        rpcClient.getLatestBlockhash() as any
+      ).send();
+      gasless.recentBlockhash = latestBlockhash.blockhash;
+      gasless.lastValidBlockHeight = String(
+        latestBlockhash.lastValidBlockHeight
+      );
+    }
+  }
+
+  const paymentRequirements = await Promise.all(
+    options.paymentRequirements.map(async (reqConfig, index) => {
+      const decimals = await resolveDecimals(reqConfig, mintInfo);
+      const amountAtomic = toAtomicAmount(reqConfig.amount, decimals);
+
+      // Generate unique reference for this requirement
+      const keyPair = await generateKeyPair();
+      const reference = await getAddressFromPublicKey(keyPair.publicKey);
+      await referenceRegistry.issue(
+        reference,
+        index,
+        amountAtomic.toString(),
+        route
+      );
+
+      return buildPaymentRequirement(
+        reqConfig,
+        options.network,
+        amountAtomic,
+        decimals,
+        reference,
+        options.ttlSeconds || DEFAULT_TTL_SECONDS,
+        gasless
+      );
+    })
+  );
+
+  const format = options.protocolFormat || 'both';
+  const body: PaymentRequiredResponse = {};
+  if (format !== 'legacy') {
+    body.x402Version = X402_VERSION;
+  }
+  body.error = failure.error;
+  body.errorCode = failure.errorCode;
+  if (format !== 'legacy') {
+    body.accepts = paymentRequirements.map((paymentRequirement) =>
+      toX402PaymentRequirements(
+        paymentRequirement,
+        request.resource,
+        options.description || '',
+        options.mimeType || DEFAULT_MIME_TYPE
+      )
+    );
+  }
+  if (format !== 'x402') {
+    body.paymentRequirements = paymentRequirements;
+  }
+
+  return { body, paymentRequirements };
+}
+
+/**
+ * Verified payment - X-PAYMENT-RESPONSE header to attach before continuing
+ * The settlement network uses x402 naming when the client sent an x402 payload
+ */
+function verifiedPayment(
+  paymentPayload: PaymentPayload,
+  settlement: SettlementResponse,
+  credits?: CreditsUsage
+): PaymentDecision {
+  // Add X-PAYMENT-RESPONSE header with settlement response
+  const responsePayload: SettlementResponse = {
+    success: true,
+    transaction: settlement.transaction,
+    network:
+      paymentPayload.x402Version === undefined
+        ? settlement.network
+        : toX402Network(settlement.network),
+    payer: settlement.payer,
+    slot: settlement.slot,
+    accessPass: settlement.accessPass,
+    receipt: settlement.receipt,
+  };
+  return {
+    type: 'verified',
+    headers: {
+      [X_PAYMENT_RESPONSE_HEADER]: Buffer.from(
+        JSON.stringify(responsePayload),
+        'utf-8'
+      ).toString('base64'),
+      ...(credits && creditsUsageHeaders(credits)),
+    },
+    settlement: responsePayload,
+    paymentPayload,
+    credits,
+  };
+}
+
+/**
+ * Headers reporting the credits spent by a request and the remaining balance
+ */
+function creditsUsageHeaders(usage: CreditsUsage): Record<string, string> {
+  return {
+    [CREDITS_BALANCE_HEADER]: String(usage.balance),
+    [CREDITS_COST_HEADER]: String(usage.cost),
+  };
+}
+
+/**
+ * Validate access pass requirements and signing keys
+ */
+function validateAccessPassOptions(
+  options: ResourceServerOptions,
+  settlementMode: SettlementMode
+): void {
+  const passes = options.paymentRequirements.flatMap((config) =>
+    config.accessPass ? [config.accessPass] : []
+  );
+  if (passes.length === 0) {
+    return;
+  }
+  const keys = options.accessPasses?.keys || [];
+  if (keys.length === 0 || keys.some((key) => !key.kid || !key.secret)) {
+    throw new Error('Access pass requirements need accessPasses signing keys with kid and secret');
+  }
+  if (new Set(keys.map((key) => key.kid)).size !== keys.length) {
+    throw new Error('Access pass key ids must be unique');
+  }
+  // Passes are only handed out once the payment is confirmed
+  if (settlementMode !== 'sync') {
+    throw new Error('Access pass requirements require sync settlement');
+  }
+  if (options.credits) {
+    throw new Error('Access pass requirements cannot be combined with credits mode');
+  }
+  if (
+    passes.some(
+      (pass) => !Number.isInteger(pass.durationSeconds) || pass.durationSeconds <= 0
+    )
+  ) {
+    throw new Error('Access pass durationSeconds must be a positive integer');
+  }
+}
+
+/**
+ * Validate credits mode options
+ * Balances are whole credits; top-ups are credited once the payment is confirmed
+ */
+function validateCreditsOptions(
+  credits: CreditsOptions,
+  paymentRequirements: PaymentRequirementConfig[],
+  settlementMode: SettlementMode,
+  store: PaymentStore
+): asserts store is PaymentStore & CreditStore {
+  if (settlementMode !== 'sync') {
+    throw new Error('Credits mode requires sync settlement');
+  }
+  if (!isCreditStore(store)) {
+    throw new Error('Credits mode requires a payment store that keeps credit balances');
+  }
+  const isCount = (value: number, min: number) =>
+    Number.isInteger(value) && value >= min;
+  const grants = [
+    credits.topUpCredits,
+    ...paymentRequirements.flatMap((config) =>
+      config.credits === undefined ? [] : [config.credits]
+    ),
+  ];
+  if (grants.some((grant) => !isCount(grant, 1))) {
+    throw new Error('Top-up credits must be positive integers');
+  }
+  const costs = [
+    credits.defaultCost ?? 1,
+    ...Object.values(credits.routeCosts || {}),
+  ];
+  if (costs.some((cost) => !isCount(cost, 0))) {
+    throw new Error('Credit costs must be non-negative integers');
+  }
+}
+
+/**
+ * Signature identifying a payment payload: the submitted signature, or the first
+ * signature of the transaction (the fee payer's, or the payer's when the gateway pays fees)
+ * Returns null if the transaction can't be decoded or is unsigned
+ */
+function getPayloadSignature(paymentPayload: PaymentPayload): string | null {
+  if (isSubmittedPayment(paymentPayload)) {
+    return paymentPayload.signature || null;
+  }
+  try {
+    const signature = Object.values(
+      decodeWireTransaction(paymentPayload.transaction).signatures
+    ).find(Boolean);
+    return signature ? getBase58Decoder().decode(signature) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the issued or paid reference among the static accounts of a transaction
+ * Returns an empty string if the transaction can't be decoded or has none
+ */
+async function findReferenceInTransaction(
+  signedTransactionBase64: string,
+  paymentState: PaymentStore
+): Promise<string> {
+  let accounts: string[];
+  try {
+    accounts = decodeWireTransaction(signedTransactionBase64).accounts.map(
+      (account) => account.address
+    );
+  } catch {
+    return '';
+  }
+
+  for (const account of accounts) {
+    if (
+      account &&
+      ((await paymentState.getIssuedReference(account)) ||
+        (await paymentState.isPaid(account)))
+    ) {
+      return account;
+    }
+  }
+  return '';
+}
+
+/**
+ * First value of a header from a Node style header record
+ */
+export function getHeaderValue(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Find matching payment requirement based on payment payload
+ * The reference must have been issued by this gateway for the same route,
+ * and selects the advertised requirement (mint, recipient, amount) to verify against
+ */
+async function findMatchingPaymentRequirement(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirementConfig[],
+  network: string,
+  referenceRegistry: ReferenceRegistry,
+  mintInfo: MintInfoCache | null,
+  route: string,
+  ttlSeconds: number
+): Promise<
+  | {
+      valid: true;
+      paymentRequirement: PaymentRequirement;
+      config: PaymentRequirementConfig;
+    }
+  | ({ valid: false } & PaymentFailure)
+> {
+  if (paymentPayload.network !== network) {
+    return {
+      valid: false,
+      error: `Network mismatch: expected ${network}, got ${paymentPayload.network}`,
+      errorCode: 'network_mismatch',
+    };
+  }
+
+  const lookup = await referenceRegistry.lookup(
+    paymentPayload.reference,
+    route
+  );
+  if (!lookup.valid) {
+    return lookup;
+  }
+
+  // The reference links back to the exact requirement it was advertised for
+  const config = paymentRequirements[lookup.issued.requirementIndex];
+  if (!config) {
+    return {
+      valid: false,
+      error: `Reference ${paymentPayload.reference} points to unknown requirement ${lookup.issued.requirementIndex}`,
+      errorCode: 'reference_unknown',
+    };
+  }
+
+  return {
+    valid: true,
+    config,
+    paymentRequirement: buildPaymentRequirement(
+      config,
+      network,
+      BigInt(lookup.issued.amount),
+      await resolveDecimals(config, mintInfo),
+      paymentPayload.reference,
+      ttlSeconds
+    ),
+  };
+}
+
+/**
+ * Resolve decimals of a requirement's asset
+ * Native SOL has fixed decimals, SPL tokens use the configured value or a cached mint lookup
+ */
+async function resolveDecimals(
+  config: PaymentRequirementConfig,
+  mintInfo: MintInfoCache | null
+): Promise<number> {
+  if (config.assetType === 'native') {
+    return NATIVE_SOL_DECIMALS;
+  }
+  if (config.decimals !== undefined) {
+    return config.decimals;
+  }
+  if (!mintInfo) {
+    throw new Error(
+      `Decimals must be configured for mint ${config.mint} when no rpcEndpoint is set`
+    );
+  }
+  return mintInfo.getDecimals(config.mint!);
+}
+
+type GaslessRequirementFields = Pick<
+  PaymentRequirement,
+  'feePayer' | 'recentBlockhash' | 'lastValidBlockHeight'
+>;
+
+/**
+ * Build the advertised payment requirement for a configured requirement
+ */
+function buildPaymentRequirement(
+  config: PaymentRequirementConfig,
+  network: string,
+  amountAtomic: bigint,
+  decimals: number,
+  reference: string,
+  expiresIn: number,
+  gasless?: GaslessRequirementFields
+): PaymentRequirement {
+  const assetType = config.assetType ?? 'spl-token';
+  return {
+    network,
+    assetType,
+    mint: assetType === 'native' ? NATIVE_SOL_MINT : config.mint!,
+    amount: formatAtomicAmount(amountAtomic, decimals),
+    amountAtomic: amountAtomic.toString(),
+    decimals,
+    recipient: config.recipient,
+    reference,
+    expires_in: expiresIn,
+    accessPassSeconds: config.accessPass?.durationSeconds,
+    ...gasless,
+  };
+}
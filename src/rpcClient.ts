@@ -1,18 +1,118 @@
 /**
  * Solana RPC client factory
+ * A single endpoint URL creates a plain client. Failover options create a
+ * client spreading calls over several endpoints by priority and weight, with
+ * retries, rate-limit backoff and a circuit breaker per endpoint.
+ *
+ * Usage:
+ * ```ts
+ * const rpc = createSolanaRpcClient('mainnet-beta', {
+ *   endpoints: [
+ *     { url: 'https://primary.example.com', weight: 3 },
+ *     { url: 'https://secondary.example.com', weight: 1 },
+ *     { url: 'https://api.mainnet-beta.solana.com', priority: 1 },
+ *   ],
+ *   sendEndpoints: ['https://staked.example.com'],
+ *   retry: { maxAttempts: 3, methods: { getTransaction: { maxAttempts: 5 } } },
+ * });
+ * ```
  */
 
-import { createSolanaRpc, devnet, mainnet, testnet } from '@solana/kit';
+import {
+  createDefaultRpcTransport,
+  createSolanaRpc,
+  createSolanaRpcFromTransport,
+  devnet,
+  isJsonRpcPayload,
+  isSolanaError,
+  mainnet,
+  testnet,
+  RpcTransport,
+  SOLANA_ERROR__JSON_RPC__INTERNAL_ERROR,
+  SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY,
+  SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+} from '@solana/kit';
+import { CircuitBreaker } from './circuitBreaker';
 
 export type SolanaRpcClient = ReturnType<typeof createSolanaRpc>;
 
+export interface RpcEndpointConfig {
+  /** RPC endpoint URL */
+  url: string;
+  /** Lower priorities are tried first, higher ones only when those fail (default: 0) */
+  priority?: number;
+  /** Share of calls among endpoints of the same priority (default: 1) */
+  weight?: number;
+}
+
+export interface RpcRetryOptions {
+  /** Attempts per call, across endpoints (default: 3) */
+  maxAttempts?: number;
+  /** Backoff before retrying an endpoint in ms, doubled per attempt with full jitter (default: 100) */
+  initialBackoffMs?: number;
+  /** Maximum backoff in ms, also caps waits for Retry-After (default: 2000) */
+  maxBackoffMs?: number;
+}
+
+export interface RpcCircuitBreakerOptions {
+  /** Consecutive failures that open an endpoint's circuit (default: 5) */
+  failureThreshold?: number;
+  /** Interval of getHealth probes of an open endpoint in ms (default: 10000) */
+  healthCheckIntervalMs?: number;
+}
+
+export interface RpcFailoverOptions {
+  /** Endpoints of all calls (and sends, unless sendEndpoints is set) */
+  endpoints: (string | RpcEndpointConfig)[];
+  /** Endpoints of sendTransaction, e.g. a staked connection (default: endpoints) */
+  sendEndpoints?: (string | RpcEndpointConfig)[];
+  /** Retries of failed calls, optionally per RPC method */
+  retry?: RpcRetryOptions & { methods?: Record<string, RpcRetryOptions> };
+  /** Circuit breaker per endpoint, false to disable */
+  circuitBreaker?: RpcCircuitBreakerOptions | false;
+  /** Timeout of a single attempt in ms (default: 15000) */
+  timeoutMs?: number;
+  /** Custom logger function (optional) */
+  logger?: (message: string) => void;
+}
+
+interface PoolEndpoint {
+  url: string;
+  priority: number;
+  weight: number;
+  transport: RpcTransport;
+  breaker: CircuitBreaker | null;
+  rateLimitedUntil: number; // Unix ms
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_BACKOFF_MS = 100;
+const DEFAULT_MAX_BACKOFF_MS = 2000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 10000;
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 15000;
+const HTTP_TOO_MANY_REQUESTS = 429;
+// JSON-RPC errors of an unhealthy node, worth trying another endpoint for
+const UNHEALTHY_RESPONSE_CODES: number[] = [
+  SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY,
+  SOLANA_ERROR__JSON_RPC__INTERNAL_ERROR,
+];
+
 /**
  * Create a Solana RPC client for the specified network
+ * Pass failover options instead of an endpoint URL to use several endpoints
  */
 export function createSolanaRpcClient(
   network: 'devnet' | 'mainnet-beta' | 'testnet',
-  rpcEndpoint: string
+  rpcEndpoint: string | RpcFailoverOptions
 ): SolanaRpcClient {
+  if (typeof rpcEndpoint !== 'string') {
+    if (!['devnet', 'mainnet-beta', 'testnet'].includes(network)) {
+      throw new Error(`Unknown network: ${network}`);
+    }
+    return createSolanaRpcFromTransport(createFailoverTransport(rpcEndpoint));
+  }
+
   const cluster = (() => {
     switch (network) {
       case 'devnet':
@@ -28,3 +128,301 @@ export function createSolanaRpcClient(
 
   return createSolanaRpc(cluster);
 }
+
+/**
+ * URL of the highest priority endpoint (e.g. to derive the WebSocket endpoint)
+ */
+export function getPrimaryRpcEndpoint(
+  rpcEndpoint: string | RpcFailoverOptions
+): string {
+  if (typeof rpcEndpoint === 'string') {
+    return rpcEndpoint;
+  }
+  const [primary] = rpcEndpoint.endpoints.map(toEndpointConfig).sort(
+    (a, b) => (a.priority ?? 0) - (b.priority ?? 0)
+  );
+  if (!primary) {
+    throw new Error('At least one RPC endpoint is required');
+  }
+  return primary.url;
+}
+
+/**
+ * Create an RPC transport failing over between endpoints
+ *
+ * Endpoints are tried by priority, weighted randomly within a priority.
+ * Unreachable endpoints, HTTP errors, timeouts and unhealthy node responses
+ * fail over to the next endpoint immediately; an endpoint tried before in the
+ * same call is retried after a jittered exponential backoff. 429 responses
+ * mark the endpoint as rate limited until its Retry-After. Endpoints whose
+ * circuit is open are skipped (unless all are) until a getHealth probe succeeds.
+ */
+export function createFailoverTransport(options: RpcFailoverOptions): RpcTransport {
+  const logger = options.logger || console.log;
+  const breakerOptions =
+    options.circuitBreaker === false ? null : options.circuitBreaker || {};
+  const createPool = (endpoints: (string | RpcEndpointConfig)[]): PoolEndpoint[] => {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+    return endpoints.map(toEndpointConfig).map((config) => ({
+      url: config.url,
+      priority: config.priority ?? 0,
+      weight: config.weight ?? 1,
+      transport: createDefaultRpcTransport({ url: config.url }),
+      breaker: breakerOptions
+        ? new CircuitBreaker(
+            breakerOptions.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD
+          )
+        : null,
+      rateLimitedUntil: 0,
+    }));
+  };
+  const readPool = createPool(options.endpoints);
+  const sendPool = options.sendEndpoints
+    ? createPool(options.sendEndpoints)
+    : readPool;
+
+  const recordFailure = (endpoint: PoolEndpoint, reason: unknown) => {
+    if (endpoint.breaker?.recordFailure()) {
+      logger(`RPC endpoint ${endpoint.url} circuit opened: ${reason}`);
+      scheduleHealthProbe(endpoint);
+    }
+  };
+  const recordSuccess = (endpoint: PoolEndpoint) => {
+    if (endpoint.breaker?.recordSuccess()) {
+      logger(`RPC endpoint ${endpoint.url} circuit closed`);
+    }
+  };
+  const scheduleHealthProbe = (endpoint: PoolEndpoint) => {
+    setTimeout(async () => {
+      try {
+        const response = await withTimeout(
+          endpoint.transport,
+          { payload: { jsonrpc: '2.0', id: 0, method: 'getHealth', params: [] } },
+          options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS
+        );
+        if ((response as { result?: unknown }).result === 'ok') {
+          recordSuccess(endpoint);
+          return;
+        }
+      } catch {
+        // Still down
+      }
+      if (endpoint.breaker?.isOpen()) {
+        scheduleHealthProbe(endpoint);
+      }
+    }, breakerOptions?.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS).unref();
+  };
+
+  return (async (config: Parameters<RpcTransport>[0]) => {
+    const method = isJsonRpcPayload(config.payload) ? config.payload.method : '';
+    const pool = method === 'sendTransaction' ? sendPool : readPool;
+    const retry = {
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      initialBackoffMs: DEFAULT_INITIAL_BACKOFF_MS,
+      maxBackoffMs: DEFAULT_MAX_BACKOFF_MS,
+      ...withoutUndefined(options.retry || {}),
+      ...withoutUndefined(options.retry?.methods?.[method] || {}),
+    };
+    const order = orderEndpoints(pool);
+    const tried = new Set<PoolEndpoint>();
+
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= retry.maxAttempts;
+      const endpoint = pickEndpoint(order, tried);
+
+      // Failing over is immediate, retrying an endpoint backs off
+      const waitMs = Math.min(
+        Math.max(
+          tried.has(endpoint) ? getBackoffMs(attempt - tried.size, retry) : 0,
+          endpoint.rateLimitedUntil - Date.now()
+        ),
+        retry.maxBackoffMs
+      );
+      if (waitMs > 0) {
+        await sleep(waitMs, config.signal);
+      }
+      tried.add(endpoint);
+
+      try {
+        const response = await withTimeout(
+          endpoint.transport,
+          config,
+          options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS
+        );
+        // Numbers of Solana RPC responses are parsed as bigints
+        const errorCode = (response as { error?: { code?: bigint | number } })
+          .error?.code;
+        if (
+          errorCode !== undefined &&
+          UNHEALTHY_RESPONSE_CODES.includes(Number(errorCode))
+        ) {
+          recordFailure(endpoint, `JSON-RPC error ${errorCode}`);
+          if (!isLastAttempt) {
+            continue;
+          }
+        } else {
+          recordSuccess(endpoint);
+        }
+        return response;
+      } catch (error) {
+        if (config.signal?.aborted || !isRpcUnavailableError(error)) {
+          throw error;
+        }
+        if (
+          isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR) &&
+          error.context.statusCode === HTTP_TOO_MANY_REQUESTS
+        ) {
+          endpoint.rateLimitedUntil =
+            Date.now() +
+            (getRetryAfterMs(error.context.headers) ??
+              getBackoffMs(attempt, retry));
+        } else {
+          recordFailure(endpoint, error);
+        }
+        if (isLastAttempt) {
+          throw error;
+        }
+      }
+    }
+  }) as RpcTransport;
+}
+
+/**
+ * Check if an RPC call failed because the endpoint is unreachable or unhealthy
+ * (network error, HTTP error status, node behind), rather than rejecting the request
+ */
+export function isRpcUnavailableError(error: unknown): boolean {
+  return (
+    isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR) ||
+    isSolanaError(error, SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY) ||
+    isSolanaError(error, SOLANA_ERROR__JSON_RPC__INTERNAL_ERROR) ||
+    (error instanceof TypeError && error.message === 'fetch failed') ||
+    (error instanceof Error &&
+      (error.name === 'AbortError' || error.name === 'TimeoutError'))
+  );
+}
+
+function toEndpointConfig(endpoint: string | RpcEndpointConfig): RpcEndpointConfig {
+  return typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+}
+
+/**
+ * Order endpoints for a call: by priority, weighted random within a priority
+ * Endpoints with an open circuit are left out, unless all circuits are open
+ */
+function orderEndpoints(pool: PoolEndpoint[]): PoolEndpoint[] {
+  const available = pool.filter((endpoint) => !endpoint.breaker?.isOpen());
+  const candidates = available.length > 0 ? available : pool;
+  const ordered: PoolEndpoint[] = [];
+  const priorities = Array.from(
+    new Set(candidates.map((endpoint) => endpoint.priority))
+  ).sort((a, b) => a - b);
+
+  for (const priority of priorities) {
+    const group = candidates.filter((endpoint) => endpoint.priority === priority);
+    while (group.length > 0) {
+      const totalWeight = group.reduce((sum, endpoint) => sum + endpoint.weight, 0);
+      let pick = Math.random() * totalWeight;
+      const index = group.findIndex((endpoint) => (pick -= endpoint.weight) < 0);
+      ordered.push(...group.splice(index === -1 ? group.length - 1 : index, 1));
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Next endpoint of a call: the first untried one that isn't rate limited,
+ * otherwise the one available soonest
+ */
+function pickEndpoint(order: PoolEndpoint[], tried: Set<PoolEndpoint>): PoolEndpoint {
+  const now = Date.now();
+  const untried = order.find(
+    (endpoint) => !tried.has(endpoint) && endpoint.rateLimitedUntil <= now
+  );
+  if (untried) {
+    return untried;
+  }
+  return order.reduce((soonest, endpoint) =>
+    endpoint.rateLimitedUntil < soonest.rateLimitedUntil ? endpoint : soonest
+  );
+}
+
+/**
+ * Full jitter exponential backoff: random delay up to initial * 2^(attempt - 1)
+ */
+function getBackoffMs(
+  attempt: number,
+  retry: Required<RpcRetryOptions>
+): number {
+  const ceiling = Math.min(
+    retry.initialBackoffMs * 2 ** (attempt - 1),
+    retry.maxBackoffMs
+  );
+  return Math.random() * ceiling;
+}
+
+/**
+ * Delay of a Retry-After header (seconds or HTTP date) in ms
+ */
+function getRetryAfterMs(headers: Headers | undefined): number | null {
+  const value = headers?.get('retry-after');
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Call a transport, aborting with a TimeoutError after timeoutMs
+ * (or when the caller's signal aborts)
+ */
+async function withTimeout(
+  transport: RpcTransport,
+  config: Parameters<RpcTransport>[0],
+  timeoutMs: number
+): Promise<unknown> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(config.signal?.reason);
+  config.signal?.addEventListener('abort', abort);
+  const timer = setTimeout(
+    () => controller.abort(new DOMException('RPC request timed out', 'TimeoutError')),
+    timeoutMs
+  );
+  try {
+    return await transport({ payload: config.payload, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    config.signal?.removeEventListener('abort', abort);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
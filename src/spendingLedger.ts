@@ -0,0 +1,104 @@
+/**
+ * Client spending ledger
+ * Records every payment the client signed, used by spending policies to
+ * enforce per-host, rolling-window and total caps.
+ */
+
+import { promises as fs } from 'fs';
+
+/**
+ * Payment signed by the client
+ */
+export interface SpendingEntry {
+  timestamp: number; // Unix ms when the payment was signed
+  url: string; // Requested resource
+  host: string; // Host of the requested resource
+  network: string;
+  mint: string; // Token mint address (NATIVE_SOL_MINT for native SOL)
+  amountAtomic: string; // Amount in atomic units
+  decimals: number;
+  recipient: string;
+  reference: string;
+}
+
+/**
+ * Storage of spending entries
+ */
+export interface SpendingLedger {
+  /** Append an entry */
+  record(entry: SpendingEntry): Promise<void>;
+  /** All recorded entries, oldest first */
+  list(): Promise<SpendingEntry[]>;
+}
+
+/**
+ * In-memory spending ledger (lost on restart)
+ */
+export class MemorySpendingLedger implements SpendingLedger {
+  private entries: SpendingEntry[] = [];
+
+  async record(entry: SpendingEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async list(): Promise<SpendingEntry[]> {
+    return [...this.entries];
+  }
+}
+
+/**
+ * File-backed spending ledger
+ * Appends one JSON entry per line so the history survives restarts
+ */
+export class FileSpendingLedger implements SpendingLedger {
+  private filePath: string;
+  private entries: SpendingEntry[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async record(entry: SpendingEntry): Promise<void> {
+    await this.run(async (entries) => {
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+      entries.push({ ...entry });
+    });
+  }
+
+  async list(): Promise<SpendingEntry[]> {
+    return this.run(async (entries) => [...entries]);
+  }
+
+  /**
+   * Run an operation against the loaded entries
+   * Operations are serialized so appends keep their order
+   */
+  private run<T>(
+    operation: (entries: SpendingEntry[]) => Promise<T>
+  ): Promise<T> {
+    const result = this.queue.then(async () => operation(await this.load()));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<SpendingEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      this.entries = content
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as SpendingEntry);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to load spending ledger ${this.filePath}: ${error}`);
+      }
+      this.entries = [];
+    }
+    return this.entries;
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Client spending policy
+ * Guardrails checked before the client signs a payment, so a misbehaving
+ * server can't drain the wallet.
+ *
+ * Usage:
+ * ```ts
+ * import { SpendingPolicy, FileSpendingLedger, wrapFetchWithPayment } from 'solana-x402-gateway';
+ *
+ * const spendingPolicy = new SpendingPolicy({
+ *   allowedNetworks: ['devnet'],
+ *   allowedMints: [USDC_MINT],
+ *   limits: {
+ *     [USDC_MINT]: { maxPerRequest: '0.10', maxPerHost: '1', maxPerWindow: '5', totalBudget: '50' },
+ *   },
+ *   ledger: new FileSpendingLedger('./spending.jsonl'),
+ * });
+ * const fetchWithPayment = wrapFetchWithPayment(fetch, signer, { ...options, spendingPolicy });
+ * ```
+ */
+
+import { formatAtomicAmount, toAtomicAmount } from './amount';
+import { MintInfoCache } from './mintInfo';
+import { SolanaRpcClient } from './rpcClient';
+import {
+  MemorySpendingLedger,
+  SpendingEntry,
+  SpendingLedger,
+} from './spendingLedger';
+import {
+  NATIVE_SOL_DECIMALS,
+  NATIVE_SOL_MINT,
+  PaymentRequirement,
+} from './types';
+
+/**
+ * Limits of a single mint, in token units (e.g. "0.05")
+ */
+export interface SpendingLimits {
+  /** Max amount of a single payment */
+  maxPerRequest?: string | number;
+  /** Max amount paid to a single host within the window */
+  maxPerHost?: string | number;
+  /** Max amount paid to all hosts within the window */
+  maxPerWindow?: string | number;
+  /** Max amount ever paid (across restarts with a persistent ledger) */
+  totalBudget?: string | number;
+  /** Payments above this amount need onApprovalRequired to return true */
+  approvalThreshold?: string | number;
+}
+
+/**
+ * Payment about to be signed
+ */
+export interface SpendingRequest {
+  requirement: PaymentRequirement;
+  url: string;
+  host: string;
+}
+
+export interface SpendingPolicyOptions {
+  /** Networks the client may pay on (default: any) */
+  allowedNetworks?: string[];
+  /** Mints the client may pay with, NATIVE_SOL_MINT for SOL (default: any mint with limits, or any if no limits are set) */
+  allowedMints?: string[];
+  /** Limits per mint address */
+  limits?: Record<string, SpendingLimits>;
+  /** Rolling window of maxPerHost and maxPerWindow in seconds (default: 86400) */
+  windowSeconds?: number;
+  /** Approve payments above approvalThreshold (default: reject them) */
+  onApprovalRequired?: (request: SpendingRequest) => boolean | Promise<boolean>;
+  /** Ledger of signed payments (default: in-memory) */
+  ledger?: SpendingLedger;
+}
+
+const DEFAULT_WINDOW_SECONDS = 86400;
+
+export class SpendingPolicy {
+  private options: SpendingPolicyOptions;
+  private ledger: SpendingLedger;
+  private windowMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
+  // Mint decimals per RPC client, so caps don't trust the advertised decimals
+  private mintInfo = new WeakMap<SolanaRpcClient, MintInfoCache>();
+
+  constructor(options: SpendingPolicyOptions = {}) {
+    this.options = options;
+    this.ledger = options.ledger || new MemorySpendingLedger();
+    this.windowMs = (options.windowSeconds ?? DEFAULT_WINDOW_SECONDS) * 1000;
+  }
+
+  /**
+   * Check the static rules (network, mint, max per request) of a requirement
+   * Caps are converted with the mint decimals read through rpc, not the advertised ones
+   * Returns the reason it is rejected, or null if it may be paid
+   */
+  async checkRequirement(
+    requirement: PaymentRequirement,
+    rpc: SolanaRpcClient
+  ): Promise<string | null> {
+    const { allowedNetworks, allowedMints, limits } = this.options;
+    if (allowedNetworks && !allowedNetworks.includes(requirement.network)) {
+      return `Network ${requirement.network} is not allowed`;
+    }
+
+    const mintAllowed = allowedMints
+      ? allowedMints.includes(requirement.mint)
+      : !limits || requirement.mint in limits;
+    if (!mintAllowed) {
+      return `Mint ${requirement.mint} is not allowed`;
+    }
+    if ((requirement.assetType === 'native') !== (requirement.mint === NATIVE_SOL_MINT)) {
+      return `Asset type ${requirement.assetType} doesn't match mint ${requirement.mint}`;
+    }
+
+    const decimals = await this.getDecimals(requirement, rpc);
+    const maxPerRequest = this.getLimit(requirement, 'maxPerRequest', decimals);
+    if (
+      maxPerRequest !== undefined &&
+      BigInt(requirement.amountAtomic) > maxPerRequest
+    ) {
+      return `Payment of ${formatAmount(requirement, decimals)} exceeds the max per request of ${formatAtomicAmount(
+        maxPerRequest,
+        decimals
+      )}`;
+    }
+    return null;
+  }
+
+  /**
+   * Authorize a payment and sign it
+   * Checks all rules against the ledger, runs sign() and records the payment.
+   * Payments are serialized so concurrent requests can't exceed the caps together.
+   * Throws if the payment is rejected.
+   */
+  authorize<T>(
+    requirement: PaymentRequirement,
+    url: string,
+    rpc: SolanaRpcClient,
+    sign: () => Promise<T>
+  ): Promise<T> {
+    const result = this.queue.then(async () => {
+      const host = getHost(url);
+      const decimals = await this.getDecimals(requirement, rpc);
+      const rejection =
+        (await this.checkRequirement(requirement, rpc)) ||
+        (await this.checkLedger(requirement, host, decimals)) ||
+        (await this.checkApproval({ requirement, url, host }, decimals));
+      if (rejection) {
+        throw new Error(`Spending policy rejected payment to ${host}: ${rejection}`);
+      }
+
+      const signed = await sign();
+      await this.ledger.record({
+        timestamp: Date.now(),
+        url,
+        host,
+        network: requirement.network,
+        mint: requirement.mint,
+        amountAtomic: requirement.amountAtomic,
+        decimals,
+        recipient: requirement.recipient,
+        reference: requirement.reference,
+      });
+      return signed;
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Ledger of signed payments
+   */
+  getLedger(): SpendingLedger {
+    return this.ledger;
+  }
+
+  /**
+   * Check the per-host, rolling-window and total caps against the ledger
+   */
+  private async checkLedger(
+    requirement: PaymentRequirement,
+    host: string,
+    decimals: number
+  ): Promise<string | null> {
+    const amount = BigInt(requirement.amountAtomic);
+    const windowStart = Date.now() - this.windowMs;
+    const entries = (await this.ledger.list()).filter(
+      (entry) => entry.mint === requirement.mint
+    );
+    const sum = (selected: SpendingEntry[]) =>
+      selected.reduce((total, entry) => total + BigInt(entry.amountAtomic), 0n);
+    const inWindow = entries.filter((entry) => entry.timestamp > windowStart);
+
+    const caps: Array<[keyof SpendingLimits, bigint, string]> = [
+      ['totalBudget', sum(entries), 'total budget'],
+      ['maxPerWindow', sum(inWindow), 'window cap'],
+      [
+        'maxPerHost',
+        sum(inWindow.filter((entry) => entry.host === host)),
+        `cap for ${host}`,
+      ],
+    ];
+    for (const [name, spent, label] of caps) {
+      const limit = this.getLimit(requirement, name, decimals);
+      if (limit !== undefined && spent + amount > limit) {
+        return `Payment of ${formatAmount(requirement, decimals)} exceeds the ${label} (${formatAtomicAmount(
+          spent,
+          decimals
+        )} of ${formatAtomicAmount(limit, decimals)} spent)`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Ask for approval of payments above the approval threshold
+   */
+  private async checkApproval(
+    request: SpendingRequest,
+    decimals: number
+  ): Promise<string | null> {
+    const threshold = this.getLimit(
+      request.requirement,
+      'approvalThreshold',
+      decimals
+    );
+    if (
+      threshold === undefined ||
+      BigInt(request.requirement.amountAtomic) <= threshold
+    ) {
+      return null;
+    }
+    const approved = this.options.onApprovalRequired
+      ? await this.options.onApprovalRequired(request)
+      : false;
+    return approved
+      ? null
+      : `Payment of ${formatAmount(request.requirement, decimals)} was not approved`;
+  }
+
+  /**
+   * Limit of the requirement's mint in atomic units
+   */
+  private getLimit(
+    requirement: PaymentRequirement,
+    name: keyof SpendingLimits,
+    decimals: number
+  ): bigint | undefined {
+    const value = this.options.limits?.[requirement.mint]?.[name];
+    return value === undefined ? undefined : toAtomicAmount(value, decimals);
+  }
+
+  /**
+   * Decimals of the requirement's asset
+   * Native SOL has fixed decimals, SPL tokens use a cached mint lookup
+   */
+  private getDecimals(
+    requirement: PaymentRequirement,
+    rpc: SolanaRpcClient
+  ): Promise<number> {
+    if (requirement.assetType === 'native') {
+      return Promise.resolve(NATIVE_SOL_DECIMALS);
+    }
+    let mintInfo = this.mintInfo.get(rpc);
+    if (!mintInfo) {
+      mintInfo = new MintInfoCache(rpc);
+      this.mintInfo.set(rpc, mintInfo);
+    }
+    return mintInfo.getDecimals(requirement.mint);
+  }
+}
+
+/**
+ * Amount of a requirement in token units, from its atomic amount
+ */
+function formatAmount(requirement: PaymentRequirement, decimals: number): string {
+  return formatAtomicAmount(BigInt(requirement.amountAtomic), decimals);
+}
+
+/**
+ * Host of a URL (empty string if it can't be parsed)
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
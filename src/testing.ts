@@ -0,0 +1,81 @@
+/**
+ * Testing utilities - `solana-x402-gateway/testing` entry point
+ *
+ * Fake RPC client backed by an in-memory ledger with fault injection, and
+ * helpers to fund test payers, for offline tests of paywalled routes.
+ *
+ * Usage:
+ * ```ts
+ * import { createFakeRpc, createTestPayer } from 'solana-x402-gateway/testing';
+ * import { wrapFetchWithPayment } from 'solana-x402-gateway';
+ *
+ * const fakeRpc = createFakeRpc();
+ * const usdc = await fakeRpc.createMint({ decimals: 6 });
+ * const payer = await createTestPayer(fakeRpc, { tokens: [{ mint: usdc, amount: '10' }] });
+ *
+ * app.use('/api', x402ResourceServer({
+ *   network: 'devnet',
+ *   rpc: fakeRpc.rpc,
+ *   confirmation: { subscriptionsEndpoint: false },
+ *   paymentRequirements: [{ mint: usdc, amount: '0.05', recipient }],
+ * }));
+ *
+ * const fetchWithPayment = wrapFetchWithPayment(fetch, payer, {
+ *   network: 'devnet',
+ *   rpc: fakeRpc.rpc,
+ * });
+ * ```
+ */
+
+import { KeyPairSigner, generateKeyPairSigner } from '@solana/kit';
+import { toAtomicAmount } from './amount';
+import { FakeRpcOptions, FakeSolanaRpc } from './fakeRpc';
+
+export {
+  FakeSolanaRpc,
+  type FakeMint,
+  type FakeRpcFault,
+  type FakeRpcMethod,
+  type FakeRpcOptions,
+  type FakeTokenAccount,
+  type FakeTransactionRecord,
+} from './fakeRpc';
+
+export interface TestPayerOptions {
+  /** SOL airdropped to the payer for fees and rent (default: 1) */
+  sol?: string | number;
+  /** Token balances minted to the payer's associated token accounts, in token units */
+  tokens?: { mint: string; amount: string | number }[];
+}
+
+const LAMPORTS_DECIMALS = 9;
+const DEFAULT_TEST_PAYER_SOL = '1';
+
+/**
+ * Create a fake RPC client backed by an empty in-memory ledger
+ */
+export function createFakeRpc(options: FakeRpcOptions = {}): FakeSolanaRpc {
+  return new FakeSolanaRpc(options);
+}
+
+/**
+ * Generate a payer funded with SOL and tokens on the fake ledger
+ */
+export async function createTestPayer(
+  fakeRpc: FakeSolanaRpc,
+  options: TestPayerOptions = {}
+): Promise<KeyPairSigner> {
+  const payer = await generateKeyPairSigner();
+  fakeRpc.airdrop(
+    payer.address,
+    toAtomicAmount(options.sol ?? DEFAULT_TEST_PAYER_SOL, LAMPORTS_DECIMALS)
+  );
+  for (const { mint, amount } of options.tokens || []) {
+    await fakeRpc.mintTo(
+      payer.address,
+      mint,
+      toAtomicAmount(amount, fakeRpc.getMint(mint).decimals)
+    );
+  }
+  return payer;
+}
@@ -0,0 +1,412 @@
+/**
+ * Transaction confirmation
+ * Waits for a submitted transaction with signatureSubscribe over the RPC
+ * WebSocket, falling back to getSignatureStatuses polling, and fails fast
+ * once the transaction's blockhash has expired.
+ */
+
+import {
+  address,
+  createSolanaRpcSubscriptions,
+  type Blockhash,
+  type Signature,
+} from '@solana/kit';
+import { SolanaRpcClient, isRpcUnavailableError } from './rpcClient';
+import { toAtomicAmount } from './amount';
+import { PaymentErrorCode, PaymentRequirement } from './types';
+
+export type SolanaRpcSubscriptionsClient = ReturnType<
+  typeof createSolanaRpcSubscriptions
+>;
+
+export type ConfirmationCommitment = 'processed' | 'confirmed' | 'finalized';
+
+/**
+ * Confirmation settings for payments of at least minAmount
+ */
+export interface ConfirmationTier {
+  /** Minimum payment amount in token units (e.g. "100") */
+  minAmount: string | number;
+  /** Mint the tier applies to, NATIVE_SOL_MINT for SOL (default: any mint) */
+  mint?: string;
+  /** Commitment to wait for (default: the base commitment) */
+  commitment?: ConfirmationCommitment;
+  /** Confirmation timeout in seconds (default: the base timeout) */
+  timeoutSeconds?: number;
+}
+
+export interface ConfirmationOptions {
+  /** Commitment a payment must reach before the request is fulfilled (default: 'confirmed') */
+  commitment?: ConfirmationCommitment;
+  /** Max seconds to wait for confirmation (default: 30) */
+  timeoutSeconds?: number;
+  /** Stricter settings for larger payments, e.g. 'finalized' above 100 USDC */
+  tiers?: ConfirmationTier[];
+  /** RPC WebSocket URL (default: derived from rpcEndpoint), false to only poll */
+  subscriptionsEndpoint?: string | false;
+  /** Interval of status polling and blockhash expiry checks in ms (default: 2000) */
+  pollIntervalMs?: number;
+}
+
+export interface ConfirmationSettings {
+  commitment: ConfirmationCommitment;
+  timeoutMs: number;
+}
+
+export interface WaitForConfirmationOptions extends ConfirmationSettings {
+  /** RPC subscriptions client (null to only poll) */
+  rpcSubscriptions?: SolanaRpcSubscriptionsClient | null;
+  /** Blockhash of the transaction, checked with isBlockhashValid */
+  recentBlockhash?: string;
+  /** Last block height the transaction can land in (preferred over recentBlockhash) */
+  lastValidBlockHeight?: bigint;
+  /** Interval of status polling and expiry checks in ms (default: 2000) */
+  pollIntervalMs?: number;
+}
+
+export interface ConfirmationResult {
+  success: boolean;
+  error?: string;
+  errorCode?: PaymentErrorCode;
+}
+
+const DEFAULT_COMMITMENT: ConfirmationCommitment = 'confirmed';
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const COMMITMENT_RANK: Record<ConfirmationCommitment, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+/**
+ * Resolve commitment and timeout for a payment requirement
+ * The tier with the highest matching minAmount wins
+ */
+export function resolveConfirmationSettings(
+  options: ConfirmationOptions = {},
+  paymentRequirement?: PaymentRequirement
+): ConfirmationSettings {
+  let commitment = options.commitment || DEFAULT_COMMITMENT;
+  let timeoutSeconds = options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+
+  if (paymentRequirement && options.tiers) {
+    const amount = BigInt(paymentRequirement.amountAtomic);
+    let matched: { tier: ConfirmationTier; minAmount: bigint } | null = null;
+    for (const tier of options.tiers) {
+      if (tier.mint && tier.mint !== paymentRequirement.mint) {
+        continue;
+      }
+      const minAmount = toAtomicAmount(
+        tier.minAmount,
+        paymentRequirement.decimals
+      );
+      if (amount >= minAmount && (!matched || minAmount >= matched.minAmount)) {
+        matched = { tier, minAmount };
+      }
+    }
+    if (matched) {
+      commitment = matched.tier.commitment || commitment;
+      timeoutSeconds = matched.tier.timeoutSeconds ?? timeoutSeconds;
+    }
+  }
+
+  return { commitment, timeoutMs: timeoutSeconds * 1000 };
+}
+
+/**
+ * Derive the RPC WebSocket URL from an HTTP RPC endpoint
+ * e.g. https://api.devnet.solana.com -> wss://api.devnet.solana.com,
+ * http://127.0.0.1:8899 -> ws://127.0.0.1:8900 (solana-test-validator)
+ */
+export function getSubscriptionsEndpoint(rpcEndpoint: string): string {
+  const url = new URL(rpcEndpoint);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (url.port === '8899') {
+    url.port = '8900';
+  }
+  return url.toString();
+}
+
+/**
+ * Create the RPC subscriptions client for confirmation options
+ * Returns null if subscriptions are disabled, or no endpoint is known
+ */
+export function createConfirmationSubscriptions(
+  rpcEndpoint: string | undefined,
+  options: ConfirmationOptions = {}
+): SolanaRpcSubscriptionsClient | null {
+  if (options.subscriptionsEndpoint === false) {
+    return null;
+  }
+  const endpoint =
+    options.subscriptionsEndpoint ||
+    (rpcEndpoint ? getSubscriptionsEndpoint(rpcEndpoint) : null);
+  return endpoint ? createSolanaRpcSubscriptions(endpoint) : null;
+}
+
+/**
+ * Wait until a transaction reaches the commitment, fails, expires or times out
+ */
+export async function waitForConfirmation(
+  signature: string,
+  rpc: SolanaRpcClient,
+  options: WaitForConfirmationOptions
+): Promise<ConfirmationResult> {
+  const abortController = new AbortController();
+  const state = { subscribed: false };
+
+  const outcomes = [
+    pollForConfirmation(signature, rpc, options, state, abortController.signal),
+  ];
+  if (options.rpcSubscriptions) {
+    outcomes.push(
+      subscribeForConfirmation(
+        signature,
+        rpc,
+        options.rpcSubscriptions,
+        options.commitment,
+        state,
+        abortController.signal
+      )
+    );
+  }
+
+  try {
+    return await Promise.race(outcomes);
+  } finally {
+    abortController.abort();
+  }
+}
+
+/**
+ * Wait for the signature notification
+ * Never settles if the subscription fails, polling takes over in that case
+ */
+async function subscribeForConfirmation(
+  signature: string,
+  rpc: SolanaRpcClient,
+  rpcSubscriptions: SolanaRpcSubscriptionsClient,
+  commitment: ConfirmationCommitment,
+  state: { subscribed: boolean },
+  signal: AbortSignal
+): Promise<ConfirmationResult> {
+  try {
+    const notifications = await rpcSubscriptions
+      .signatureNotifications(signature as Signature, { commitment })
+      .subscribe({ abortSignal: signal });
+    state.subscribed = true;
+
+    // Notifications are only sent for later changes, check the current status once
+    const current = await getConfirmationStatus(signature, rpc, commitment);
+    if (current) {
+      return current;
+    }
+
+    for await (const notification of notifications) {
+      return notification.value.err
+        ? {
+            success: false,
+            error: `Transaction failed: ${stringifyError(notification.value.err)}`,
+            errorCode: 'transaction_failed',
+          }
+        : { success: true };
+    }
+  } catch {
+    // Fall back to polling
+  }
+  state.subscribed = false;
+  return new Promise<ConfirmationResult>(() => undefined);
+}
+
+/**
+ * Wait for a transaction including a reference account to be confirmed
+ * Finds payments the wallet submitted itself with getSignaturesForAddress;
+ * the oldest successful transaction is the payment
+ */
+export async function waitForReferenceSignature(
+  reference: string,
+  rpc: SolanaRpcClient,
+  options: { timeoutMs: number; pollIntervalMs?: number }
+): Promise<ConfirmationResult & { signature?: string }> {
+  const deadline = Date.now() + options.timeoutMs;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let rpcError: unknown = null;
+
+  while (Date.now() < deadline) {
+    try {
+      const signatures: any[] = await (
+        rpc.getSignaturesForAddress(address(reference), {
+          commitment: 'confirmed',
+        }) as any
+      ).send();
+      const landed = signatures.filter((info) => !info.err).pop();
+      if (landed) {
+        return { success: true, signature: String(landed.signature) };
+      }
+      rpcError = null;
+    } catch (error) {
+      // Transient RPC error, try again on the next interval
+      rpcError = error;
+    }
+
+    await sleep(Math.min(pollIntervalMs, deadline - Date.now()));
+  }
+
+  return rpcError && isRpcUnavailableError(rpcError)
+    ? {
+        success: false,
+        error: `No transaction found for reference ${reference}, RPC unavailable: ${rpcError}`,
+        errorCode: 'rpc_unavailable',
+      }
+    : {
+        success: false,
+        error: `No confirmed transaction found for reference ${reference}`,
+        errorCode: 'confirmation_timeout',
+      };
+}
+
+/**
+ * Poll the signature status (unless subscribed) and the blockhash expiry
+ */
+async function pollForConfirmation(
+  signature: string,
+  rpc: SolanaRpcClient,
+  options: WaitForConfirmationOptions,
+  state: { subscribed: boolean },
+  signal: AbortSignal
+): Promise<ConfirmationResult> {
+  const deadline = Date.now() + options.timeoutMs;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let rpcError: unknown = null;
+  // Set once the transaction is confirmed, it can't expire after landing
+  let landed = false;
+
+  while (!signal.aborted && Date.now() < deadline) {
+    try {
+      if (!state.subscribed) {
+        const status = await getConfirmationStatus(
+          signature,
+          rpc,
+          options.commitment
+        );
+        if (status) {
+          return status;
+        }
+      }
+
+      if (!landed && (await isBlockhashExpired(rpc, options))) {
+        // The transaction may still have landed right before expiry,
+        // a 'finalized' one keeps waiting once it is confirmed
+        const status = await getConfirmationStatus(signature, rpc, 'confirmed');
+        if (!status || !status.success || options.commitment !== 'finalized') {
+          return (
+            status || {
+              success: false,
+              error: 'Transaction expired: blockhash is no longer valid',
+              errorCode: 'blockhash_expired',
+            }
+          );
+        }
+        landed = true;
+      }
+      rpcError = null;
+    } catch (error) {
+      // Transient RPC error, try again on the next interval
+      rpcError = error;
+    }
+
+    await sleep(Math.min(pollIntervalMs, deadline - Date.now()), signal);
+  }
+
+  // Report an RPC outage if the last status check failed
+  return rpcError && isRpcUnavailableError(rpcError)
+    ? {
+        success: false,
+        error: `Transaction confirmation timeout, RPC unavailable: ${rpcError}`,
+        errorCode: 'rpc_unavailable',
+      }
+    : {
+        success: false,
+        error: 'Transaction confirmation timeout',
+        errorCode: 'confirmation_timeout',
+      };
+}
+
+/**
+ * Current status of a signature, or null if it hasn't reached the commitment yet
+ */
+async function getConfirmationStatus(
+  signature: string,
+  rpc: SolanaRpcClient,
+  commitment: ConfirmationCommitment
+): Promise<ConfirmationResult | null> {
+  const statuses = await (
+    rpc.getSignatureStatuses([signature as Signature]) as any
+  ).send();
+  const status = statuses.value?.[0];
+  if (!status) {
+    return null;
+  }
+  if (status.err) {
+    return {
+      success: false,
+      error: `Transaction failed: ${stringifyError(status.err)}`,
+      errorCode: 'transaction_failed',
+    };
+  }
+  const reached = status.confirmationStatus as ConfirmationCommitment | null;
+  return reached && COMMITMENT_RANK[reached] >= COMMITMENT_RANK[commitment]
+    ? { success: true }
+    : null;
+}
+
+/**
+ * Check if the transaction can no longer land
+ * Checked at 'confirmed' whatever the awaited commitment: a 'finalized' view
+ * doesn't know recent blockhashes yet and would report them expired
+ */
+async function isBlockhashExpired(
+  rpc: SolanaRpcClient,
+  options: WaitForConfirmationOptions
+): Promise<boolean> {
+  if (options.lastValidBlockHeight !== undefined) {
+    const blockHeight = await (
+      rpc.getBlockHeight({ commitment: 'confirmed' }) as any
+    ).send();
+    return BigInt(blockHeight) > options.lastValidBlockHeight;
+  }
+  if (options.recentBlockhash) {
+    const { value } = await (
+      rpc.isBlockhashValid(options.recentBlockhash as Blockhash, {
+        commitment: 'confirmed',
+      }) as any
+    ).send();
+    return value === false;
+  }
+  return false;
+}
+
+/**
+ * Serialize a transaction error, which may contain BigInt values
+ */
+function stringifyError(error: unknown): string {
+  return JSON.stringify(error, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+/**
+ * Sleep until the timeout or the abort signal, whichever comes first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, Math.max(ms, 0));
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -5,10 +5,36 @@
 import {
   type Base64EncodedWireTransaction,
   type Signature,
-  address,
+  type TransactionPartialSigner,
+  getBase64EncodedWireTransaction,
+  getTransactionDecoder,
+  isSolanaError,
+  SOLANA_ERROR__TRANSACTION_ERROR__ALREADY_PROCESSED,
+  SOLANA_ERROR__TRANSACTION_ERROR__BLOCKHASH_NOT_FOUND,
 } from '@solana/kit';
-import { PaymentRequirement, VerificationResponse } from './types';
-import { SolanaRpcClient } from './rpcClient';
+import {
+  NATIVE_SOL_DECIMALS,
+  PaymentErrorCode,
+  PaymentRequirement,
+  VerificationResponse,
+} from './types';
+import { SolanaRpcClient, isRpcUnavailableError } from './rpcClient';
+import { formatAtomicAmount } from './amount';
+import {
+  InspectionOptions,
+  SYSTEM_PROGRAM_ADDRESS,
+  decodeWireTransaction,
+  inspectPaymentTransaction,
+} from './transactionInspector';
+import {
+  ConfirmationCommitment,
+  SolanaRpcSubscriptionsClient,
+  waitForConfirmation,
+  waitForReferenceSignature,
+} from './transactionConfirmation';
+
+const DEFAULT_CONFIRMATION_TIMEOUT_MS = 30000;
+const SYSTEM_ADVANCE_NONCE_ACCOUNT = 4;
 
 /**
  * Safely serialize error to string, handling BigInt and circular references
@@ -36,32 +62,6 @@ function extractSignature(response: any): string | null {
   return null;
 }
 
-/**
- * Get token decimals from balance or RPC
- */
-async function getTokenDecimals(
-  mint: string,
-  tokenBalances: any[],
-  rpc: SolanaRpcClient
-): Promise<number> {
-  // Try to get from token balance first
-  const tokenBalance = tokenBalances.find((bal: any) => bal.mint === mint);
-  if (tokenBalance?.uiTokenAmount?.decimals !== undefined) {
-    const dec = tokenBalance.uiTokenAmount.decimals;
-    return typeof dec === 'bigint' ? Number(dec) : dec;
-  }
-
-  // Fallback to RPC call
-  try {
-    const mintInfoResponse = rpc.getTokenSupply(address(mint));
-    const mintInfo = await (mintInfoResponse as any).send();
-    const dec = mintInfo.value?.decimals;
-    return typeof dec === 'bigint' ? Number(dec) : dec || 6;
-  } catch {
-    return 6; // Default fallback
-  }
-}
-
 /**
  * Build balance changes map from pre/post token balances
  */
@@ -95,22 +95,160 @@ function buildBalanceChanges(
 }
 
 /**
- * Calculate required amount in raw token units (BigInt)
+ * List token accounts that received tokens, keyed by owner and mint
+ * Used to explain why a transaction doesn't match a payment requirement
+ */
+function describeReceivedTransfers(
+  preBalances: any[],
+  postBalances: any[]
+): string[] {
+  const mints = new Set<string>(
+    [...preBalances, ...postBalances].map((bal: any) => bal.mint)
+  );
+  const received: string[] = [];
+  for (const mint of mints) {
+    const changes = buildBalanceChanges(preBalances, postBalances, mint);
+    for (const [key, change] of changes.entries()) {
+      if (change > 0n) {
+        const owner = key.slice(0, key.length - mint.length - 1);
+        received.push(`${change} raw units of ${mint} to ${owner}`);
+      }
+    }
+  }
+  return received;
+}
+
+/**
+ * Balances of a simulated or confirmed transaction
+ * Lamport balances are indexed like accountKeys
+ */
+interface TransactionBalances {
+  accountKeys: string[];
+  preBalances: any[];
+  postBalances: any[];
+  preTokenBalances: any[];
+  postTokenBalances: any[];
+  getFee: () => Promise<bigint>; // Fee paid by accountKeys[0]
+}
+
+/**
+ * Verify the recipient received the required amount of the requirement's asset
+ * SPL tokens are checked from token balances, native SOL from lamport balances
+ */
+async function verifyRecipientReceived(
+  balances: TransactionBalances,
+  paymentRequirement: PaymentRequirement
+): Promise<VerificationResponse> {
+  if (paymentRequirement.assetType === 'native') {
+    return verifyRecipientReceivedLamports(balances, paymentRequirement);
+  }
+
+  const { preTokenBalances, postTokenBalances } = balances;
+  const balanceChanges = buildBalanceChanges(
+    preTokenBalances,
+    postTokenBalances,
+    paymentRequirement.mint
+  );
+
+  // Verify recipient received the required amount
+  const recipientKey = `${paymentRequirement.recipient}-${paymentRequirement.mint}`;
+  const recipientReceivedRaw = balanceChanges.get(recipientKey) || 0n;
+  const requiredAmountRaw = BigInt(paymentRequirement.amountAtomic);
+
+  if (recipientReceivedRaw === 0n) {
+    const received = describeReceivedTransfers(
+      preTokenBalances,
+      postTokenBalances
+    );
+    return {
+      valid: false,
+      error: `Transaction does not transfer ${
+        paymentRequirement.mint
+      } to ${paymentRequirement.recipient}${
+        received.length > 0 ? ` (transfers ${received.join(', ')})` : ''
+      }`,
+      errorCode: 'recipient_mismatch',
+    };
+  }
+
+  if (recipientReceivedRaw < requiredAmountRaw) {
+    return {
+      valid: false,
+      error: `Insufficient payment: required ${formatAtomicAmount(
+        requiredAmountRaw,
+        paymentRequirement.decimals
+      )} tokens, but recipient would receive ${formatAtomicAmount(
+        recipientReceivedRaw,
+        paymentRequirement.decimals
+      )} tokens`,
+      errorCode: 'insufficient_amount',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Verify the recipient's lamport balance grew by the required amount
+ * When the recipient is also the fee payer, the fee is added back to its delta
  */
-function calculateRequiredAmountRaw(amount: string, decimals: number): bigint {
-  const decimalsMultiplier = BigInt(10) ** BigInt(decimals);
-  const amountFloat = parseFloat(amount);
-  return BigInt(Math.floor(amountFloat * Number(decimalsMultiplier)));
+async function verifyRecipientReceivedLamports(
+  balances: TransactionBalances,
+  paymentRequirement: PaymentRequirement
+): Promise<VerificationResponse> {
+  const index = balances.accountKeys.indexOf(paymentRequirement.recipient);
+  if (index === -1) {
+    return {
+      valid: false,
+      error: `Recipient ${paymentRequirement.recipient} is not an account of the transaction`,
+      errorCode: 'recipient_mismatch',
+    };
+  }
+
+  const pre = balances.preBalances[index];
+  const post = balances.postBalances[index];
+  if (pre === undefined || post === undefined) {
+    return {
+      valid: false,
+      error: 'Lamport balances are not available for the transaction',
+      errorCode: 'simulation_failed',
+    };
+  }
+
+  let recipientReceivedLamports = BigInt(post) - BigInt(pre);
+  if (index === 0) {
+    recipientReceivedLamports += await balances.getFee();
+  }
+
+  const requiredLamports = BigInt(paymentRequirement.amountAtomic);
+  if (recipientReceivedLamports < requiredLamports) {
+    return {
+      valid: false,
+      error: `Insufficient payment: required ${formatAtomicAmount(
+        requiredLamports,
+        NATIVE_SOL_DECIMALS
+      )} SOL, but recipient would receive ${formatAtomicAmount(
+        recipientReceivedLamports,
+        NATIVE_SOL_DECIMALS
+      )} SOL`,
+      errorCode: 'insufficient_amount',
+    };
+  }
+
+  return { valid: true };
 }
 
 /**
  * Verify signed transaction before sending
- * Validates: format, signatures, recipient, amount, reference, and mint
+ * Validates: format, signatures, instructions, recipient, amount, reference, and mint
+ * Mint and recipient are taken from the requirement the reference was issued for
+ * Instruction-level checks run offline, balance changes are checked by simulation
  */
 export async function verifySignedTransaction(
   signedTransactionBase64: string,
   paymentRequirement: PaymentRequirement,
-  rpc: SolanaRpcClient
+  rpc: SolanaRpcClient,
+  inspectionOptions: InspectionOptions = {}
 ): Promise<VerificationResponse> {
   try {
     // Basic validation: transaction should be valid base64
@@ -119,35 +257,36 @@ export async function verifySignedTransaction(
       return {
         valid: false,
         error: 'Transaction is empty',
+        errorCode: 'invalid_payload',
       };
     }
 
-    // Minimum size check
-    if (transactionBuffer.length < 64) {
-      return {
-        valid: false,
-        error: 'Transaction too short to be valid',
-      };
-    }
-
-    // Check transaction has at least one signature
-    // Solana transaction format: [signatures_count, signatures..., transaction_message]
-    const signatureCount = transactionBuffer[0];
-    if (!signatureCount || signatureCount === 0) {
+    // Decode and check instructions locally before any simulation
+    const inspection = await inspectPaymentTransaction(
+      signedTransactionBase64,
+      paymentRequirement,
+      rpc,
+      inspectionOptions
+    );
+    if (!inspection.valid || !inspection.transaction) {
       return {
         valid: false,
-        error: 'Transaction has no signatures',
+        error: inspection.error,
+        errorCode: inspection.errorCode,
       };
     }
+    const decoded = inspection.transaction;
 
     // Verify signatures using simulateTransaction with sigVerify
+    // Signatures still missing (gateway fee payer) were allowed by the inspection,
+    // present ones were already verified locally
     const base64Transaction =
       signedTransactionBase64 as Base64EncodedWireTransaction;
     try {
       const simulateResponse = await (
         rpc.simulateTransaction(base64Transaction, {
           encoding: 'base64',
-          sigVerify: true,
+          sigVerify: decoded.missingSignatures.length === 0,
         }) as any
       ).send();
 
@@ -165,6 +304,7 @@ export async function verifySignedTransaction(
           return {
             valid: false,
             error: `Transaction verification failed: ${errStr}`,
+            errorCode: 'simulation_failed',
           };
         }
       }
@@ -178,53 +318,42 @@ export async function verifySignedTransaction(
         return {
           valid: false,
           error: 'Transaction signature verification failed',
+          errorCode: 'invalid_signature',
         };
       }
 
       // Verify transaction matches payment requirement using simulation result
-      const postBalances = simulation.postTokenBalances || [];
-      const preBalances = simulation.preTokenBalances || [];
-
-      // Get decimals and build balance changes
-      const decimals = await getTokenDecimals(
-        paymentRequirement.mint,
-        [...postBalances, ...preBalances],
-        rpc
-      );
-      const balanceChanges = buildBalanceChanges(
-        preBalances,
-        postBalances,
-        paymentRequirement.mint
+      const messageBase64 = Buffer.from(decoded.messageBytes).toString(
+        'base64'
       );
-
-      // Verify recipient received the required amount
-      const recipientKey = `${paymentRequirement.recipient}-${paymentRequirement.mint}`;
-      const recipientReceivedRaw = balanceChanges.get(recipientKey) || 0n;
-      const requiredAmountRaw = calculateRequiredAmountRaw(
-        paymentRequirement.amount,
-        decimals
+      const paymentCheck = await verifyRecipientReceived(
+        {
+          accountKeys: decoded.accounts.map((account) => account.address),
+          preBalances: simulation.preBalances || [],
+          postBalances: simulation.postBalances || [],
+          preTokenBalances: simulation.preTokenBalances || [],
+          postTokenBalances: simulation.postTokenBalances || [],
+          getFee: async () => {
+            if (simulation.fee !== undefined && simulation.fee !== null) {
+              return BigInt(simulation.fee);
+            }
+            const feeResponse = await (
+              rpc.getFeeForMessage(messageBase64 as any) as any
+            ).send();
+            return BigInt(feeResponse.value ?? 0);
+          },
+        },
+        paymentRequirement
       );
-
-      if (recipientReceivedRaw < requiredAmountRaw) {
-        const decimalsMultiplier = BigInt(10) ** BigInt(decimals);
-        const recipientReceivedUI =
-          Number(recipientReceivedRaw) / Number(decimalsMultiplier);
-        return {
-          valid: false,
-          error: `Insufficient payment: required ${
-            paymentRequirement.amount
-          } tokens, but recipient would receive ${recipientReceivedUI.toFixed(
-            decimals
-          )} tokens`,
-        };
+      if (!paymentCheck.valid) {
+        return paymentCheck;
       }
 
-      // Verify reference account is in transaction accounts
-      // Note: We need to check accounts from simulation, but simulation doesn't directly expose accountKeys
-      // We'll verify this in verifyTransactionConfirmed after sending
-      // For now, we verify the critical parts: recipient and amount
-
-      return { valid: true };
+      return {
+        valid: true,
+        payer: inspection.payer,
+        feePayer: decoded.feePayer,
+      };
     } catch (simulateError: any) {
       // If simulation fails, return error - don't allow invalid transactions
       return {
@@ -232,26 +361,99 @@ export async function verifySignedTransaction(
         error: `Transaction simulation error: ${safeStringifyError(
           simulateError
         )}`,
+        errorCode: isRpcUnavailableError(simulateError)
+          ? 'rpc_unavailable'
+          : 'simulation_failed',
       };
     }
   } catch (error) {
     return {
       valid: false,
       error: `Transaction verification error: ${error}`,
+      errorCode: isRpcUnavailableError(error)
+        ? 'rpc_unavailable'
+        : 'invalid_transaction',
     };
   }
 }
 
+/**
+ * Add the gateway fee payer signature to a partially signed transaction
+ */
+async function addFeePayerSignature(
+  signedTransactionBase64: string,
+  feePayer: TransactionPartialSigner
+): Promise<Base64EncodedWireTransaction> {
+  const transaction = getTransactionDecoder().decode(
+    Buffer.from(signedTransactionBase64, 'base64')
+  );
+  const [signatures] = await feePayer.signTransactions([transaction as any]);
+  return getBase64EncodedWireTransaction({
+    ...transaction,
+    signatures: { ...transaction.signatures, ...signatures },
+  });
+}
+
+/**
+ * Estimate the network fee of a transaction in lamports
+ */
+export async function estimateTransactionFee(
+  signedTransactionBase64: string,
+  rpc: SolanaRpcClient
+): Promise<bigint> {
+  const { messageBytes } = getTransactionDecoder().decode(
+    Buffer.from(signedTransactionBase64, 'base64')
+  );
+  const feeResponse = await (
+    rpc.getFeeForMessage(
+      Buffer.from(messageBytes).toString('base64') as any
+    ) as any
+  ).send();
+  if (feeResponse.value === null || feeResponse.value === undefined) {
+    throw new Error('Unable to estimate transaction fee');
+  }
+  return BigInt(feeResponse.value);
+}
+
+export interface SendTransactionOptions {
+  /** Gasless mode: gateway fee payer signing right before submission */
+  feePayer?: TransactionPartialSigner;
+  /** Commitment to wait for (default: 'confirmed') */
+  commitment?: ConfirmationCommitment;
+  /** Max ms to wait for confirmation (default: 30000) */
+  timeoutMs?: number;
+  /** RPC subscriptions client for signatureSubscribe (default: polling only) */
+  rpcSubscriptions?: SolanaRpcSubscriptionsClient | null;
+  /** Last block height the transaction can land in, e.g. from a gasless requirement */
+  lastValidBlockHeight?: bigint;
+  /** Interval of status polling and expiry checks in ms (default: 2000) */
+  pollIntervalMs?: number;
+  /** Called once the transaction is submitted, before waiting for confirmation */
+  onSubmitted?: (signature: string) => void;
+}
+
+export interface SendTransactionResult {
+  signature: string; // Empty if the transaction was not submitted
+  success: boolean;
+  error?: string;
+  errorCode?: PaymentErrorCode;
+}
+
 /**
  * Send signed transaction to blockchain and wait for confirmation
+ * In gasless mode the gateway fee payer signs right before submission.
+ * Fails fast once the transaction's blockhash has expired.
  */
 export async function sendSignedTransaction(
   signedTransactionBase64: string,
-  rpc: SolanaRpcClient
-): Promise<{ signature: string; success: boolean; error?: string }> {
+  rpc: SolanaRpcClient,
+  options: SendTransactionOptions = {}
+): Promise<SendTransactionResult> {
   try {
-    const base64Transaction =
-      signedTransactionBase64 as Base64EncodedWireTransaction;
+    const { feePayer } = options;
+    const base64Transaction = feePayer
+      ? await addFeePayerSignature(signedTransactionBase64, feePayer)
+      : (signedTransactionBase64 as Base64EncodedWireTransaction);
 
     // Send transaction
     const response = await (
@@ -269,112 +471,260 @@ export async function sendSignedTransaction(
         error: `Invalid signature from sendTransaction response: ${JSON.stringify(
           response
         )}`,
+        errorCode: 'rpc_unavailable',
       };
     }
 
-    // Wait for confirmation using getSignatureStatuses (more efficient than getTransaction)
-    const maxAttempts = 30;
-    const pollInterval = 1000;
+    options.onSubmitted?.(signature);
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const statusResponse = rpc.getSignatureStatuses([signature as Signature]);
-      const statuses = await (statusResponse as any).send();
-      const status = statuses.value?.[0];
-
-      if (status) {
-        if (status.err) {
-          return {
-            signature,
-            success: false,
-            error: `Transaction failed: ${safeStringifyError(status.err)}`,
-          };
-        }
-        if (
-          status.confirmationStatus === 'confirmed' ||
-          status.confirmationStatus === 'finalized'
-        ) {
-          return { signature, success: true };
-        }
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
-    }
+    // Wait for confirmation (signatureSubscribe with polling fallback)
+    const { recentBlockhash, usesDurableNonce } = getTransactionLifetime(
+      signedTransactionBase64
+    );
+    const confirmation = await waitForConfirmation(signature, rpc, {
+      commitment: options.commitment || 'confirmed',
+      timeoutMs: options.timeoutMs ?? DEFAULT_CONFIRMATION_TIMEOUT_MS,
+      rpcSubscriptions: options.rpcSubscriptions,
+      // Durable nonce transactions don't expire with their blockhash
+      recentBlockhash: usesDurableNonce ? undefined : recentBlockhash,
+      lastValidBlockHeight: usesDurableNonce
+        ? undefined
+        : options.lastValidBlockHeight,
+      pollIntervalMs: options.pollIntervalMs,
+    });
 
-    return {
-      signature,
-      success: false,
-      error: 'Transaction confirmation timeout',
-    };
+    return { signature, ...confirmation };
   } catch (error: any) {
     return {
       signature: '',
       success: false,
       error: `Transaction send error: ${safeStringifyError(error)}`,
+      errorCode: getSendErrorCode(error),
     };
   }
 }
 
+/**
+ * Error code of a failed sendTransaction call
+ * Preflight failures carry the transaction error as cause
+ */
+function getSendErrorCode(error: unknown): PaymentErrorCode {
+  if (isRpcUnavailableError(error)) {
+    return 'rpc_unavailable';
+  }
+  const cause = (error as any)?.cause;
+  if (isSolanaError(cause, SOLANA_ERROR__TRANSACTION_ERROR__BLOCKHASH_NOT_FOUND)) {
+    return 'blockhash_expired';
+  }
+  if (isSolanaError(cause, SOLANA_ERROR__TRANSACTION_ERROR__ALREADY_PROCESSED)) {
+    return 'transaction_already_used';
+  }
+  return 'transaction_failed';
+}
+
+/**
+ * Blockhash of a transaction and whether it uses a durable nonce
+ * (first instruction is System AdvanceNonceAccount)
+ */
+function getTransactionLifetime(signedTransactionBase64: string): {
+  recentBlockhash: string;
+  usesDurableNonce: boolean;
+} {
+  const decoded = decodeWireTransaction(signedTransactionBase64);
+  const [first] = decoded.instructions;
+  return {
+    recentBlockhash: decoded.lifetimeToken,
+    usesDurableNonce:
+      !!first &&
+      first.programId === SYSTEM_PROGRAM_ADDRESS &&
+      first.data.length >= 4 &&
+      first.data.readUInt32LE(0) === SYSTEM_ADVANCE_NONCE_ACCOUNT,
+  };
+}
+
 /**
  * Verify transaction is confirmed on-chain
  */
 export async function verifyTransactionConfirmed(
   signature: string,
   paymentRequirement: PaymentRequirement,
-  rpc: SolanaRpcClient
-): Promise<boolean> {
+  rpc: SolanaRpcClient,
+  commitment: 'confirmed' | 'finalized' = 'confirmed'
+): Promise<VerificationResponse> {
   try {
     // Get transaction details
     const txSignature = signature as Signature;
     const txResponse = rpc.getTransaction(txSignature, {
       encoding: 'jsonParsed',
       maxSupportedTransactionVersion: 0,
+      commitment,
     });
     const tx = await (txResponse as any).send();
 
     if (!tx || !tx.meta) {
-      return false;
+      return {
+        valid: false,
+        error: `Transaction ${signature} not found`,
+        errorCode: 'transaction_failed',
+      };
     }
 
     // Check if transaction was successful
     if (tx.meta.err) {
-      return false;
+      return {
+        valid: false,
+        error: `Transaction failed: ${safeStringifyError(tx.meta.err)}`,
+        errorCode: 'transaction_failed',
+      };
     }
 
     // Verify payment details
-    const postBalances = tx.meta.postTokenBalances || [];
-    const preBalances = tx.meta.preTokenBalances || [];
-
-    // Get decimals and build balance changes
-    const decimals = await getTokenDecimals(
-      paymentRequirement.mint,
-      [...postBalances, ...preBalances],
-      rpc
+    const accountKeys = tx.transaction?.message?.accountKeys || [];
+    const paymentCheck = await verifyRecipientReceived(
+      {
+        accountKeys: accountKeys.map((key: any) => String(key.pubkey ?? key)),
+        preBalances: tx.meta.preBalances || [],
+        postBalances: tx.meta.postBalances || [],
+        preTokenBalances: tx.meta.preTokenBalances || [],
+        postTokenBalances: tx.meta.postTokenBalances || [],
+        getFee: async () => BigInt(tx.meta.fee ?? 0),
+      },
+      paymentRequirement
     );
-    const balanceChanges = buildBalanceChanges(
-      preBalances,
-      postBalances,
+    if (!paymentCheck.valid) {
+      return paymentCheck;
+    }
+
+    // Verify reference account is in transaction
+    if (
+      !accountKeys.some(
+        (key: any) => key.pubkey === paymentRequirement.reference
+      )
+    ) {
+      return {
+        valid: false,
+        error: `Reference ${paymentRequirement.reference} is not included in the transaction`,
+        errorCode: 'invalid_transaction',
+      };
+    }
+    return {
+      valid: true,
+      payer: getConfirmedPayer(tx, accountKeys, paymentRequirement),
+      slot: Number(tx.slot),
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      error: `Transaction confirmation check error: ${safeStringifyError(error)}`,
+      errorCode: isRpcUnavailableError(error)
+        ? 'rpc_unavailable'
+        : 'transaction_failed',
+    };
+  }
+}
+
+/**
+ * Payer of a confirmed payment: the owner whose token balance decreased,
+ * or for native SOL the signer whose lamports decreased the most
+ */
+function getConfirmedPayer(
+  tx: any,
+  accountKeys: any[],
+  paymentRequirement: PaymentRequirement
+): string | undefined {
+  if (paymentRequirement.assetType !== 'native') {
+    const changes = buildBalanceChanges(
+      tx.meta.preTokenBalances || [],
+      tx.meta.postTokenBalances || [],
       paymentRequirement.mint
     );
+    for (const [key, change] of changes.entries()) {
+      if (change < 0n) {
+        return key.slice(0, key.length - paymentRequirement.mint.length - 1);
+      }
+    }
+    return undefined;
+  }
 
-    // Verify recipient received the required amount
-    const recipientKey = `${paymentRequirement.recipient}-${paymentRequirement.mint}`;
-    const recipientReceivedRaw = balanceChanges.get(recipientKey) || 0n;
-    const requiredAmountRaw = calculateRequiredAmountRaw(
-      paymentRequirement.amount,
-      decimals
-    );
+  let payer: string | undefined;
+  let largestDecrease = 0n;
+  accountKeys.forEach((key: any, index: number) => {
+    const decrease =
+      BigInt(tx.meta.preBalances?.[index] ?? 0) -
+      BigInt(tx.meta.postBalances?.[index] ?? 0);
+    if (key.signer && decrease > largestDecrease) {
+      payer = String(key.pubkey);
+      largestDecrease = decrease;
+    }
+  });
+  return payer;
+}
+
+export interface SubmittedTransactionOptions {
+  /** Commitment to wait for ('processed' payments can't be fetched yet) */
+  commitment: 'confirmed' | 'finalized';
+  /** Max ms to find the transaction and wait for the commitment */
+  timeoutMs: number;
+  /** RPC subscriptions client for signatureSubscribe (default: polling only) */
+  rpcSubscriptions?: SolanaRpcSubscriptionsClient | null;
+  /** Interval of status polling in ms (default: 2000) */
+  pollIntervalMs?: number;
+}
 
-    if (recipientReceivedRaw < requiredAmountRaw) {
-      return false;
+/**
+ * Verify a payment the wallet submitted itself (Solana Pay style)
+ * Without a signature the transaction is found by the requirement's reference.
+ * Waits for the commitment, then checks the landed transaction with verifyTransactionConfirmed.
+ */
+export async function verifySubmittedTransaction(
+  signature: string | undefined,
+  paymentRequirement: PaymentRequirement,
+  rpc: SolanaRpcClient,
+  options: SubmittedTransactionOptions
+): Promise<VerificationResponse & { signature: string }> {
+  const deadline = Date.now() + options.timeoutMs;
+  // Transactions found by reference are already confirmed
+  let reached: ConfirmationCommitment | null = null;
+  if (!signature) {
+    const found = await waitForReferenceSignature(paymentRequirement.reference, rpc, {
+      timeoutMs: options.timeoutMs,
+      pollIntervalMs: options.pollIntervalMs,
+    });
+    if (!found.success) {
+      return {
+        valid: false,
+        signature: '',
+        error: found.error,
+        errorCode: found.errorCode,
+      };
     }
+    signature = found.signature!;
+    reached = 'confirmed';
+  }
 
-    // Verify reference account is in transaction
-    const accountKeys = tx.transaction?.message?.accountKeys || [];
-    return accountKeys.some(
-      (key: any) => key.pubkey === paymentRequirement.reference
-    );
-  } catch (error) {
-    console.error('Transaction verification error:', error);
-    return false;
+  if (reached !== options.commitment) {
+    const confirmation = await waitForConfirmation(signature, rpc, {
+      commitment: options.commitment,
+      timeoutMs: Math.max(deadline - Date.now(), 0),
+      rpcSubscriptions: options.rpcSubscriptions,
+      pollIntervalMs: options.pollIntervalMs,
+    });
+    if (!confirmation.success) {
+      return {
+        valid: false,
+        signature,
+        error: confirmation.error,
+        errorCode: confirmation.errorCode,
+      };
+    }
   }
+  return {
+    ...(await verifyTransactionConfirmed(
+      signature,
+      paymentRequirement,
+      rpc,
+      options.commitment
+    )),
+    signature,
+  };
 }
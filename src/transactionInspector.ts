@@ -0,0 +1,568 @@
+/**
+ * Transaction inspector - offline instruction-level checks of payment transactions
+ * Decodes the wire transaction locally and rejects malformed or hostile payloads
+ * before any simulation or submission.
+ */
+
+import {
+  type Address,
+  address,
+  fetchAddressesForLookupTables,
+  getAddressEncoder,
+  getCompiledTransactionMessageDecoder,
+  getProgramDerivedAddress,
+  getPublicKeyFromAddress,
+  getTransactionDecoder,
+  type SignatureBytes,
+  verifySignature,
+} from '@solana/kit';
+import { PaymentRequirement, VerificationResponse } from './types';
+import { SolanaRpcClient, isRpcUnavailableError } from './rpcClient';
+import { formatAtomicAmount } from './amount';
+
+export const SYSTEM_PROGRAM_ADDRESS = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ADDRESS =
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ADDRESS =
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+export const ASSOCIATED_TOKEN_PROGRAM_ADDRESS =
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA1knL';
+export const COMPUTE_BUDGET_PROGRAM_ADDRESS =
+  'ComputeBudget111111111111111111111111111111';
+export const MEMO_PROGRAM_ADDRESS =
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+// Instruction discriminators
+const SYSTEM_TRANSFER = 2;
+const SYSTEM_ADVANCE_NONCE_ACCOUNT = 4;
+const TOKEN_TRANSFER = 3;
+const TOKEN_TRANSFER_CHECKED = 12;
+const ATA_CREATE = 0;
+const ATA_CREATE_IDEMPOTENT = 1;
+
+/**
+ * Program allowed in a payment transaction
+ */
+export interface InstructionAllowlistEntry {
+  programId: string;
+  /** Allowed instruction discriminators (default: any instruction of the program) */
+  discriminators?: number[];
+}
+
+/**
+ * Instructions a payment transaction may contain by default
+ * Anything else (SetAuthority, CloseAccount, Approve, arbitrary programs, ...) is rejected
+ */
+export const DEFAULT_INSTRUCTION_ALLOWLIST: InstructionAllowlistEntry[] = [
+  // RequestHeapFrame, SetComputeUnitLimit, SetComputeUnitPrice, SetLoadedAccountsDataSizeLimit
+  { programId: COMPUTE_BUDGET_PROGRAM_ADDRESS, discriminators: [1, 2, 3, 4] },
+  // Transfer, and AdvanceNonceAccount of durable nonce transactions (first instruction only)
+  {
+    programId: SYSTEM_PROGRAM_ADDRESS,
+    discriminators: [SYSTEM_TRANSFER, SYSTEM_ADVANCE_NONCE_ACCOUNT],
+  },
+  {
+    programId: TOKEN_PROGRAM_ADDRESS,
+    discriminators: [TOKEN_TRANSFER, TOKEN_TRANSFER_CHECKED],
+  },
+  {
+    programId: TOKEN_2022_PROGRAM_ADDRESS,
+    discriminators: [TOKEN_TRANSFER, TOKEN_TRANSFER_CHECKED],
+  },
+  {
+    programId: ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+    discriminators: [ATA_CREATE, ATA_CREATE_IDEMPOTENT],
+  },
+  { programId: MEMO_PROGRAM_ADDRESS },
+];
+
+/**
+ * Account of a decoded transaction
+ */
+export interface TransactionAccount {
+  address: string;
+  signer: boolean;
+  writable: boolean;
+}
+
+/**
+ * Instruction of a decoded transaction
+ */
+export interface DecodedInstruction {
+  programId: string;
+  accountIndices: number[]; // Indices into DecodedTransaction.accounts
+  data: Buffer;
+}
+
+/**
+ * Locally decoded wire transaction
+ * Accounts are ordered like the runtime loads them: static keys, then
+ * writable and readonly lookup table addresses
+ */
+export interface DecodedTransaction {
+  version: 'legacy' | 0;
+  feePayer: string;
+  accounts: TransactionAccount[];
+  instructions: DecodedInstruction[];
+  lifetimeToken: string;
+  messageBytes: Uint8Array;
+  signatures: Record<string, SignatureBytes | null>; // Keyed by signer address
+  missingSignatures: string[];
+  addressTableLookups: {
+    lookupTableAddress: Address;
+    writableIndexes: readonly number[];
+    readonlyIndexes: readonly number[];
+  }[];
+}
+
+export interface InspectionOptions {
+  /** Allowed programs and instructions (default: DEFAULT_INSTRUCTION_ALLOWLIST) */
+  allowlist?: InstructionAllowlistEntry[];
+  /** Accounts that must never be a transfer source or authority (recipient is always included) */
+  protectedAccounts?: string[];
+  /** Signers whose signature may still be missing (e.g. a fee payer signing later) */
+  pendingSigners?: string[];
+  /**
+   * Gateway fee payer (gasless mode)
+   * Its signature may be missing, and it must not be passed to any instruction
+   */
+  feePayer?: string;
+}
+
+export type InspectionResult = VerificationResponse & {
+  transaction?: DecodedTransaction;
+  payer?: string; // Authority of the payment transfer
+};
+
+/**
+ * Decode a Base64 wire transaction
+ * Throws if the bytes are not a well-formed legacy or v0 transaction
+ */
+export function decodeWireTransaction(
+  signedTransactionBase64: string
+): DecodedTransaction {
+  const transaction = getTransactionDecoder().decode(
+    Buffer.from(signedTransactionBase64, 'base64')
+  );
+  const message = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes
+  );
+
+  const { header, staticAccounts } = message;
+  const numStatic = staticAccounts.length;
+  if (
+    header.numSignerAccounts === 0 ||
+    header.numSignerAccounts > numStatic ||
+    header.numReadonlySignerAccounts >= header.numSignerAccounts ||
+    header.numReadonlyNonSignerAccounts > numStatic - header.numSignerAccounts
+  ) {
+    throw new Error('Invalid message header');
+  }
+
+  const accounts: TransactionAccount[] = staticAccounts.map((key, index) => {
+    const signer = index < header.numSignerAccounts;
+    const writable = signer
+      ? index < header.numSignerAccounts - header.numReadonlySignerAccounts
+      : index < numStatic - header.numReadonlyNonSignerAccounts;
+    return { address: String(key), signer, writable };
+  });
+
+  const signatureEntries = Object.entries(transaction.signatures);
+  if (signatureEntries.length !== header.numSignerAccounts) {
+    throw new Error('Signature count does not match message header');
+  }
+
+  // Lookup table addresses are resolved later; keep placeholders so indices stay valid
+  const lookups =
+    message.version === 0 ? message.addressTableLookups || [] : [];
+  const writableLookups = lookups.flatMap((lookup) =>
+    lookup.writableIndexes.map(() => ({ writable: true }))
+  );
+  const readonlyLookups = lookups.flatMap((lookup) =>
+    lookup.readonlyIndexes.map(() => ({ writable: false }))
+  );
+  for (const lookup of [...writableLookups, ...readonlyLookups]) {
+    accounts.push({ address: '', signer: false, writable: lookup.writable });
+  }
+
+  const instructions = message.instructions.map((instruction) => {
+    const programIndex = instruction.programAddressIndex;
+    if (programIndex >= numStatic) {
+      throw new Error('Program address must be a static account');
+    }
+    const accountIndices = instruction.accountIndices || [];
+    if (accountIndices.some((index) => index >= accounts.length)) {
+      throw new Error('Instruction references an unknown account');
+    }
+    return {
+      programId: accounts[programIndex].address,
+      accountIndices,
+      data: Buffer.from(instruction.data || new Uint8Array()),
+    };
+  });
+
+  return {
+    version: message.version,
+    feePayer: accounts[0].address,
+    accounts,
+    instructions,
+    lifetimeToken: String(message.lifetimeToken),
+    messageBytes: new Uint8Array(transaction.messageBytes),
+    signatures: { ...transaction.signatures },
+    missingSignatures: signatureEntries
+      .filter(([, signature]) => !signature)
+      .map(([signer]) => signer),
+    addressTableLookups: lookups,
+  };
+}
+
+/**
+ * Resolve address lookup tables of a v0 transaction
+ * Fills in the addresses of lookup table accounts in place
+ */
+export async function resolveLookupTables(
+  decoded: DecodedTransaction,
+  rpc: SolanaRpcClient
+): Promise<void> {
+  const lookups = decoded.addressTableLookups;
+  if (lookups.length === 0) {
+    return;
+  }
+
+  const tables = await fetchAddressesForLookupTables(
+    lookups.map((lookup) => lookup.lookupTableAddress),
+    rpc
+  );
+  const resolve = (table: Address, index: number): string => {
+    const resolved = tables[table]?.[index];
+    if (!resolved) {
+      throw new Error(`Lookup table ${table} has no address at ${index}`);
+    }
+    return String(resolved);
+  };
+  const loaded = [
+    ...lookups.flatMap((lookup) =>
+      lookup.writableIndexes.map((i) => resolve(lookup.lookupTableAddress, i))
+    ),
+    ...lookups.flatMap((lookup) =>
+      lookup.readonlyIndexes.map((i) => resolve(lookup.lookupTableAddress, i))
+    ),
+  ];
+  const offset = decoded.accounts.length - loaded.length;
+  loaded.forEach((loadedAddress, i) => {
+    decoded.accounts[offset + i].address = loadedAddress;
+  });
+}
+
+/**
+ * Addresses of the accounts passed to an instruction
+ */
+export function getInstructionAccounts(
+  decoded: DecodedTransaction,
+  instruction: DecodedInstruction
+): string[] {
+  return instruction.accountIndices.map(
+    (index) => decoded.accounts[index].address
+  );
+}
+
+/**
+ * Derive the associated token account of an owner for a mint
+ */
+export async function getAssociatedTokenAddress(
+  owner: string,
+  mint: string,
+  tokenProgram: string = TOKEN_PROGRAM_ADDRESS
+): Promise<string> {
+  const encoder = getAddressEncoder();
+  const [ata] = await getProgramDerivedAddress({
+    programAddress: address(ASSOCIATED_TOKEN_PROGRAM_ADDRESS),
+    seeds: [
+      encoder.encode(address(owner)),
+      encoder.encode(address(tokenProgram)),
+      encoder.encode(address(mint)),
+    ],
+  });
+  return String(ata);
+}
+
+/**
+ * Read the discriminator of an instruction
+ * The system program uses a u32, other programs a single byte
+ * (an empty Associated Token Account instruction means Create)
+ */
+function getDiscriminator(instruction: DecodedInstruction): number {
+  if (instruction.programId === SYSTEM_PROGRAM_ADDRESS) {
+    return instruction.data.length >= 4 ? instruction.data.readUInt32LE(0) : -1;
+  }
+  return instruction.data.length > 0 ? instruction.data[0] : 0;
+}
+
+/**
+ * Inspect a payment transaction against a payment requirement without simulating it
+ * Checks: structure, signatures, instruction allowlist, reference, transfer
+ * destination, mint, decimals, amount and transfers out of protected accounts
+ */
+export async function inspectPaymentTransaction(
+  signedTransactionBase64: string,
+  paymentRequirement: PaymentRequirement,
+  rpc: SolanaRpcClient,
+  options: InspectionOptions = {}
+): Promise<InspectionResult> {
+  const {
+    allowlist = DEFAULT_INSTRUCTION_ALLOWLIST,
+    protectedAccounts = [],
+    pendingSigners = [],
+    feePayer,
+  } = options;
+
+  let decoded: DecodedTransaction;
+  try {
+    decoded = decodeWireTransaction(signedTransactionBase64);
+  } catch (error: any) {
+    return {
+      valid: false,
+      error: `Malformed transaction: ${error?.message || error}`,
+      errorCode: 'invalid_transaction',
+    };
+  }
+
+  const unsigned = decoded.missingSignatures.filter(
+    (signer) => !pendingSigners.includes(signer) && signer !== feePayer
+  );
+  if (unsigned.length > 0) {
+    return {
+      valid: false,
+      error: `Transaction is missing signatures from: ${unsigned.join(', ')}`,
+      errorCode: 'invalid_signature',
+    };
+  }
+
+  // Verify present signatures locally
+  for (const [signer, signature] of Object.entries(decoded.signatures)) {
+    if (!signature) {
+      continue;
+    }
+    const publicKey = await getPublicKeyFromAddress(address(signer));
+    if (!(await verifySignature(publicKey, signature, decoded.messageBytes))) {
+      return {
+        valid: false,
+        error: `Invalid signature from ${signer}`,
+        errorCode: 'invalid_signature',
+      };
+    }
+  }
+
+  // Allowlist check runs offline, program addresses are always static accounts
+  for (const [index, instruction] of decoded.instructions.entries()) {
+    const entry = allowlist.find(
+      (allowed) => allowed.programId === instruction.programId
+    );
+    const discriminator = getDiscriminator(instruction);
+    if (
+      !entry ||
+      (entry.discriminators && !entry.discriminators.includes(discriminator))
+    ) {
+      return {
+        valid: false,
+        error: `Instruction ${discriminator} of program ${instruction.programId} is not allowed`,
+        errorCode: 'invalid_transaction',
+      };
+    }
+    // The runtime only treats a leading AdvanceNonceAccount as the nonce of the transaction
+    if (
+      index > 0 &&
+      instruction.programId === SYSTEM_PROGRAM_ADDRESS &&
+      discriminator === SYSTEM_ADVANCE_NONCE_ACCOUNT
+    ) {
+      return {
+        valid: false,
+        error: 'AdvanceNonceAccount must be the first instruction',
+        errorCode: 'invalid_transaction',
+      };
+    }
+  }
+
+  try {
+    await resolveLookupTables(decoded, rpc);
+  } catch (error: any) {
+    return {
+      valid: false,
+      error: `Unable to resolve address lookup tables: ${error?.message || error}`,
+      errorCode: isRpcUnavailableError(error)
+        ? 'rpc_unavailable'
+        : 'invalid_transaction',
+    };
+  }
+
+  // Reference must be one of the transaction accounts
+  if (
+    !decoded.accounts.some(
+      (account) => account.address === paymentRequirement.reference
+    )
+  ) {
+    return {
+      valid: false,
+      error: `Reference ${paymentRequirement.reference} is not included in the transaction`,
+      errorCode: 'invalid_transaction',
+    };
+  }
+
+  const isNative = paymentRequirement.assetType === 'native';
+  const recipientTokenAccounts = isNative
+    ? []
+    : await Promise.all(
+        [TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS].map((program) =>
+          getAssociatedTokenAddress(
+            paymentRequirement.recipient,
+            paymentRequirement.mint,
+            program
+          )
+        )
+      );
+  const protectedSet = new Set([
+    paymentRequirement.recipient,
+    ...recipientTokenAccounts,
+    ...protectedAccounts,
+    ...(feePayer ? [feePayer] : []),
+  ]);
+
+  // The gateway fee payer only pays fees, it must not take part in any instruction
+  if (feePayer) {
+    for (const instruction of decoded.instructions) {
+      if (getInstructionAccounts(decoded, instruction).includes(feePayer)) {
+        return {
+          valid: false,
+          error: `Fee payer ${feePayer} is used by an instruction of program ${instruction.programId}`,
+          errorCode: 'invalid_transaction',
+        };
+      }
+    }
+  }
+
+  let transferred = 0n;
+  let payer: string | undefined;
+
+  for (const instruction of decoded.instructions) {
+    const discriminator = getDiscriminator(instruction);
+    const { programId, data } = instruction;
+    const accounts = getInstructionAccounts(decoded, instruction);
+
+    if (programId === SYSTEM_PROGRAM_ADDRESS && discriminator === SYSTEM_TRANSFER) {
+      const [from, to] = accounts;
+      if (data.length < 12 || !from || !to) {
+        return {
+          valid: false,
+          error: 'Malformed system transfer',
+          errorCode: 'invalid_transaction',
+        };
+      }
+      if (protectedSet.has(from)) {
+        return {
+          valid: false,
+          error: `Transfer out of protected account ${from}`,
+          errorCode: 'invalid_transaction',
+        };
+      }
+      if (!isNative || to !== paymentRequirement.recipient) {
+        return {
+          valid: false,
+          error: `Unexpected SOL transfer to ${to}`,
+          errorCode: 'recipient_mismatch',
+        };
+      }
+      transferred += data.readBigUInt64LE(4);
+      payer = payer || from;
+      continue;
+    }
+
+    if (
+      (programId === TOKEN_PROGRAM_ADDRESS ||
+        programId === TOKEN_2022_PROGRAM_ADDRESS) &&
+      (discriminator === TOKEN_TRANSFER ||
+        discriminator === TOKEN_TRANSFER_CHECKED)
+    ) {
+      const checked = discriminator === TOKEN_TRANSFER_CHECKED;
+      const [source, second, third, fourth] = accounts;
+      const destination = checked ? third : second;
+      const authority = checked ? fourth : third;
+      if (data.length < (checked ? 10 : 9) || !source || !destination || !authority) {
+        return {
+          valid: false,
+          error: 'Malformed token transfer',
+          errorCode: 'invalid_transaction',
+        };
+      }
+      if (protectedSet.has(source) || protectedSet.has(authority)) {
+        return {
+          valid: false,
+          error: `Transfer out of protected account ${
+            protectedSet.has(source) ? source : authority
+          }`,
+          errorCode: 'invalid_transaction',
+        };
+      }
+      const expectedDestination = await getAssociatedTokenAddress(
+        paymentRequirement.recipient,
+        paymentRequirement.mint,
+        programId
+      );
+      if (isNative || destination !== expectedDestination) {
+        return {
+          valid: false,
+          error: `Unexpected token transfer to ${destination}, expected ${
+            isNative ? 'a SOL transfer' : expectedDestination
+          }`,
+          errorCode: 'recipient_mismatch',
+        };
+      }
+      if (checked) {
+        if (second !== paymentRequirement.mint) {
+          return {
+            valid: false,
+            error: `Token transfer uses mint ${second}, expected ${paymentRequirement.mint}`,
+            errorCode: 'asset_mismatch',
+          };
+        }
+        if (data[9] !== paymentRequirement.decimals) {
+          return {
+            valid: false,
+            error: `Token transfer uses ${data[9]} decimals, expected ${paymentRequirement.decimals}`,
+            errorCode: 'asset_mismatch',
+          };
+        }
+      }
+      transferred += data.readBigUInt64LE(1);
+      payer = payer || authority;
+      continue;
+    }
+
+    if (programId === ASSOCIATED_TOKEN_PROGRAM_ADDRESS) {
+      const [funder] = accounts;
+      if (funder && protectedSet.has(funder)) {
+        return {
+          valid: false,
+          error: `Account creation funded by protected account ${funder}`,
+          errorCode: 'invalid_transaction',
+        };
+      }
+    }
+  }
+
+  const required = BigInt(paymentRequirement.amountAtomic);
+  if (transferred < required) {
+    return {
+      valid: false,
+      error: `Insufficient payment: required ${formatAtomicAmount(
+        required,
+        paymentRequirement.decimals
+      )}, but transaction transfers ${formatAtomicAmount(
+        transferred,
+        paymentRequirement.decimals
+      )}`,
+      errorCode: 'insufficient_amount',
+    };
+  }
+
+  return { valid: true, transaction: decoded, payer };
+}
@@ -2,33 +2,183 @@
  * x402 Protocol Types
  */
 
+import type { SignedPaymentReceipt } from './receipts';
+
+/**
+ * Asset kind of a payment requirement
+ * - 'spl-token': SPL token transfer (e.g. USDC), verified from token balances
+ * - 'native': native SOL transfer, verified from lamport balances
+ */
+export type PaymentAssetType = 'spl-token' | 'native';
+
+/**
+ * Mint address advertised for native SOL requirements (wrapped SOL mint)
+ */
+export const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/**
+ * Decimals of native SOL (1 SOL = 10^9 lamports)
+ */
+export const NATIVE_SOL_DECIMALS = 9;
+
 /**
  * Payment Requirement - Describes what payment is required
  * Returned in HTTP 402 Payment Required Response
  */
 export interface PaymentRequirement {
   network: string; // e.g., "devnet", "mainnet-beta"
-  mint: string; // USDC mint address
-  amount: string; // Amount as string (e.g., "0.05")
+  assetType: PaymentAssetType; // 'spl-token' or 'native'
+  mint: string; // Token mint address (NATIVE_SOL_MINT for native SOL)
+  amount: string; // Amount in UI units as exact decimal string (e.g., "0.05")
+  amountAtomic: string; // Amount in atomic units as integer string (e.g., "50000")
+  decimals: number; // Decimals of the mint (9 for native SOL)
   recipient: string; // Recipient wallet address
   reference: string; // Reference account address (unique for this request)
   expires_in: number; // Expiration time in seconds
+  feePayer?: string; // Gasless mode: gateway account paying the network fee
+  recentBlockhash?: string; // Gasless mode: blockhash to build the transaction with
+  lastValidBlockHeight?: string; // Gasless mode: last block height the blockhash is valid for
+  accessPassSeconds?: number; // Access pass requirement: seconds the bought pass is valid
+}
+
+/**
+ * x402 protocol version implemented by the gateway
+ */
+export const X402_VERSION = 1;
+
+/**
+ * x402 Payment Requirements - One entry of `accepts` in the published x402 schema
+ */
+export interface X402PaymentRequirements {
+  scheme: 'exact';
+  network: string; // e.g., "solana-devnet", "solana"
+  maxAmountRequired: string; // Amount in atomic units
+  resource: string; // URL of the protected resource
+  description: string;
+  mimeType: string; // MIME type of the resource response
+  payTo: string; // Recipient wallet address
+  maxTimeoutSeconds: number;
+  asset: string; // Token mint address (NATIVE_SOL_MINT for native SOL)
+  outputSchema?: unknown;
+  extra?: X402PaymentRequirementsExtra;
+}
+
+/**
+ * Solana specific fields of x402 Payment Requirements
+ */
+export interface X402PaymentRequirementsExtra {
+  reference: string; // Reference account address to include in the transaction
+  assetType: PaymentAssetType;
+  decimals: number;
+  amount: string; // Amount in UI units
+  feePayer?: string; // Gasless mode: gateway account paying the network fee
+  recentBlockhash?: string;
+  lastValidBlockHeight?: string;
+  accessPassSeconds?: number; // Access pass requirement: seconds the bought pass is valid
 }
 
+/**
+ * Machine-readable reason of a rejected or failed payment
+ * rpc_unavailable, facilitator_unavailable and confirmation_timeout are
+ * infrastructure failures, answered with 503 instead of asking for a new payment
+ */
+export type PaymentErrorCode =
+  | 'payment_required' // No X-PAYMENT header
+  | 'invalid_payload' // X-PAYMENT header can't be decoded or misses fields
+  | 'network_mismatch'
+  | 'reference_unknown' // Reference not issued, expired or issued for another route
+  | 'reference_used'
+  | 'invalid_transaction' // Malformed transaction or instructions that aren't allowed
+  | 'invalid_signature'
+  | 'recipient_mismatch'
+  | 'asset_mismatch' // Wrong mint or decimals
+  | 'insufficient_amount'
+  | 'simulation_failed'
+  | 'fee_budget_exceeded' // Gasless mode fee budget of the payer is used up
+  | 'insufficient_credits' // Credits mode: the prepaid balance doesn't cover the request
+  | 'invalid_credits_auth' // Credits mode: X-CREDITS-AUTH header is malformed, expired, replayed or badly signed
+  | 'invalid_access_pass' // Bearer access pass is malformed, badly signed or out of scope
+  | 'access_pass_expired'
+  | 'payment_refunded' // Refund policy: the payment was refunded and can't be reused
+  | 'blockhash_expired'
+  | 'transaction_failed' // Transaction was rejected or failed on chain
+  | 'transaction_already_used'
+  | 'confirmation_timeout'
+  | 'rpc_unavailable'
+  | 'facilitator_unavailable'
+  | 'store_unavailable' // Payment store couldn't be read or written
+  | 'internal_error';
+
 /**
  * Payment Required Response - HTTP 402 response body
+ * Contains the x402 fields, the legacy fields, or both depending on the server format
  */
 export interface PaymentRequiredResponse {
-  paymentRequirements: PaymentRequirement[];
+  x402Version?: number;
+  accepts?: X402PaymentRequirements[];
+  error?: string;
+  errorCode?: PaymentErrorCode;
+  paymentRequirements?: PaymentRequirement[]; // Legacy format
+}
+
+/**
+ * x402 Payment Payload - Published x402 schema of the X-PAYMENT header (Base64 encoded)
+ */
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: string; // e.g., "solana-devnet", "solana"
+  payload: {
+    transaction?: string; // Signed transaction (serialized, Base64 encoded), absent for submitted payments
+    signature?: string; // Submitted payment: signature of the transaction the wallet broadcast itself
+    reference?: string; // Reference account address (optional, found in the transaction otherwise)
+  };
 }
 
 /**
  * Payment Payload - Created by client and sent in X-PAYMENT header (Base64 encoded)
+ * This is the legacy format; x402 payloads are normalized to it by parsePaymentPayload
+ * A submitted payment (Solana Pay style) has no transaction: the wallet broadcast it
+ * itself, and the gateway finds it by its signature or reference
  */
 export interface PaymentPayload {
   network: string; // e.g., "devnet", "mainnet-beta"
-  transaction: string; // Signed transaction (serialized, Base64 encoded)
-  reference: string; // Reference account address
+  transaction: string; // Signed transaction (serialized, Base64 encoded), empty for a submitted payment
+  reference: string; // Reference account address (empty if not given by an x402 payload)
+  signature?: string; // Submitted payment: transaction signature (optional, found by reference otherwise)
+  x402Version?: number; // Protocol version of an x402 payload (absent for legacy payloads)
+}
+
+/**
+ * Settlement Response - Result of submitting and confirming a payment
+ * Also sent to the client in the X-PAYMENT-RESPONSE header (Base64 encoded)
+ */
+export interface SettlementResponse {
+  success: boolean;
+  transaction: string; // Transaction signature
+  network: string;
+  payer?: string; // Authority of the payment transfer
+  slot?: number; // Slot the transaction landed in (unknown at 'processed' commitment)
+  accessPass?: string; // Access pass requirement: signed pass to send as `Authorization: Bearer`
+  receipt?: SignedPaymentReceipt; // Receipt signed by the gateway (receipts enabled, settled payments)
+  error?: string;
+  errorCode?: PaymentErrorCode;
+}
+
+/**
+ * Payment Status Response - Body of 202 Accepted responses and of the payment
+ * status endpoint in async settlement mode
+ */
+export interface PaymentStatusResponse {
+  reference: string;
+  status: 'pending' | 'settled' | 'failed';
+  network: string;
+  transaction?: string; // Transaction signature (once submitted)
+  payer?: string;
+  error?: string; // Why settlement failed
+  errorCode?: PaymentErrorCode;
+  statusUrl?: string; // URL to poll for the settlement status
+  receipt?: SignedPaymentReceipt; // Receipt signed by the gateway once settled (receipts enabled)
 }
 
 /**
@@ -37,4 +187,9 @@ export interface PaymentPayload {
 export interface VerificationResponse {
   valid: boolean;
   error?: string;
+  errorCode?: PaymentErrorCode;
+  payer?: string; // Authority of the payment transfer
+  feePayer?: string; // Fee payer of the transaction
+  slot?: number; // Slot of a confirmed transaction
+  signature?: string; // Submitted payment: signature of the landed transaction
 }
@@ -0,0 +1,244 @@
+/**
+ * Webhook dispatcher
+ * POSTs payment events to a URL, signed with HMAC-SHA256, retrying failed
+ * deliveries with exponential backoff from an outbox.
+ *
+ * Usage:
+ * ```ts
+ * import {
+ *   WebhookDispatcher,
+ *   FileWebhookOutbox,
+ *   x402ResourceServer,
+ * } from 'solana-x402-gateway';
+ *
+ * const webhooks = new WebhookDispatcher({
+ *   url: 'https://billing.example.com/x402-events',
+ *   secret: process.env.WEBHOOK_SECRET!,
+ *   outbox: new FileWebhookOutbox('./webhook-outbox.json'),
+ * });
+ *
+ * app.use('/api/protected', x402ResourceServer({ ...options, webhooks }));
+ * ```
+ *
+ * Receivers check the x-x402-signature header with verifyWebhookSignature
+ * against the raw request body.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { PaymentEvent, PaymentEventSink, PaymentEventType } from './paymentEvents';
+import {
+  MemoryWebhookOutbox,
+  WebhookDelivery,
+  WebhookOutbox,
+} from './webhookOutbox';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-x402-signature';
+export const WEBHOOK_EVENT_HEADER = 'x-x402-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-x402-delivery';
+
+export interface WebhookDispatcherOptions {
+  /** URL events are POSTed to */
+  url: string;
+  /** Shared secret of the HMAC-SHA256 signature */
+  secret: string;
+  /** Event types to deliver (default: all) */
+  events?: PaymentEventType[];
+  /** Storage of pending deliveries (default: in-memory) */
+  outbox?: WebhookOutbox;
+  /** Delivery attempts before an event is dropped (default: 8) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms, doubled on every attempt (default: 1000) */
+  initialBackoffMs?: number;
+  /** Maximum delay between retries in ms (default: 300000) */
+  maxBackoffMs?: number;
+  /** Timeout of a delivery request in ms (default: 10000) */
+  timeoutMs?: number;
+  /** Interval the outbox is checked for due retries in ms (default: 1000) */
+  pollIntervalMs?: number;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Custom logger function (optional) */
+  logger?: (message: string) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 300000;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Delivers payment events to a webhook URL
+ * Events are written to the outbox before delivery, so deliveries pending
+ * in a persisted outbox resume after a restart.
+ */
+export class WebhookDispatcher implements PaymentEventSink {
+  private options: WebhookDispatcherOptions;
+  private outbox: WebhookOutbox;
+  private logger: (message: string) => void;
+  private timer: ReturnType<typeof setInterval>;
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+
+  constructor(options: WebhookDispatcherOptions) {
+    this.options = options;
+    this.outbox = options.outbox || new MemoryWebhookOutbox();
+    this.logger = options.logger || console.log;
+    this.timer = setInterval(
+      () => void this.flush(),
+      options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    );
+    this.timer.unref();
+  }
+
+  /**
+   * Queue an event and attempt delivery
+   */
+  async dispatch(event: PaymentEvent): Promise<void> {
+    if (this.options.events && !this.options.events.includes(event.type)) {
+      return;
+    }
+    await this.outbox.put({
+      id: randomUUID(),
+      event,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    });
+    await this.flush();
+  }
+
+  /**
+   * Deliver all due deliveries of the outbox
+   * Concurrent calls wait for the running flush, which then runs once more
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          for (const delivery of await this.outbox.due(Date.now())) {
+            await this.attempt(delivery);
+          }
+        } while (this.flushAgain);
+      } catch (error) {
+        this.logger(`Webhook outbox flush failed: ${error}`);
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  /**
+   * Stop retrying deliveries (pending deliveries stay in the outbox)
+   */
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    try {
+      await this.deliver(delivery);
+      await this.outbox.remove(delivery.id);
+      return;
+    } catch (error) {
+      delivery.attempts += 1;
+      delivery.lastError = String(error);
+    }
+
+    const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    if (delivery.attempts >= maxAttempts) {
+      this.logger(
+        `Webhook ${delivery.event.type} for reference ${delivery.event.reference} dropped after ${delivery.attempts} attempts: ${delivery.lastError}`
+      );
+      await this.outbox.remove(delivery.id);
+      return;
+    }
+
+    const backoffMs = Math.min(
+      (this.options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS) *
+        2 ** (delivery.attempts - 1),
+      this.options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+    );
+    delivery.nextAttemptAt = Date.now() + backoffMs;
+    this.logger(
+      `Webhook ${delivery.event.type} delivery failed (attempt ${delivery.attempts}), retrying in ${backoffMs}ms: ${delivery.lastError}`
+    );
+    await this.outbox.put(delivery);
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const fetchImpl = this.options.fetch || fetch;
+    const body = JSON.stringify({ id: delivery.id, ...delivery.event });
+    const response = await fetchImpl(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, this.options.secret),
+        [WEBHOOK_EVENT_HEADER]: delivery.event.type,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      signal: AbortSignal.timeout(
+        this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      ),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook receiver responded with status ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Signature header value of a webhook body: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ * The HMAC covers "<timestamp>.<body>" so signatures can't be replayed later
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(body, secret, timestamp)}`;
+}
+
+/**
+ * Check the signature header of a received webhook body
+ * Rejects signatures older than toleranceSeconds (default: 300)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signatureHeader: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = new Map(
+    signatureHeader.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as [string, string];
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(body, secret, timestamp), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
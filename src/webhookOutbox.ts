@@ -0,0 +1,128 @@
+/**
+ * Webhook outbox
+ * Pending webhook deliveries, kept until they are delivered or run out of attempts
+ */
+
+import { promises as fs } from 'fs';
+import { PaymentEvent } from './paymentEvents';
+
+/**
+ * Webhook delivery waiting in the outbox
+ */
+export interface WebhookDelivery {
+  id: string;
+  event: PaymentEvent;
+  attempts: number;
+  nextAttemptAt: number; // Unix ms
+  lastError?: string;
+}
+
+/**
+ * Storage of pending webhook deliveries
+ */
+export interface WebhookOutbox {
+  /** Add or replace a delivery */
+  put(delivery: WebhookDelivery): Promise<void>;
+  /** Deliveries due at the given time, oldest first */
+  due(now: number): Promise<WebhookDelivery[]>;
+  /** Remove a delivered or abandoned delivery */
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * In-memory webhook outbox (lost on restart)
+ */
+export class MemoryWebhookOutbox implements WebhookOutbox {
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+
+  async put(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async due(now: number): Promise<WebhookDelivery[]> {
+    return sortDue(Array.from(this.deliveries.values()), now);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.deliveries.delete(id);
+  }
+}
+
+/**
+ * File-backed webhook outbox
+ * Keeps pending deliveries in a JSON file so they are retried after a restart.
+ * Writes go to a temporary file first and are renamed into place.
+ */
+export class FileWebhookOutbox implements WebhookOutbox {
+  private filePath: string;
+  private deliveries: Record<string, WebhookDelivery> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async put(delivery: WebhookDelivery): Promise<void> {
+    await this.run(async (deliveries) => {
+      deliveries[delivery.id] = { ...delivery };
+      await this.save(deliveries);
+    });
+  }
+
+  async due(now: number): Promise<WebhookDelivery[]> {
+    return this.run(async (deliveries) =>
+      sortDue(Object.values(deliveries), now)
+    );
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.run(async (deliveries) => {
+      if (deliveries[id]) {
+        delete deliveries[id];
+        await this.save(deliveries);
+      }
+    });
+  }
+
+  /**
+   * Run an operation against the loaded deliveries
+   * Operations are serialized so read-modify-write sequences are atomic
+   */
+  private run<T>(
+    operation: (deliveries: Record<string, WebhookDelivery>) => Promise<T>
+  ): Promise<T> {
+    const result = this.queue.then(async () => operation(await this.load()));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Record<string, WebhookDelivery>> {
+    if (this.deliveries) {
+      return this.deliveries;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      this.deliveries = JSON.parse(content) as Record<string, WebhookDelivery>;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to load webhook outbox ${this.filePath}: ${error}`);
+      }
+      this.deliveries = {};
+    }
+    return this.deliveries;
+  }
+
+  private async save(deliveries: Record<string, WebhookDelivery>): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(deliveries), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+function sortDue(deliveries: WebhookDelivery[], now: number): WebhookDelivery[] {
+  return deliveries
+    .filter((delivery) => delivery.nextAttemptAt <= now)
+    .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+    .map((delivery) => ({ ...delivery }));
+}
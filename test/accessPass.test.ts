@@ -0,0 +1,143 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AccessPassClaims,
+  createResourceServerCore,
+  getAccessPass,
+  PaymentRequiredResponse,
+  signAccessPass,
+  verifyAccessPass,
+  wrapFetchWithPayment,
+} from '../src';
+import { startTestGateway, TestGateway } from './helpers';
+
+const CURRENT_KEY = { kid: 'current', secret: 'current-secret' };
+const OLD_KEY = { kid: 'old', secret: 'old-secret' };
+
+describe('access passes', () => {
+  let gateway: TestGateway;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  function startPassGateway(): Promise<TestGateway> {
+    return startTestGateway(
+      { accessPasses: { keys: [CURRENT_KEY] } },
+      '0.05',
+      { accessPass: { durationSeconds: 3600 } }
+    );
+  }
+
+  it('returns a signed pass that serves later requests without paying', async () => {
+    gateway = await startPassGateway();
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+
+    const paid = await fetchWithPayment(gateway.url);
+    assert.equal(paid.status, 200);
+    const pass = getAccessPass(paid);
+    assert.ok(pass);
+
+    const verified = verifyAccessPass(pass, { keys: [CURRENT_KEY] }, '/api/data');
+    assert.equal(verified.valid, true);
+    if (verified.valid) {
+      assert.equal(verified.claims.sub, gateway.payer.address);
+      assert.deepEqual(verified.claims.scope, ['/api/*']);
+    }
+
+    const reused = await fetch(gateway.url, {
+      headers: { Authorization: `Bearer ${pass}` },
+    });
+    assert.equal(reused.status, 200);
+    assert.deepEqual(await reused.json(), { data: 'paid content' });
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+
+  it('advertises the pass duration and rejects tampered passes with 402', async () => {
+    gateway = await startPassGateway();
+    const unpaid = (await (await fetch(gateway.url)).json()) as PaymentRequiredResponse;
+    assert.equal(unpaid.accepts?.[0].extra?.accessPassSeconds, 3600);
+
+    const forged = signAccessPass(
+      { sub: 'x', scope: ['/*'], iat: 0, exp: 4102444800, jti: 'x' },
+      { keys: [{ kid: 'current', secret: 'guessed' }] }
+    );
+    const response = await fetch(gateway.url, {
+      headers: { Authorization: `Bearer ${forged}` },
+    });
+    const body = (await response.json()) as PaymentRequiredResponse;
+    assert.equal(response.status, 402);
+    assert.equal(body.errorCode, 'invalid_access_pass');
+  });
+
+  it('reuses bought passes in wrapFetchWithPayment', async () => {
+    gateway = await startPassGateway();
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+      accessPasses: true,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await fetchWithPayment(gateway.url)).status, 200);
+    }
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+});
+
+describe('verifyAccessPass', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessPassClaims = {
+    sub: 'payer',
+    scope: ['/api/reports/*'],
+    iat: now,
+    exp: now + 60,
+    jti: 'reference',
+  };
+
+  it('verifies passes of retired keys still listed and checks scope', () => {
+    const pass = signAccessPass(claims, { keys: [OLD_KEY] });
+    const rotated = { keys: [CURRENT_KEY, OLD_KEY] };
+
+    assert.equal(verifyAccessPass(pass, rotated, '/api/reports/daily').valid, true);
+    const outOfScope = verifyAccessPass(pass, rotated, '/api/admin');
+    assert.equal(outOfScope.valid, false);
+    const retired = verifyAccessPass(pass, { keys: [CURRENT_KEY] }, '/api/reports/daily');
+    assert.equal(retired.valid, false);
+  });
+
+  it('rejects expired passes', () => {
+    const pass = signAccessPass(
+      { ...claims, exp: now - 1 },
+      { keys: [CURRENT_KEY] }
+    );
+    const result = verifyAccessPass(pass, { keys: [CURRENT_KEY] }, '/api/reports/daily');
+    assert.equal(result.valid, false);
+    if (!result.valid) {
+      assert.equal(result.errorCode, 'access_pass_expired');
+    }
+  });
+
+  it('requires signing keys and sync settlement for pass requirements', () => {
+    const base = {
+      network: 'devnet' as const,
+      rpcEndpoint: 'http://127.0.0.1:1',
+      paymentRequirements: [
+        { mint: 'mint', amount: '1', recipient: 'r', accessPass: { durationSeconds: 60 } },
+      ],
+    };
+    assert.throws(() => createResourceServerCore(base), /signing keys/);
+    assert.throws(
+      () =>
+        createResourceServerCore({
+          ...base,
+          accessPasses: { keys: [CURRENT_KEY] },
+          settlementMode: 'optimistic',
+        }),
+      /sync settlement/
+    );
+  });
+});
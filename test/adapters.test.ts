@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  getPaymentResponse,
+  PaymentRequiredResponse,
+  withX402Payment,
+  wrapFetchWithPayment,
+  x402Fastify,
+  x402Hono,
+  x402Koa,
+  x402NodeHttp,
+} from '../src';
+import { createTestSetup, TestSetup } from './helpers';
+
+const RESOURCE_URL = 'http://localhost/api/data';
+const CONTENT = { data: 'paid content' };
+
+/** JSON response with the headers an adapter set */
+function json(body: unknown, status: number, headers: Headers = new Headers()): Response {
+  headers.set('content-type', 'application/json');
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/** Plain header record of a Fetch API request, like Koa and Fastify expose */
+function headerRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+/**
+ * Each adapter is driven through a fetch function, so the same payment flow
+ * runs against all of them
+ */
+describe('framework adapters', () => {
+  let setup: TestSetup;
+
+  beforeEach(async () => {
+    setup = await createTestSetup();
+  });
+
+  /** Request once unpaid, then pay through wrapFetchWithPayment */
+  async function checkPaymentFlow(
+    adapterFetch: typeof fetch,
+    url: string = RESOURCE_URL
+  ): Promise<void> {
+    const unpaid = await adapterFetch(url);
+    const body = (await unpaid.json()) as PaymentRequiredResponse;
+    assert.equal(unpaid.status, 402);
+    assert.equal(body.errorCode, 'payment_required');
+    assert.equal(body.accepts?.[0].resource, url);
+
+    const fetchWithPayment = wrapFetchWithPayment(adapterFetch, setup.payer, {
+      network: 'devnet',
+      rpc: setup.fakeRpc.rpc,
+    });
+    const paid = await fetchWithPayment(url);
+    assert.equal(paid.status, 200);
+    assert.deepEqual(await paid.json(), CONTENT);
+    assert.equal(getPaymentResponse(paid)?.success, true);
+    assert.equal(
+      await setup.fakeRpc.getTokenBalance(setup.recipient, setup.mint),
+      50000n
+    );
+  }
+
+  it('withX402Payment wraps Fetch API handlers', async () => {
+    const handler = withX402Payment(setup.options, () => Response.json(CONTENT));
+
+    await checkPaymentFlow(async (input, init) => handler(new Request(input, init)));
+  });
+
+  it('x402Hono guards Hono routes', async () => {
+    const middleware = x402Hono(setup.options);
+
+    await checkPaymentFlow(async (input, init) => {
+      const headers = new Headers();
+      const c = {
+        req: { raw: new Request(input, init) },
+        header: (name: string, value: string) => headers.set(name, value),
+        res: undefined as { status: number } | undefined,
+      };
+      const early = await middleware(c, async () => {
+        c.res = { status: 200 };
+      });
+      return early || json(CONTENT, 200, headers);
+    });
+  });
+
+  it('x402Koa guards Koa routes', async () => {
+    const middleware = x402Koa(setup.options);
+
+    await checkPaymentFlow(async (input, init) => {
+      const request = new Request(input, init);
+      const url = new URL(request.url);
+      const headers = new Headers();
+      const ctx = {
+        headers: headerRecord(request.headers),
+        path: url.pathname,
+        href: url.href,
+        status: 404,
+        body: undefined as unknown,
+        set: (name: string, value: string) => headers.set(name, value),
+      };
+      await middleware(ctx, async () => {
+        ctx.status = 200;
+        ctx.body = CONTENT;
+      });
+      return json(ctx.body, ctx.status, headers);
+    });
+  });
+
+  it('x402Fastify guards Fastify routes', async () => {
+    const preHandler = x402Fastify(setup.options);
+
+    await checkPaymentFlow(async (input, init) => {
+      const request = new Request(input, init);
+      const url = new URL(request.url);
+      const headers = new Headers();
+      let status = 200;
+      let sent: unknown;
+      const reply = {
+        code(statusCode: number) {
+          status = statusCode;
+          return reply;
+        },
+        header(name: string, value: string) {
+          headers.set(name, value);
+          return reply;
+        },
+        send(payload?: unknown) {
+          sent = payload;
+          return reply;
+        },
+      };
+      await preHandler(
+        {
+          headers: headerRecord(request.headers),
+          url: `${url.pathname}${url.search}`,
+          protocol: url.protocol.slice(0, -1),
+          hostname: url.host,
+        },
+        reply
+      );
+      return json(sent ?? CONTENT, status, headers);
+    });
+  });
+
+  describe('x402NodeHttp', () => {
+    let server: http.Server;
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('guards node:http servers', async () => {
+      const requirePayment = x402NodeHttp(setup.options);
+      server = http.createServer(async (req, res) => {
+        if (!(await requirePayment(req, res))) {
+          return;
+        }
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(CONTENT));
+      });
+      server.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+
+      const { port } = server.address() as AddressInfo;
+      await checkPaymentFlow(fetch, `http://127.0.0.1:${port}/api/data`);
+    });
+  });
+});
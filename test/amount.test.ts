@@ -0,0 +1,61 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatAtomicAmount, PaymentRequiredResponse, toAtomicAmount } from '../src';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('toAtomicAmount', () => {
+  it('converts decimal amounts exactly', () => {
+    // parseFloat('0.29') * 1e6 is 289999.99999999994
+    assert.equal(toAtomicAmount('0.29', 6), 290000n);
+    assert.equal(toAtomicAmount(0.29, 6), 290000n);
+    assert.equal(toAtomicAmount(' 1.10 ', 6), 1100000n);
+    assert.equal(toAtomicAmount('1.500000000', 6), 1500000n);
+    assert.equal(toAtomicAmount('5', 0), 5n);
+    assert.equal(
+      toAtomicAmount('123456789012.345678901234567891', 18),
+      123456789012345678901234567891n
+    );
+  });
+
+  it('accepts exponents', () => {
+    assert.equal(toAtomicAmount('1e-6', 6), 1n);
+    assert.equal(toAtomicAmount('2.5E3', 6), 2500000000n);
+    assert.equal(toAtomicAmount(1e21, 0), 10n ** 21n);
+  });
+
+  it('rejects malformed, negative and too precise amounts', () => {
+    for (const amount of ['', 'abc', '-1', '.5', '1.2.3', '0x10', 'NaN']) {
+      assert.throws(() => toAtomicAmount(amount, 6), /Invalid amount/);
+    }
+    assert.throws(() => toAtomicAmount(-0.5, 6), /Invalid amount/);
+    assert.throws(() => toAtomicAmount('0.0000001', 6), /more than 6 decimal places/);
+    assert.throws(() => toAtomicAmount(1e-7, 6), /more than 6 decimal places/);
+  });
+});
+
+describe('formatAtomicAmount', () => {
+  it('formats atomic units without trailing zeros', () => {
+    assert.equal(formatAtomicAmount(290000n, 6), '0.29');
+    assert.equal(formatAtomicAmount(1n, 9), '0.000000001');
+    assert.equal(formatAtomicAmount(1000000n, 6), '1');
+    assert.equal(formatAtomicAmount(0n, 6), '0');
+    assert.equal(formatAtomicAmount(-1500000n, 6), '-1.5');
+    assert.equal(formatAtomicAmount(42n, 0), '42');
+  });
+});
+
+describe('payment requirement amounts', () => {
+  let gateway: TestGateway;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it('advertises the exact atomic amount of the configured price', async () => {
+    gateway = await startTestGateway({}, '0.29');
+
+    const body = (await (await fetch(gateway.url)).json()) as PaymentRequiredResponse;
+    assert.equal(body.accepts?.[0].maxAmountRequired, '290000');
+    assert.equal(body.accepts?.[0].extra?.amount, '0.29');
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner, KeyPairSigner } from '@solana/kit';
+import { getPaymentResponse, wrapFetchWithPayment } from '../src';
+import { buildPaymentTransaction } from '../src/paymentTransaction';
+import {
+  resolveConfirmationSettings,
+  waitForConfirmation,
+} from '../src/transactionConfirmation';
+import { PaymentRequirement } from '../src/types';
+import { FakeSolanaRpc, createFakeRpc, createTestPayer } from '../src/testing';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('resolveConfirmationSettings', () => {
+  const requirement = (amountAtomic: string, mint = 'usdc'): PaymentRequirement => ({
+    network: 'devnet',
+    assetType: 'spl-token',
+    mint,
+    amount: '0',
+    amountAtomic,
+    decimals: 6,
+    recipient: 'recipient',
+    reference: 'reference',
+    expires_in: 300,
+  });
+  const options = {
+    commitment: 'processed' as const,
+    timeoutSeconds: 10,
+    tiers: [
+      { minAmount: '1', commitment: 'confirmed' as const },
+      { minAmount: '100', mint: 'usdc', commitment: 'finalized' as const, timeoutSeconds: 60 },
+    ],
+  };
+
+  it('picks the tier with the highest matching minimum', () => {
+    assert.deepEqual(resolveConfirmationSettings(options, requirement('999999')), {
+      commitment: 'processed',
+      timeoutMs: 10000,
+    });
+    assert.deepEqual(resolveConfirmationSettings(options, requirement('1000000')), {
+      commitment: 'confirmed',
+      timeoutMs: 10000,
+    });
+    assert.deepEqual(resolveConfirmationSettings(options, requirement('100000000')), {
+      commitment: 'finalized',
+      timeoutMs: 60000,
+    });
+    assert.deepEqual(
+      resolveConfirmationSettings(options, requirement('100000000', 'other')),
+      { commitment: 'confirmed', timeoutMs: 10000 }
+    );
+  });
+
+  it('defaults to confirmed within 30 seconds', () => {
+    assert.deepEqual(resolveConfirmationSettings(), {
+      commitment: 'confirmed',
+      timeoutMs: 30000,
+    });
+  });
+});
+
+describe('waitForConfirmation', () => {
+  let fakeRpc: FakeSolanaRpc;
+  let payer: KeyPairSigner;
+  let requirement: PaymentRequirement;
+
+  beforeEach(async () => {
+    fakeRpc = createFakeRpc();
+    const mint = await fakeRpc.createMint({ decimals: 6 });
+    payer = await createTestPayer(fakeRpc, { tokens: [{ mint, amount: '1' }] });
+    requirement = {
+      network: 'devnet',
+      assetType: 'spl-token',
+      mint,
+      amount: '0.25',
+      amountAtomic: '250000',
+      decimals: 6,
+      recipient: (await generateKeyPairSigner()).address,
+      reference: (await generateKeyPairSigner()).address,
+      expires_in: 300,
+    };
+  });
+
+  /** Send a payment, returning its signature and blockhash */
+  async function send(): Promise<{ signature: string; recentBlockhash: string }> {
+    const { value } = await (fakeRpc.rpc.getLatestBlockhash as any)().send();
+    const transaction = await buildPaymentTransaction(requirement, payer, fakeRpc.rpc, {
+      createRecipientTokenAccount: true,
+    });
+    const signature = await (fakeRpc.rpc.sendTransaction as any)(transaction, {
+      encoding: 'base64',
+    }).send();
+    return { signature, recentBlockhash: value.blockhash };
+  }
+
+  it('waits for finalization of a transaction with a recent blockhash', async () => {
+    fakeRpc.injectFault('sendTransaction', {
+      type: 'delayedConfirmation',
+      confirmAfterMs: 0,
+      finalizeAfterMs: 100,
+    });
+    const { signature, recentBlockhash } = await send();
+
+    const result = await waitForConfirmation(signature, fakeRpc.rpc, {
+      commitment: 'finalized',
+      timeoutMs: 2000,
+      recentBlockhash,
+      pollIntervalMs: 10,
+    });
+    assert.deepEqual(result, { success: true });
+  });
+
+  it('keeps waiting for finalization once a transaction landed before expiry', async () => {
+    fakeRpc.injectFault('sendTransaction', {
+      type: 'delayedConfirmation',
+      confirmAfterMs: 0,
+      finalizeAfterMs: 100,
+    });
+    const { signature, recentBlockhash } = await send();
+    fakeRpc.advanceBlocks(200);
+
+    const result = await waitForConfirmation(signature, fakeRpc.rpc, {
+      commitment: 'finalized',
+      timeoutMs: 2000,
+      recentBlockhash,
+      pollIntervalMs: 10,
+    });
+    assert.deepEqual(result, { success: true });
+  });
+
+  it('fails fast once the blockhash of an unlanded transaction expired', async () => {
+    const { value } = await (fakeRpc.rpc.getLatestBlockhash as any)().send();
+    fakeRpc.advanceBlocks(151);
+
+    const unknownSignature = '1'.repeat(64);
+    const started = Date.now();
+    const result = await waitForConfirmation(unknownSignature, fakeRpc.rpc, {
+      commitment: 'finalized',
+      timeoutMs: 2000,
+      lastValidBlockHeight: BigInt(value.lastValidBlockHeight),
+      pollIntervalMs: 10,
+    });
+    assert.equal(result.errorCode, 'blockhash_expired');
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe('confirmation tiers', () => {
+  let gateway: TestGateway;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it('settles payments of a finalized tier', async () => {
+    gateway = await startTestGateway({
+      confirmation: {
+        subscriptionsEndpoint: false,
+        pollIntervalMs: 10,
+        tiers: [{ minAmount: '0.01', commitment: 'finalized' }],
+      },
+    });
+    gateway.fakeRpc.injectFault('sendTransaction', {
+      type: 'delayedConfirmation',
+      confirmAfterMs: 20,
+      finalizeAfterMs: 200,
+    });
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+
+    const response = await fetchWithPayment(gateway.url);
+    assert.equal(response.status, 200);
+    const [signature] = gateway.fakeRpc.sentSignatures;
+    assert.equal(getPaymentResponse(response)?.transaction, signature);
+    const status = await (gateway.fakeRpc.rpc.getSignatureStatuses as any)([signature]).send();
+    assert.equal(status.value[0].confirmationStatus, 'finalized');
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CreditHistoryResponse,
+  createCreditsAuthHeader,
+  createResourceServerCore,
+  getCreditsBalance,
+  getPaymentResponse,
+  PaymentRequiredResponse,
+  PaymentState,
+  wrapFetchWithPayment,
+} from '../src';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('prepaid credits', () => {
+  let gateway: TestGateway;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  function creditsFetch(): typeof fetch {
+    return wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+      credits: true,
+    });
+  }
+
+  async function spend(url: string = gateway.url): Promise<Response> {
+    const auth = await createCreditsAuthHeader(
+      gateway.payer,
+      new URL(url).pathname
+    );
+    return fetch(url, { headers: { 'X-CREDITS-AUTH': auth } });
+  }
+
+  it('tops up on the first 402 and spends credits until they run out', async () => {
+    gateway = await startTestGateway({ credits: { topUpCredits: 3 } });
+    const fetchWithPayment = creditsFetch();
+
+    const topUp = await fetchWithPayment(gateway.url);
+    assert.equal(topUp.status, 200);
+    assert.equal(getPaymentResponse(topUp)?.success, true);
+    assert.equal(getCreditsBalance(topUp), 2);
+
+    for (const balance of [1, 0]) {
+      const response = await fetchWithPayment(gateway.url);
+      assert.equal(response.status, 200);
+      assert.equal(getPaymentResponse(response), null);
+      assert.equal(getCreditsBalance(response), balance);
+    }
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+
+    const renewed = await fetchWithPayment(gateway.url);
+    assert.equal(renewed.status, 200);
+    assert.equal(getCreditsBalance(renewed), 2);
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 2);
+  });
+
+  it('charges route costs and reports balance and usage history', async () => {
+    gateway = await startTestGateway({
+      credits: { topUpCredits: 10, routeCosts: { '/api/data': 4 } },
+    });
+    await creditsFetch()(gateway.url);
+    const creditsUrl = new URL('/api/x402/credits', gateway.url).toString();
+
+    const balance = await spend(creditsUrl);
+    assert.equal(balance.status, 200);
+    assert.deepEqual(await balance.json(), {
+      payer: gateway.payer.address,
+      balance: 6,
+    });
+
+    const history = await spend(`${creditsUrl}/history`);
+    const body = (await history.json()) as CreditHistoryResponse;
+    assert.deepEqual(
+      body.history.map(({ type, credits, balance }) => [type, credits, balance]),
+      [
+        ['usage', 4, 6],
+        ['top-up', 10, 10],
+      ]
+    );
+    assert.equal(body.history[1].signature, gateway.fakeRpc.sentSignatures[0]);
+
+    assert.equal((await fetch(creditsUrl)).status, 401);
+  });
+
+  it('answers 503 when the payment store fails', async () => {
+    const store = new PaymentState();
+    gateway = await startTestGateway({ store, credits: { topUpCredits: 5 } });
+    await creditsFetch()(gateway.url);
+    const creditsUrl = new URL('/api/x402/credits', gateway.url).toString();
+    store.getCreditBalance = async () => {
+      throw new Error('store offline');
+    };
+
+    const response = await spend(creditsUrl);
+    assert.equal(response.status, 503);
+    assert.equal(
+      ((await response.json()) as { errorCode: string }).errorCode,
+      'store_unavailable'
+    );
+  });
+
+  it('rejects replayed and foreign credit authorizations', async () => {
+    gateway = await startTestGateway({ credits: { topUpCredits: 5 } });
+    await creditsFetch()(gateway.url);
+
+    const auth = await createCreditsAuthHeader(gateway.payer, '/api/data');
+    const first = await fetch(gateway.url, { headers: { 'X-CREDITS-AUTH': auth } });
+    assert.equal(first.status, 200);
+
+    const replayed = await fetch(gateway.url, { headers: { 'X-CREDITS-AUTH': auth } });
+    const replayedBody = (await replayed.json()) as PaymentRequiredResponse;
+    assert.equal(replayed.status, 402);
+    assert.equal(replayedBody.errorCode, 'invalid_credits_auth');
+
+    const otherRoute = await createCreditsAuthHeader(gateway.payer, '/api/other');
+    const rejected = await fetch(gateway.url, {
+      headers: { 'X-CREDITS-AUTH': otherRoute },
+    });
+    const rejectedBody = (await rejected.json()) as PaymentRequiredResponse;
+    assert.equal(rejectedBody.errorCode, 'invalid_credits_auth');
+  });
+
+  it("doesn't overspend a balance under concurrent requests", async () => {
+    gateway = await startTestGateway({ credits: { topUpCredits: 3 } });
+    await creditsFetch()(gateway.url);
+
+    const responses = await Promise.all(
+      Array.from({ length: 6 }, () => spend())
+    );
+    const statuses = responses.map((response) => response.status).sort();
+    assert.deepEqual(statuses, [200, 200, 402, 402, 402, 402]);
+    const rejected = responses.find((response) => response.status === 402)!;
+    const body = (await rejected.json()) as PaymentRequiredResponse;
+    assert.equal(body.errorCode, 'insufficient_credits');
+  });
+});
+
+describe('credits options', () => {
+  it('requires sync settlement and whole credit amounts', () => {
+    const base = {
+      network: 'devnet' as const,
+      rpcEndpoint: 'http://127.0.0.1:1',
+      paymentRequirements: [],
+    };
+    assert.throws(
+      () =>
+        createResourceServerCore({
+          ...base,
+          settlementMode: 'async',
+          credits: { topUpCredits: 10 },
+        }),
+      /sync settlement/
+    );
+    assert.throws(
+      () => createResourceServerCore({ ...base, credits: { topUpCredits: 1.5 } }),
+      /positive integers/
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { RequestHandler } from 'express';
+import { AddressInfo } from 'net';
+import { generateKeyPairSigner, KeyPairSigner } from '@solana/kit';
+import {
+  createFacilitatorClient,
+  createLocalFacilitator,
+  PaymentRequiredResponse,
+  wrapFetchWithPayment,
+  x402Facilitator,
+} from '../src';
+import { createPaymentHeaderForResponse } from '../src/paymentClient';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('gasless fee budget', () => {
+  let gateway: TestGateway;
+  let feePayer: KeyPairSigner;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  /** Start a gateway paying fees of up to 15000 lamports per payer, one gasless payment costs 10000 */
+  async function startGaslessGateway(): Promise<void> {
+    feePayer = await generateKeyPairSigner();
+    gateway = await startTestGateway({
+      feePayer: { signer: feePayer, maxFeeLamportsPerPayer: 15000 },
+    });
+    gateway.fakeRpc.airdrop(feePayer.address, 1_000_000_000n);
+  }
+
+  async function pay(): Promise<Response> {
+    const body = (await (await fetch(gateway.url)).json()) as PaymentRequiredResponse;
+    assert.equal(body.accepts?.[0].extra?.feePayer, feePayer.address);
+    const paymentHeader = await createPaymentHeaderForResponse(
+      body,
+      gateway.url,
+      gateway.payer,
+      { network: 'devnet' },
+      gateway.fakeRpc.rpc
+    );
+    return fetch(gateway.url, { headers: { 'X-PAYMENT': paymentHeader } });
+  }
+
+  it('pays the fees of concurrent payments only within the budget', async () => {
+    await startGaslessGateway();
+
+    const responses = await Promise.all([pay(), pay()]);
+    const statuses = responses.map((response) => response.status).sort();
+    assert.deepEqual(statuses, [200, 402]);
+    const rejected = responses.find((response) => response.status === 402)!;
+    assert.equal(
+      ((await rejected.json()) as { errorCode: string }).errorCode,
+      'fee_budget_exceeded'
+    );
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+
+  it('releases the reserved fee when the transaction is never submitted', async () => {
+    await startGaslessGateway();
+    gateway.fakeRpc.injectFault('sendTransaction', { type: 'unavailable' });
+
+    assert.equal((await pay()).status, 503);
+    assert.equal((await pay()).status, 200);
+  });
+});
+
+describe('x402Facilitator', () => {
+  let gateway: TestGateway | undefined;
+  let close: (() => void) | undefined;
+
+  afterEach(async () => {
+    await gateway?.close();
+    close?.();
+  });
+
+  it('refuses to pay fees without an API key', async () => {
+    const options = {
+      network: 'devnet' as const,
+      rpcEndpoint: 'http://127.0.0.1:8899',
+      feePayer: { signer: await generateKeyPairSigner() },
+      logger: () => undefined,
+    };
+
+    assert.throws(() => x402Facilitator(options), /apiKey is required/);
+    assert.doesNotThrow(() => x402Facilitator({ ...options, apiKey: 'key' }));
+  });
+
+  it('refuses optimistic payments a remote facilitator failed to settle', async () => {
+    // The facilitator service needs the gateway's fake RPC, it is mounted once the gateway runs
+    let service: RequestHandler = (_req, _res, next) => next();
+    const app = express();
+    app.use('/facilitator', express.json(), (req, res, next) => service(req, res, next));
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    close = () => server.close();
+
+    gateway = await startTestGateway({
+      facilitator: createFacilitatorClient(
+        `http://127.0.0.1:${(server.address() as AddressInfo).port}/facilitator`,
+        { apiKey: 'key' }
+      ),
+      settlementMode: 'optimistic',
+    });
+    const options = {
+      network: 'devnet' as const,
+      confirmation: { subscriptionsEndpoint: false as const, pollIntervalMs: 10 },
+      apiKey: 'key',
+      logger: () => undefined,
+    };
+    service = x402Facilitator(options, createLocalFacilitator(options, gateway.fakeRpc.rpc));
+    gateway.fakeRpc.injectFault('sendTransaction', { type: 'transactionFailed' });
+
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+    const response = await fetchWithPayment(gateway.url);
+    assert.equal(response.status, 402);
+    assert.equal(((await response.json()) as PaymentRequiredResponse).errorCode, 'transaction_failed');
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+});
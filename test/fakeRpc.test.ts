@@ -0,0 +1,112 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner, isSolanaError, KeyPairSigner } from '@solana/kit';
+import { isRpcUnavailableError } from '../src/rpcClient';
+import { buildPaymentTransaction } from '../src/paymentTransaction';
+import { PaymentRequirement } from '../src/types';
+import { FakeSolanaRpc, createFakeRpc, createTestPayer } from '../src/testing';
+
+describe('FakeSolanaRpc', () => {
+  let fakeRpc: FakeSolanaRpc;
+  let mint: string;
+  let payer: KeyPairSigner;
+  let recipient: string;
+
+  beforeEach(async () => {
+    fakeRpc = createFakeRpc();
+    mint = await fakeRpc.createMint({ decimals: 6 });
+    payer = await createTestPayer(fakeRpc, { tokens: [{ mint, amount: '1' }] });
+    recipient = (await generateKeyPairSigner()).address;
+  });
+
+  async function buildTransfer(amount: string, amountAtomic: string): Promise<string> {
+    const requirement: PaymentRequirement = {
+      network: 'devnet',
+      assetType: 'spl-token',
+      mint,
+      amount,
+      amountAtomic,
+      decimals: 6,
+      recipient,
+      reference: (await generateKeyPairSigner()).address,
+      expires_in: 300,
+    };
+    return buildPaymentTransaction(requirement, payer, fakeRpc.rpc, {
+      createRecipientTokenAccount: true,
+    });
+  }
+
+  async function send(transaction: string, skipPreflight = false): Promise<string> {
+    return (fakeRpc.rpc.sendTransaction as any)(transaction, {
+      encoding: 'base64',
+      skipPreflight,
+    }).send();
+  }
+
+  it('funds test payers with SOL and tokens', async () => {
+    assert.equal(fakeRpc.getLamports(payer.address), 1_000_000_000n);
+    assert.equal(await fakeRpc.getTokenBalance(payer.address, mint), 1_000_000n);
+    const supply = await (fakeRpc.rpc.getTokenSupply as any)(mint).send();
+    assert.equal(supply.value.amount, '1000000');
+  });
+
+  it('executes signed transfers and charges fees', async () => {
+    const signature = await send(await buildTransfer('0.25', '250000'));
+
+    assert.equal(await fakeRpc.getTokenBalance(recipient, mint), 250_000n);
+    assert.equal(await fakeRpc.getTokenBalance(payer.address, mint), 750_000n);
+    const record = fakeRpc.getTransactionRecord(signature);
+    assert.equal(record?.err, null);
+    assert.equal(record?.fee, 5000n);
+  });
+
+  it('rolls back failed transactions but keeps the fee', async () => {
+    const lamports = fakeRpc.getLamports(payer.address);
+    const signature = await send(await buildTransfer('2', '2000000'), true);
+
+    const record = fakeRpc.getTransactionRecord(signature);
+    assert.deepEqual(record?.err, { InstructionError: [2, { Custom: 1 }] });
+    assert.equal(fakeRpc.getLamports(payer.address), lamports - 5000n);
+    assert.equal(await fakeRpc.getTokenBalance(payer.address, mint), 1_000_000n);
+    assert.equal(await fakeRpc.getTokenBalance(recipient, mint), 0n);
+  });
+
+  it('rejects failing transactions in preflight', async () => {
+    const transaction = await buildTransfer('2', '2000000');
+
+    await assert.rejects(send(transaction), (error) => isSolanaError(error));
+    assert.equal(fakeRpc.sentSignatures.length, 0);
+  });
+
+  it('rejects transactions whose blockhash expired', async () => {
+    const transaction = await buildTransfer('0.25', '250000');
+    fakeRpc.advanceBlocks(151);
+
+    await assert.rejects(send(transaction), (error) => isSolanaError(error));
+  });
+
+  it('reports confirmation status once the delay passed', async () => {
+    fakeRpc.injectFault('sendTransaction', {
+      type: 'delayedConfirmation',
+      confirmAfterMs: 50,
+    });
+    const signature = await send(await buildTransfer('0.25', '250000'));
+    const status = async () =>
+      (await (fakeRpc.rpc.getSignatureStatuses as any)([signature]).send())
+        .value[0].confirmationStatus;
+
+    assert.equal(await status(), 'processed');
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.equal(await status(), 'finalized');
+  });
+
+  it('throws injected transport faults once', async () => {
+    fakeRpc.injectFault('getLatestBlockhash', { type: 'httpError', statusCode: 429 });
+
+    await assert.rejects(
+      (fakeRpc.rpc.getLatestBlockhash as any)().send(),
+      (error) => isRpcUnavailableError(error)
+    );
+    await (fakeRpc.rpc.getLatestBlockhash as any)().send();
+  });
+});
@@ -0,0 +1,99 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { generateKeyPairSigner, KeyPairSigner } from '@solana/kit';
+import {
+  PaymentRequirementConfig,
+  ResourceServerOptions,
+  x402ResourceServer,
+} from '../src';
+import { FakeSolanaRpc, createFakeRpc, createTestPayer } from '../src/testing';
+
+export interface TestGateway {
+  url: string;
+  fakeRpc: FakeSolanaRpc;
+  mint: string;
+  recipient: string;
+  payer: KeyPairSigner;
+  close(): Promise<void>;
+}
+
+export interface TestSetup {
+  fakeRpc: FakeSolanaRpc;
+  mint: string;
+  recipient: string;
+  payer: KeyPairSigner;
+  /** Resource server options charging `price` on the fake RPC */
+  options: ResourceServerOptions;
+}
+
+/**
+ * Create a fake ledger with a mint, a recipient and a payer holding 10 tokens,
+ * and resource server options charging `price` (default: 0.05) to the recipient
+ * `requirement` overrides fields of the payment requirement
+ */
+export async function createTestSetup(
+  price: string = '0.05',
+  requirement: Partial<PaymentRequirementConfig> = {}
+): Promise<TestSetup> {
+  const fakeRpc = createFakeRpc();
+  const mint = await fakeRpc.createMint({ decimals: 6 });
+  const recipient = (await generateKeyPairSigner()).address;
+  await fakeRpc.mintTo(recipient, mint, 0n);
+  const payer = await createTestPayer(fakeRpc, {
+    tokens: [{ mint, amount: '10' }],
+  });
+
+  return {
+    fakeRpc,
+    mint,
+    recipient,
+    payer,
+    options: {
+      network: 'devnet',
+      rpc: fakeRpc.rpc,
+      confirmation: { subscriptionsEndpoint: false, pollIntervalMs: 10 },
+      paymentRequirements: [{ mint, amount: price, recipient, ...requirement }],
+      logger: () => undefined,
+    },
+  };
+}
+
+/**
+ * Start an Express app with a paywalled GET /api/data route on a random port
+ * GET /api/fail is paywalled too and answers 500
+ * The payer holds 10 tokens; the route costs `price` (default: 0.05)
+ * `requirement` overrides fields of the payment requirement
+ */
+export async function startTestGateway(
+  options: Partial<ResourceServerOptions> = {},
+  price: string = '0.05',
+  requirement: Partial<PaymentRequirementConfig> = {}
+): Promise<TestGateway> {
+  const { fakeRpc, mint, recipient, payer, options: defaults } =
+    await createTestSetup(price, requirement);
+
+  const app = express();
+  app.use('/api', x402ResourceServer({ ...defaults, ...options }));
+  app.get('/api/data', (_req, res) => {
+    res.json({ data: 'paid content' });
+  });
+  app.get('/api/fail', (_req, res) => {
+    res.status(500).json({ error: 'handler failed' });
+  });
+
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api/data`,
+    fakeRpc,
+    mint,
+    recipient,
+    payer,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,113 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  exportLedger,
+  FilePaymentLedger,
+  MemoryPaymentLedger,
+  reconcileLedger,
+  wrapFetchWithPayment,
+} from '../src';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('payment ledger', () => {
+  let gateway: TestGateway;
+  let ledger: MemoryPaymentLedger;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  async function payTwice(): Promise<void> {
+    ledger = new MemoryPaymentLedger();
+    gateway = await startTestGateway({ ledger });
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+    for (let i = 0; i < 2; i++) {
+      assert.equal((await fetchWithPayment(gateway.url)).status, 200);
+    }
+  }
+
+  it('records settled payments with their signature and slot', async () => {
+    await payTwice();
+    const entries = await ledger.list();
+    assert.equal(entries.length, 2);
+    const [entry] = entries;
+    assert.equal(entry.signature, gateway.fakeRpc.sentSignatures[0]);
+    assert.equal(entry.slot, Number(gateway.fakeRpc.getTransactionRecord(entry.signature)!.slot));
+    assert.equal(entry.payer, gateway.payer.address);
+    assert.equal(entry.route, '/api/data');
+    assert.equal(entry.mint, gateway.mint);
+    assert.equal(entry.amountAtomic, '50000');
+    assert.equal(entry.requirement.reference, entry.reference);
+
+    const csv = exportLedger(entries, 'csv').trimEnd().split('\r\n');
+    assert.equal(csv.length, 3);
+    assert.ok(csv[0].startsWith('timestamp,reference,route,'));
+    assert.ok(csv[1].includes(entry.signature));
+    const jsonl = exportLedger(entries, 'jsonl').trimEnd().split('\n');
+    assert.equal(jsonl.length, 2);
+    assert.equal(JSON.parse(jsonl[1]).requirement.reference, entries[1].reference);
+  });
+
+  it('reconciles unrecorded payments and unknown ledger transactions', async () => {
+    await payTwice();
+    const [first, second] = await ledger.list();
+    const partial = new MemoryPaymentLedger();
+    await partial.record(first);
+    await partial.record({ ...first, reference: 'lost', signature: 'unknown' });
+
+    const report = await reconcileLedger({
+      ledger: partial,
+      rpc: gateway.fakeRpc.rpc,
+      paymentRequirements: [
+        { mint: gateway.mint, amount: '0.05', recipient: gateway.recipient },
+      ],
+    });
+    assert.equal(report.checkedSignatures, 2);
+    assert.deepEqual(
+      report.missingFromLedger.map((payment) => [payment.signature, payment.amountAtomic]),
+      [[second.signature, '50000']]
+    );
+    assert.deepEqual(
+      report.notFinalized.map(({ entry, status }) => [entry.reference, status]),
+      [['lost', 'not_found']]
+    );
+  });
+});
+
+describe('FilePaymentLedger', () => {
+  it('keeps entries across instances and filters them', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'x402-ledger-'));
+    try {
+      const filePath = join(dir, 'ledger.jsonl');
+      const entry = {
+        reference: 'ref',
+        route: '/api/data',
+        network: 'devnet',
+        payer: 'payer',
+        assetType: 'spl-token' as const,
+        mint: 'mint',
+        amountAtomic: '1',
+        decimals: 6,
+        recipient: 'recipient, "main"',
+        signature: 'sig',
+        timestamp: 1000,
+        requirement: {} as any,
+      };
+      await new FilePaymentLedger(filePath).record(entry);
+      await new FilePaymentLedger(filePath).record({ ...entry, timestamp: 2000 });
+
+      const reloaded = new FilePaymentLedger(filePath);
+      assert.equal((await reloaded.list()).length, 2);
+      assert.deepEqual(await reloaded.list({ since: 1500 }), [{ ...entry, timestamp: 2000 }]);
+      assert.ok(exportLedger([entry], 'csv').includes(',"recipient, ""main""",sig,\r\n'));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  getTransactionDecoder,
+  KeyPairSigner,
+  partiallySignTransaction,
+} from '@solana/kit';
+import {
+  buildPaymentTransaction,
+  NATIVE_SOL_MINT,
+  PaymentRequiredResponse,
+  PaymentRequirement,
+  wrapFetchWithPayment,
+} from '../src';
+import { verifyTransactionConfirmed } from '../src/transactionHandler';
+import { FakeSolanaRpc, createFakeRpc, createTestPayer } from '../src/testing';
+import { startTestGateway, TestGateway } from './helpers';
+
+/** Lamport balance of an account on the fake ledger */
+async function getLamports(fakeRpc: FakeSolanaRpc, account: string): Promise<bigint> {
+  const { value } = await (fakeRpc.rpc.getBalance as any)(account).send();
+  return BigInt(value);
+}
+
+describe('native SOL payments', () => {
+  let gateway: TestGateway;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it('advertises and settles lamport payments', async () => {
+    gateway = await startTestGateway({}, '0.01', { assetType: 'native', mint: undefined });
+
+    const body = (await (await fetch(gateway.url)).json()) as PaymentRequiredResponse;
+    const [accepted] = body.accepts!;
+    assert.equal(accepted.asset, NATIVE_SOL_MINT);
+    assert.equal(accepted.maxAmountRequired, '10000000');
+    assert.equal(accepted.extra?.decimals, 9);
+
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+    const response = await fetchWithPayment(gateway.url);
+    assert.equal(response.status, 200);
+    assert.equal(await getLamports(gateway.fakeRpc, gateway.recipient), 10_000_000n);
+  });
+});
+
+describe('verifyTransactionConfirmed with native SOL', () => {
+  let fakeRpc: FakeSolanaRpc;
+  let payer: KeyPairSigner;
+  let recipient: KeyPairSigner;
+  let requirement: PaymentRequirement;
+
+  beforeEach(async () => {
+    fakeRpc = createFakeRpc();
+    payer = await createTestPayer(fakeRpc);
+    recipient = await generateKeyPairSigner();
+    requirement = {
+      network: 'devnet',
+      assetType: 'native',
+      mint: NATIVE_SOL_MINT,
+      amount: '0.001',
+      amountAtomic: '1000000',
+      decimals: 9,
+      recipient: recipient.address,
+      reference: (await generateKeyPairSigner()).address,
+      expires_in: 300,
+    };
+  });
+
+  async function send(transaction: string): Promise<string> {
+    return (fakeRpc.rpc.sendTransaction as any)(transaction, { encoding: 'base64' }).send();
+  }
+
+  it('checks the lamports the recipient received', async () => {
+    const signature = await send(
+      await buildPaymentTransaction(requirement, payer, fakeRpc.rpc)
+    );
+
+    const result = await verifyTransactionConfirmed(signature, requirement, fakeRpc.rpc);
+    assert.equal(result.valid, true);
+    assert.equal(result.payer, payer.address);
+
+    const short = await verifyTransactionConfirmed(
+      signature,
+      { ...requirement, amountAtomic: '1000001' },
+      fakeRpc.rpc
+    );
+    assert.equal(short.errorCode, 'insufficient_amount');
+    assert.match(short.error!, /required 0\.001000001 SOL, but recipient would receive 0\.001 SOL/);
+
+    const other = await verifyTransactionConfirmed(
+      signature,
+      { ...requirement, recipient: (await generateKeyPairSigner()).address },
+      fakeRpc.rpc
+    );
+    assert.equal(other.errorCode, 'recipient_mismatch');
+  });
+
+  it('adds the fee back when the recipient pays it', async () => {
+    fakeRpc.airdrop(recipient.address, 1_000_000_000n);
+    const unsigned = await buildPaymentTransaction(
+      { ...requirement, feePayer: recipient.address },
+      payer,
+      fakeRpc.rpc
+    );
+    const signed = await partiallySignTransaction(
+      [recipient.keyPair],
+      getTransactionDecoder().decode(Buffer.from(unsigned, 'base64')) as Parameters<
+        typeof partiallySignTransaction
+      >[1]
+    );
+    const signature = await send(getBase64EncodedWireTransaction(signed));
+
+    // The recipient received 0.001 SOL and paid 0.00001 SOL of fees
+    assert.equal(await getLamports(fakeRpc, recipient.address), 1_000_990_000n);
+    const result = await verifyTransactionConfirmed(signature, requirement, fakeRpc.rpc);
+    assert.equal(result.valid, true);
+  });
+});
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'net';
+import { mkdir, mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createRespClient,
+  FilePaymentStore,
+  IssuedReference,
+  PaymentState,
+  PaymentStore,
+  RedisPaymentStore,
+  RespClient,
+} from '../src';
+
+/**
+ * Local stand-in for a Redis server
+ * Speaks RESP2 and supports the commands used by RedisPaymentStore, except EVAL
+ */
+interface RespStandIn {
+  port: number;
+  commands: string[][];
+  close(): Promise<void>;
+}
+
+async function startRespStandIn(password?: string): Promise<RespStandIn> {
+  const values = new Map<string, { value: string; expiry: number }>();
+  const commands: string[][] = [];
+  const get = (key: string) => {
+    const entry = values.get(key);
+    return entry && Date.now() <= entry.expiry ? entry.value : null;
+  };
+  const bulk = (value: string | null) =>
+    value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+  const execute = (args: string[], session: { authenticated: boolean }): string => {
+    const [name, ...params] = args;
+    if (name === 'AUTH') {
+      session.authenticated = params[0] === password;
+      return session.authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+    }
+    if (password && !session.authenticated) {
+      return '-NOAUTH Authentication required.\r\n';
+    }
+    switch (name) {
+      case 'SELECT':
+        return Number(params[0]) < 16 ? '+OK\r\n' : '-ERR DB index is out of range\r\n';
+      case 'GET':
+        return bulk(get(params[0]));
+      case 'EXISTS':
+        return `:${get(params[0]) === null ? 0 : 1}\r\n`;
+      case 'DEL':
+        return `:${values.delete(params[0]) ? 1 : 0}\r\n`;
+      case 'SET': {
+        const [key, value, ...flags] = params;
+        if (flags.includes('NX') && get(key) !== null) {
+          return bulk(null);
+        }
+        const px = flags.indexOf('PX');
+        const expiry = px >= 0 ? Date.now() + Number(flags[px + 1]) : Infinity;
+        values.set(key, { value, expiry });
+        return '+OK\r\n';
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    const session = { authenticated: false };
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      // Commands arrive as arrays of bulk strings
+      for (;;) {
+        const lines = buffer.split('\r\n');
+        const count = Number(lines[0].slice(1));
+        if (!lines[0].startsWith('*') || lines.length < count * 2 + 2) {
+          return;
+        }
+        const args = Array.from({ length: count }, (_, i) => lines[i * 2 + 2]);
+        buffer = lines.slice(count * 2 + 1).join('\r\n');
+        commands.push(args);
+        socket.write(execute(args, session));
+      }
+    });
+  });
+  server.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+function issued(fields: Partial<IssuedReference> = {}): IssuedReference {
+  return {
+    requirementIndex: 0,
+    amount: '50000',
+    route: '/api/data',
+    expiry: Date.now() + 60_000,
+    consumed: false,
+    ...fields,
+  };
+}
+
+/** Checks shared by all payment stores */
+async function checkPaymentStore(store: PaymentStore): Promise<void> {
+  await store.issueReference('ref', issued());
+  assert.equal((await store.getIssuedReference('ref'))?.route, '/api/data');
+  assert.equal(await store.consumeReference('ref'), true);
+  assert.equal(await store.consumeReference('ref'), false);
+  await store.releaseReference('ref');
+  assert.equal(await store.consumeReference('ref'), true);
+  assert.equal(await store.consumeReference('unknown'), false);
+
+  const payment = { signature: 'sig', route: '/api/data', network: 'devnet' };
+  assert.equal(await store.getPayment('ref'), null);
+  await store.markPaid('ref', payment, 60);
+  assert.equal(await store.isPaid('ref'), true);
+  assert.deepEqual(await store.getPayment('ref'), payment);
+
+  assert.equal(await store.markSignatureUsed('sig', 'ref', 60), true);
+  assert.equal(await store.markSignatureUsed('sig', 'other', 60), false);
+}
+
+describe('RedisPaymentStore', () => {
+  let standIn: RespStandIn;
+  let client: RespClient;
+
+  beforeEach(async () => {
+    standIn = await startRespStandIn('secret');
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await standIn.close();
+  });
+
+  it('keeps payments, references and signatures', async () => {
+    client = createRespClient({ port: standIn.port, password: 'secret', db: 2 });
+    await checkPaymentStore(new RedisPaymentStore(client, { keyPrefix: 'test:' }));
+
+    assert.deepEqual(standIn.commands[0], ['AUTH', 'secret']);
+    assert.deepEqual(standIn.commands[1], ['SELECT', '2']);
+    assert.ok(standIn.commands.slice(2).every((args) => args[1].startsWith('test:')));
+  });
+
+  it('expires references with the key TTL', async () => {
+    client = createRespClient({ port: standIn.port, password: 'secret' });
+    const store = new RedisPaymentStore(client);
+
+    await store.issueReference('ref', issued({ expiry: Date.now() + 20 }));
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.equal(await store.getIssuedReference('ref'), null);
+    assert.equal(await store.consumeReference('ref'), false);
+  });
+
+  it('fails the connection when AUTH is refused', async () => {
+    client = createRespClient({ port: standIn.port, password: 'wrong' });
+
+    await assert.rejects(client.sendCommand(['GET', 'key']), /Redis AUTH failed: WRONGPASS/);
+    await assert.rejects(client.sendCommand(['GET', 'key']), /Redis AUTH failed/);
+    assert.deepEqual(standIn.commands, [['AUTH', 'wrong']]);
+  });
+
+  it('fails the connection when SELECT is refused', async () => {
+    client = createRespClient({ port: standIn.port, password: 'secret', db: 99 });
+
+    await assert.rejects(
+      new RedisPaymentStore(client).markPaid(
+        'ref',
+        { signature: 'sig', route: '/api/data', network: 'devnet' },
+        60
+      ),
+      /Redis SELECT failed/
+    );
+    assert.equal(standIn.commands.length, 2);
+  });
+});
+
+describe('FilePaymentStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'x402-store-'));
+    filePath = join(dir, 'state.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps payments, references and signatures across restarts', async () => {
+    await checkPaymentStore(new FilePaymentStore(filePath));
+    await new FilePaymentStore(filePath).issueReference('next', issued());
+
+    const reloaded = new FilePaymentStore(filePath);
+    assert.equal((await reloaded.getIssuedReference('ref'))?.consumed, true);
+    assert.equal((await reloaded.getIssuedReference('next'))?.consumed, false);
+    assert.equal((await reloaded.getPayment('ref'))?.signature, 'sig');
+    assert.equal(await reloaded.markSignatureUsed('sig', 'other', 60), false);
+  });
+
+  it('appends issued references instead of rewriting the state file', async () => {
+    const store = new FilePaymentStore(filePath);
+    await store.markPaid('paid', { signature: 'sig', route: '/', network: 'devnet' }, 60);
+    const written = await stat(filePath);
+
+    for (let i = 0; i < 3; i++) {
+      await store.issueReference(`ref-${i}`, issued());
+    }
+    assert.equal((await stat(filePath)).mtimeMs, written.mtimeMs);
+    const appended = await readFile(`${filePath}.references`, 'utf-8');
+    assert.equal(appended.trimEnd().split('\n').length, 3);
+
+    await store.issueReference('expired', issued({ expiry: Date.now() - 1 }));
+    assert.equal(await store.cleanup(), 1);
+    assert.equal(await readFile(`${filePath}.references`, 'utf-8'), '');
+    const state = JSON.parse(await readFile(filePath, 'utf-8'));
+    assert.deepEqual(Object.keys(state.references), ['ref-0', 'ref-1', 'ref-2']);
+  });
+
+  it('leaves the state unchanged when a write fails', async () => {
+    const store = new FilePaymentStore(filePath);
+    await store.issueReference('ref', issued());
+    // A directory in place of the temporary file makes the next write fail
+    await mkdir(`${filePath}.tmp`);
+
+    await assert.rejects(store.consumeReference('ref'));
+    await assert.rejects(
+      store.markPaid('ref', { signature: 'sig', route: '/', network: 'devnet' }, 60)
+    );
+    assert.equal((await store.getIssuedReference('ref'))?.consumed, false);
+    assert.equal(await store.getPayment('ref'), null);
+
+    await rm(`${filePath}.tmp`, { recursive: true });
+    assert.equal(await store.consumeReference('ref'), true);
+  });
+});
+
+describe('consumeReference', () => {
+  it('refuses expired references', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'x402-store-'));
+    try {
+      for (const store of [new PaymentState(), new FilePaymentStore(join(dir, 'state.json'))]) {
+        await store.issueReference('ref', issued({ expiry: Date.now() - 1 }));
+        assert.equal(await store.consumeReference('ref'), false);
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
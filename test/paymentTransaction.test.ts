@@ -0,0 +1,134 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner, KeyPairSigner } from '@solana/kit';
+import {
+  buildPaymentTransaction,
+  PaymentRequirement,
+  toX402PaymentRequirements,
+} from '../src';
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  decodeWireTransaction,
+  getAssociatedTokenAddress,
+  inspectPaymentTransaction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+} from '../src/transactionInspector';
+import { FakeSolanaRpc, createFakeRpc, createTestPayer } from '../src/testing';
+
+describe('buildPaymentTransaction', () => {
+  let fakeRpc: FakeSolanaRpc;
+  let mint: string;
+  let payer: KeyPairSigner;
+  let requirement: PaymentRequirement;
+
+  beforeEach(async () => {
+    fakeRpc = createFakeRpc();
+    mint = await fakeRpc.createMint({ decimals: 6 });
+    payer = await createTestPayer(fakeRpc, { tokens: [{ mint, amount: '10' }] });
+    requirement = {
+      network: 'devnet',
+      assetType: 'spl-token',
+      mint,
+      amount: '0.25',
+      amountAtomic: '250000',
+      decimals: 6,
+      recipient: (await generateKeyPairSigner()).address,
+      reference: (await generateKeyPairSigner()).address,
+      expires_in: 300,
+    };
+  });
+
+  /** Submit a wire transaction to the fake ledger */
+  async function send(transaction: string): Promise<string> {
+    return (fakeRpc.rpc.sendTransaction as any)(transaction, { encoding: 'base64' }).send();
+  }
+
+  it('builds a TransferChecked with the reference that passes inspection', async () => {
+    const transaction = await buildPaymentTransaction(requirement, payer, fakeRpc.rpc);
+
+    const decoded = decodeWireTransaction(transaction);
+    assert.deepEqual(
+      decoded.instructions.map(({ programId, data }) => [programId, data[0]]),
+      [
+        [COMPUTE_BUDGET_PROGRAM_ADDRESS, 2],
+        [TOKEN_PROGRAM_ADDRESS, 12],
+      ]
+    );
+    assert.deepEqual(decoded.missingSignatures, []);
+    const inspection = await inspectPaymentTransaction(transaction, requirement, fakeRpc.rpc);
+    assert.equal(inspection.valid, true);
+    assert.equal(inspection.payer, payer.address);
+  });
+
+  it('creates the recipient token account of a Token-2022 mint', async () => {
+    mint = await fakeRpc.createMint({ decimals: 6, tokenProgram: TOKEN_2022_PROGRAM_ADDRESS });
+    await fakeRpc.mintTo(payer.address, mint, 1_000_000n);
+    requirement.mint = mint;
+
+    const transaction = await buildPaymentTransaction(requirement, payer, fakeRpc.rpc, {
+      createRecipientTokenAccount: true,
+    });
+    const decoded = decodeWireTransaction(transaction);
+    const transfer = decoded.instructions[decoded.instructions.length - 1];
+    assert.equal(transfer.programId, TOKEN_2022_PROGRAM_ADDRESS);
+    const recipientTokenAccount = await getAssociatedTokenAddress(
+      requirement.recipient,
+      mint,
+      TOKEN_2022_PROGRAM_ADDRESS
+    );
+    assert.ok(decoded.accounts.some(({ address }) => address === recipientTokenAccount));
+
+    await send(transaction);
+    assert.equal(await fakeRpc.getTokenBalance(requirement.recipient, mint), 250000n);
+    assert.equal(await fakeRpc.getTokenBalance(payer.address, mint), 750000n);
+  });
+
+  it('sets the compute unit limit and price', async () => {
+    const transaction = await buildPaymentTransaction(requirement, payer, fakeRpc.rpc, {
+      computeUnitLimit: 50000,
+      computeUnitPrice: 10000,
+    });
+
+    const [limit, price] = decodeWireTransaction(transaction).instructions;
+    assert.equal(limit.data.readUInt32LE(1), 50000);
+    assert.equal(price.data[0], 3);
+    assert.equal(price.data.readBigUInt64LE(1), 10000n);
+  });
+
+  it('only partially signs gasless transactions', async () => {
+    const feePayer = (await generateKeyPairSigner()).address;
+    const { value } = await (fakeRpc.rpc.getLatestBlockhash as any)().send();
+
+    const transaction = await buildPaymentTransaction(
+      {
+        ...requirement,
+        feePayer,
+        recentBlockhash: value.blockhash,
+        lastValidBlockHeight: String(value.lastValidBlockHeight),
+      },
+      payer,
+      fakeRpc.rpc
+    );
+
+    const decoded = decodeWireTransaction(transaction);
+    assert.equal(decoded.feePayer, feePayer);
+    assert.deepEqual(decoded.missingSignatures, [feePayer]);
+    assert.equal(decoded.lifetimeToken, value.blockhash);
+  });
+
+  it('accepts x402 accepts entries', async () => {
+    const accepted = toX402PaymentRequirements(
+      requirement,
+      'https://api.example.com/data',
+      'Data',
+      'application/json'
+    );
+
+    const transaction = await buildPaymentTransaction(accepted, payer, fakeRpc.rpc, {
+      createRecipientTokenAccount: true,
+    });
+    await send(transaction);
+    assert.equal(await fakeRpc.getTokenBalance(requirement.recipient, mint), 250000n);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner, KeyPairSigner } from '@solana/kit';
+import {
+  encodeReceipt,
+  getPaymentResponse,
+  ReceiptKeysResponse,
+  verifyReceipt,
+  wrapFetchWithPayment,
+} from '../src';
+import { createPaymentHeaderForResponse } from '../src/paymentClient';
+import { startTestGateway, TestGateway } from './helpers';
+
+const RETIRED_KEY = 'RetiredReceiptKey111111111111111111111111111';
+
+describe('payment receipts', () => {
+  let gateway: TestGateway;
+  let receiptSigner: KeyPairSigner;
+
+  beforeEach(async () => {
+    receiptSigner = await generateKeyPairSigner();
+    gateway = await startTestGateway({
+      receipts: { signer: receiptSigner, previousKeys: [RETIRED_KEY] },
+    });
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it('answers settled payments with a receipt signed by the gateway key', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+
+    const response = await fetchWithPayment(gateway.url);
+    const settlement = getPaymentResponse(response)!;
+    const signed = settlement.receipt!;
+
+    assert.equal(signed.receipt.gateway, receiptSigner.address);
+    assert.equal(signed.receipt.payer, gateway.payer.address);
+    assert.equal(signed.receipt.mint, gateway.mint);
+    assert.equal(signed.receipt.amountAtomic, '50000');
+    assert.equal(signed.receipt.transaction, settlement.transaction);
+    assert.equal(signed.receipt.resource, gateway.url);
+    assert.equal(await verifyReceipt(signed, receiptSigner.address), true);
+    assert.equal(await verifyReceipt(encodeReceipt(signed), receiptSigner.address), true);
+
+    const other = await generateKeyPairSigner();
+    assert.equal(await verifyReceipt(signed, other.address), false);
+    const tampered = {
+      ...signed,
+      receipt: { ...signed.receipt, amountAtomic: '1' },
+    };
+    assert.equal(await verifyReceipt(tampered, receiptSigner.address), false);
+  });
+
+  it('resends the receipt on cache hits', async () => {
+    const unpaid = await fetch(gateway.url);
+    const paymentHeader = await createPaymentHeaderForResponse(
+      await unpaid.json(),
+      gateway.url,
+      gateway.payer,
+      { network: 'devnet' },
+      gateway.fakeRpc.rpc
+    );
+    const pay = () =>
+      fetch(gateway.url, { headers: { 'X-PAYMENT': paymentHeader } });
+
+    const first = getPaymentResponse(await pay())!;
+    const cached = getPaymentResponse(await pay())!;
+
+    assert.deepEqual(cached.receipt, first.receipt);
+    assert.equal(cached.transaction, first.transaction);
+  });
+
+  it('publishes the receipt keys', async () => {
+    const response = await fetch(
+      new URL('/api/.well-known/x402-receipt-keys', gateway.url)
+    );
+    const body = (await response.json()) as ReceiptKeysResponse;
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      body.keys.map(({ publicKey, current }) => [publicKey, current]),
+      [
+        [receiptSigner.address, true],
+        [RETIRED_KEY, false],
+      ]
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner, KeyPairSigner } from '@solana/kit';
+import {
+  PaymentEvent,
+  PaymentRequiredResponse,
+  PaymentState,
+  wrapFetchWithPayment,
+} from '../src';
+import { createPaymentHeaderForResponse } from '../src/paymentClient';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('refund policy', () => {
+  let gateway: TestGateway;
+  let store: PaymentState;
+  let refundSigner: KeyPairSigner;
+  let refundEvents: Promise<PaymentEvent>;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  /** Start a gateway refunding from refundSigner, funded with `tokens` */
+  async function startRefundGateway(tokens: bigint): Promise<void> {
+    store = new PaymentState();
+    refundSigner = await generateKeyPairSigner();
+    let resolveEvent: (event: PaymentEvent) => void = () => undefined;
+    refundEvents = new Promise((resolve) => {
+      resolveEvent = resolve;
+    });
+    gateway = await startTestGateway({
+      store,
+      refunds: { signer: refundSigner },
+      hooks: { onPaymentRefunded: resolveEvent, onRefundFailed: resolveEvent },
+    });
+    gateway.fakeRpc.airdrop(refundSigner.address, 1_000_000_000n);
+    await gateway.fakeRpc.mintTo(refundSigner.address, gateway.mint, tokens);
+  }
+
+  function failUrl(): string {
+    return new URL('/api/fail', gateway.url).toString();
+  }
+
+  it('refunds the payer when the handler fails after payment', async () => {
+    await startRefundGateway(1_000_000n);
+    const unpaid = await fetch(failUrl());
+    const paymentHeader = await createPaymentHeaderForResponse(
+      (await unpaid.json()) as PaymentRequiredResponse,
+      failUrl(),
+      gateway.payer,
+      { network: 'devnet' },
+      gateway.fakeRpc.rpc
+    );
+
+    const response = await fetch(failUrl(), {
+      headers: { 'X-PAYMENT': paymentHeader },
+    });
+    assert.equal(response.status, 500);
+
+    const event = await refundEvents;
+    assert.equal(event.type, 'payment.refunded');
+    assert.equal(
+      await gateway.fakeRpc.getTokenBalance(gateway.payer.address, gateway.mint),
+      10_000_000n
+    );
+    const record = await store.getRefund(event.reference);
+    assert.equal(record?.status, 'refunded');
+    assert.equal(record?.responseStatus, 500);
+    assert.equal(record?.transaction, event.refundSignature);
+
+    // The refunded payment can't be replayed from the cache
+    const replayed = await fetch(failUrl(), {
+      headers: { 'X-PAYMENT': paymentHeader },
+    });
+    const body = (await replayed.json()) as PaymentRequiredResponse;
+    assert.equal(replayed.status, 402);
+    assert.equal(body.errorCode, 'payment_refunded');
+  });
+
+  it('keeps payments of successful responses', async () => {
+    await startRefundGateway(1_000_000n);
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+
+    assert.equal((await fetchWithPayment(gateway.url)).status, 200);
+
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+    assert.equal(
+      await gateway.fakeRpc.getTokenBalance(gateway.recipient, gateway.mint),
+      50000n
+    );
+  });
+
+  it('records failed refunds once for audit', async () => {
+    await startRefundGateway(0n);
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+
+    assert.equal((await fetchWithPayment(failUrl())).status, 500);
+
+    const event = await refundEvents;
+    assert.equal(event.type, 'payment.refund_failed');
+    const record = await store.getRefund(event.reference);
+    assert.equal(record?.status, 'failed');
+    assert.equal(await store.createRefund(record!), false);
+  });
+});
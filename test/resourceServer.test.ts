@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getPaymentResponse,
+  PaymentRequiredResponse,
+  PaymentState,
+  wrapFetchWithPayment,
+} from '../src';
+import { createPaymentHeaderForResponse } from '../src/paymentClient';
+import { createTestPayer } from '../src/testing';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('x402ResourceServer', () => {
+  let gateway: TestGateway;
+
+  beforeEach(async () => {
+    gateway = await startTestGateway();
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  /** Request the route once unpaid, then build a payment header for its 402 body */
+  async function createPaymentHeader(): Promise<string> {
+    const response = await fetch(gateway.url);
+    const body = (await response.json()) as PaymentRequiredResponse;
+    return createPaymentHeaderForResponse(
+      body,
+      gateway.url,
+      gateway.payer,
+      { network: 'devnet' },
+      gateway.fakeRpc.rpc
+    );
+  }
+
+  function pay(paymentHeader: string): Promise<Response> {
+    return fetch(gateway.url, { headers: { 'X-PAYMENT': paymentHeader } });
+  }
+
+  it('answers unpaid requests with 402 payment requirements', async () => {
+    const response = await fetch(gateway.url);
+    const body = (await response.json()) as PaymentRequiredResponse;
+
+    assert.equal(response.status, 402);
+    assert.equal(body.errorCode, 'payment_required');
+    assert.equal(body.accepts?.length, 1);
+    assert.equal(body.accepts?.[0].asset, gateway.mint);
+    assert.equal(body.accepts?.[0].maxAmountRequired, '50000');
+  });
+
+  it('settles a payment and serves the resource', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(fetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+    });
+
+    const response = await fetchWithPayment(gateway.url);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { data: 'paid content' });
+    const settlement = getPaymentResponse(response);
+    assert.equal(settlement?.success, true);
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+    assert.equal(
+      await gateway.fakeRpc.getTokenBalance(gateway.recipient, gateway.mint),
+      50000n
+    );
+    assert.equal(
+      await gateway.fakeRpc.getTokenBalance(gateway.payer.address, gateway.mint),
+      9950000n
+    );
+  });
+
+  it('pays for relative URLs', async () => {
+    // Like a browser fetch, resolve relative URLs against the page
+    const pageFetch: typeof fetch = (input, init) =>
+      fetch(new URL(String(input), gateway.url), init);
+    const fetchWithPayment = wrapFetchWithPayment(pageFetch, gateway.payer, {
+      network: 'devnet',
+      rpc: gateway.fakeRpc.rpc,
+      accessPasses: true,
+    });
+
+    const response = await fetchWithPayment('/api/data');
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { data: 'paid content' });
+  });
+
+  it('serves a repeated payment header from the cache without paying twice', async () => {
+    const paymentHeader = await createPaymentHeader();
+    assert.equal((await pay(paymentHeader)).status, 200);
+
+    const response = await pay(paymentHeader);
+
+    assert.equal(response.status, 200);
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+
+  it('only serves a cached payment on the route it was settled for', async () => {
+    const paymentHeader = await createPaymentHeader();
+    assert.equal((await pay(paymentHeader)).status, 200);
+
+    const response = await fetch(new URL('/api/fail', gateway.url), {
+      headers: { 'X-PAYMENT': paymentHeader },
+    });
+    const body = (await response.json()) as PaymentRequiredResponse;
+
+    assert.equal(response.status, 402);
+    assert.equal(body.errorCode, 'reference_used');
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+
+  it('answers 503 when the payment store fails on a status request', async () => {
+    await gateway.close();
+    const store = new PaymentState();
+    store.getPayment = async () => {
+      throw new Error('store offline');
+    };
+    gateway = await startTestGateway({ store, settlementMode: 'async' });
+
+    const response = await fetch(new URL('/api/x402/payments/unknown', gateway.url));
+
+    assert.equal(response.status, 503);
+    assert.equal(
+      ((await response.json()) as { errorCode: string }).errorCode,
+      'store_unavailable'
+    );
+  });
+
+  it('rejects a payment exceeding the payer balance', async () => {
+    await gateway.close();
+    gateway = await startTestGateway({}, '20');
+
+    const response = await pay(await createPaymentHeader());
+    const body = (await response.json()) as PaymentRequiredResponse;
+
+    assert.equal(response.status, 402);
+    assert.equal(body.errorCode, 'simulation_failed');
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 0);
+  });
+
+  it('answers 503 when the RPC is unavailable and accepts the payment on retry', async () => {
+    const paymentHeader = await createPaymentHeader();
+    gateway.fakeRpc.injectFault('sendTransaction', { type: 'unavailable' });
+
+    const failed = await pay(paymentHeader);
+    assert.equal(failed.status, 503);
+    assert.equal(((await failed.json()) as { errorCode: string }).errorCode, 'rpc_unavailable');
+
+    const retried = await pay(paymentHeader);
+    assert.equal(retried.status, 200);
+  });
+
+  it('answers 503 when the RPC times out', async () => {
+    const paymentHeader = await createPaymentHeader();
+    gateway.fakeRpc.injectFault('simulateTransaction', { type: 'timeout', delayMs: 10 });
+
+    const response = await pay(paymentHeader);
+
+    assert.equal(response.status, 503);
+    assert.equal(((await response.json()) as { errorCode: string }).errorCode, 'rpc_unavailable');
+  });
+
+  it('rejects a payment whose blockhash expired', async () => {
+    const paymentHeader = await createPaymentHeader();
+    gateway.fakeRpc.injectFault('sendTransaction', { type: 'blockhashNotFound' });
+
+    const response = await pay(paymentHeader);
+    const body = (await response.json()) as PaymentRequiredResponse;
+
+    assert.equal(response.status, 402);
+    assert.equal(body.errorCode, 'blockhash_expired');
+  });
+
+  it('rejects a payment that fails on chain', async () => {
+    const paymentHeader = await createPaymentHeader();
+    gateway.fakeRpc.injectFault('sendTransaction', { type: 'transactionFailed' });
+
+    const response = await pay(paymentHeader);
+    const body = (await response.json()) as PaymentRequiredResponse;
+
+    assert.equal(response.status, 402);
+    assert.equal(body.errorCode, 'transaction_failed');
+    assert.equal(
+      await gateway.fakeRpc.getTokenBalance(gateway.recipient, gateway.mint),
+      0n
+    );
+  });
+
+  it('waits for delayed confirmations', async () => {
+    const paymentHeader = await createPaymentHeader();
+    gateway.fakeRpc.injectFault('sendTransaction', {
+      type: 'delayedConfirmation',
+      confirmAfterMs: 100,
+    });
+
+    const response = await pay(paymentHeader);
+
+    assert.equal(response.status, 200);
+  });
+
+  it('answers 503 when confirmation times out', async () => {
+    await gateway.close();
+    gateway = await startTestGateway({
+      confirmation: {
+        subscriptionsEndpoint: false,
+        pollIntervalMs: 10,
+        timeoutSeconds: 0.1,
+      },
+    });
+    const paymentHeader = await createPaymentHeader();
+    gateway.fakeRpc.injectFault('sendTransaction', { type: 'dropped' });
+
+    const response = await pay(paymentHeader);
+
+    assert.equal(response.status, 503);
+    assert.equal(
+      ((await response.json()) as { errorCode: string }).errorCode,
+      'confirmation_timeout'
+    );
+  });
+});
+
+describe('optimistic settlement', () => {
+  let gateway: TestGateway;
+  let body: PaymentRequiredResponse;
+  let paymentHeader: string;
+
+  beforeEach(async () => {
+    gateway = await startTestGateway({ settlementMode: 'optimistic' });
+    body = (await (await fetch(gateway.url)).json()) as PaymentRequiredResponse;
+    paymentHeader = await createPaymentHeaderForResponse(
+      body,
+      gateway.url,
+      gateway.payer,
+      { network: 'devnet' },
+      gateway.fakeRpc.rpc
+    );
+    // The payment stays pending while the tests reuse its reference
+    gateway.fakeRpc.injectFault('sendTransaction', {
+      type: 'delayedConfirmation',
+      confirmAfterMs: 500,
+    });
+    const response = await fetch(gateway.url, { headers: { 'X-PAYMENT': paymentHeader } });
+    assert.equal(response.status, 200);
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it('serves a pending payment again for the same payload', async () => {
+    const response = await fetch(gateway.url, { headers: { 'X-PAYMENT': paymentHeader } });
+
+    assert.equal(response.status, 200);
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+
+  it('only serves a pending payment on the route it was submitted for', async () => {
+    const response = await fetch(new URL('/api/fail', gateway.url), {
+      headers: { 'X-PAYMENT': paymentHeader },
+    });
+
+    assert.equal(response.status, 402);
+    assert.equal(
+      ((await response.json()) as PaymentRequiredResponse).errorCode,
+      'reference_used'
+    );
+  });
+
+  it('refuses another payload reusing a pending reference', async () => {
+    const otherPayer = await createTestPayer(gateway.fakeRpc, {
+      tokens: [{ mint: gateway.mint, amount: '10' }],
+    });
+    const foreignHeader = await createPaymentHeaderForResponse(
+      body,
+      gateway.url,
+      otherPayer,
+      { network: 'devnet' },
+      gateway.fakeRpc.rpc
+    );
+
+    const response = await fetch(gateway.url, { headers: { 'X-PAYMENT': foreignHeader } });
+
+    assert.equal(response.status, 402);
+    assert.equal(
+      ((await response.json()) as PaymentRequiredResponse).errorCode,
+      'reference_used'
+    );
+    assert.equal(gateway.fakeRpc.sentSignatures.length, 1);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createSolanaRpcClient, isRpcUnavailableError } from '../src/rpcClient';
+
+type Handler = (method: string) => { status?: number; headers?: Record<string, string>; body?: unknown };
+
+interface TestEndpoint {
+  url: string;
+  calls: string[];
+  handler: Handler;
+}
+
+const ok = (result: unknown) => ({ body: { jsonrpc: '2.0', id: 0, result } });
+const UNREACHABLE_URL = 'http://127.0.0.1:1';
+
+describe('createSolanaRpcClient with failover', () => {
+  const servers: Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve)))
+    );
+  });
+
+  /** JSON-RPC server recording called methods, answering with the handler */
+  async function startEndpoint(handler: Handler): Promise<TestEndpoint> {
+    const endpoint: TestEndpoint = { url: '', calls: [], handler };
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { method, id } = JSON.parse(body);
+        endpoint.calls.push(method);
+        const response = endpoint.handler(method);
+        res.writeHead(response.status ?? 200, {
+          'Content-Type': 'application/json',
+          ...response.headers,
+        });
+        res.end(JSON.stringify({ ...(response.body as object), id }));
+      });
+    });
+    server.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    servers.push(server);
+    endpoint.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return endpoint;
+  }
+
+  it('fails over from an unreachable endpoint', async () => {
+    const backup = await startEndpoint(() => ok(42));
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [UNREACHABLE_URL, { url: backup.url, priority: 1 }],
+      logger: () => undefined,
+    });
+
+    assert.equal(await rpc.getSlot().send(), 42n);
+    assert.deepEqual(backup.calls, ['getSlot']);
+  });
+
+  it('fails over from an unhealthy node', async () => {
+    const primary = await startEndpoint(() => ({
+      body: { jsonrpc: '2.0', error: { code: -32005, message: 'Node is behind' } },
+    }));
+    const backup = await startEndpoint(() => ok(7));
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [primary.url, { url: backup.url, priority: 1 }],
+      logger: () => undefined,
+    });
+
+    assert.equal(await rpc.getSlot().send(), 7n);
+    assert.equal(primary.calls.length, 1);
+  });
+
+  it('skips rate limited endpoints until their Retry-After passed', async () => {
+    const primary = await startEndpoint(() => ({
+      status: 429,
+      headers: { 'Retry-After': '60' },
+    }));
+    const backup = await startEndpoint(() => ok(1));
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [primary.url, { url: backup.url, priority: 1 }],
+      logger: () => undefined,
+    });
+
+    await rpc.getSlot().send();
+    await rpc.getSlot().send();
+
+    assert.equal(primary.calls.length, 1);
+    assert.equal(backup.calls.length, 2);
+  });
+
+  it('retries a single endpoint with backoff', async () => {
+    let failures = 2;
+    const endpoint = await startEndpoint(() =>
+      failures-- > 0 ? { status: 503 } : ok(3)
+    );
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [endpoint.url],
+      retry: { initialBackoffMs: 5 },
+      logger: () => undefined,
+    });
+
+    assert.equal(await rpc.getSlot().send(), 3n);
+    assert.equal(endpoint.calls.length, 3);
+  });
+
+  it('throws an unavailable error once all attempts failed', async () => {
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [UNREACHABLE_URL],
+      retry: { maxAttempts: 2, initialBackoffMs: 1 },
+      logger: () => undefined,
+    });
+
+    await assert.rejects(rpc.getSlot().send(), (error) => isRpcUnavailableError(error));
+  });
+
+  it('sends transactions through the send endpoints', async () => {
+    const reader = await startEndpoint(() => ok(1));
+    const sender = await startEndpoint(() => ok('signature'));
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [reader.url],
+      sendEndpoints: [sender.url],
+      logger: () => undefined,
+    });
+
+    await rpc.getSlot().send();
+    await (rpc.sendTransaction as any)('AAAA', { encoding: 'base64' }).send();
+
+    assert.deepEqual(reader.calls, ['getSlot']);
+    assert.deepEqual(sender.calls, ['sendTransaction']);
+  });
+
+  it('opens the circuit of a failing endpoint and closes it after a health probe', async () => {
+    let down = true;
+    const logs: string[] = [];
+    const primary = await startEndpoint((method) =>
+      down ? { status: 500 } : ok(method === 'getHealth' ? 'ok' : 1)
+    );
+    const backup = await startEndpoint(() => ok(2));
+    const rpc = createSolanaRpcClient('devnet', {
+      endpoints: [primary.url, { url: backup.url, priority: 1 }],
+      circuitBreaker: { failureThreshold: 2, healthCheckIntervalMs: 50 },
+      logger: (message) => logs.push(message),
+    });
+
+    await rpc.getSlot().send();
+    await rpc.getSlot().send();
+    await rpc.getSlot().send();
+    assert.deepEqual(primary.calls, ['getSlot', 'getSlot']);
+    assert.match(logs[0], /circuit opened/);
+
+    down = false;
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    assert.equal(await rpc.getSlot().send(), 1n);
+    assert.match(logs[1], /circuit closed/);
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner } from '@solana/kit';
+import {
+  MemorySpendingLedger,
+  NATIVE_SOL_MINT,
+  PaymentRequirement,
+  SpendingPolicy,
+} from '../src';
+import { FakeSolanaRpc, createFakeRpc } from '../src/testing';
+
+describe('SpendingPolicy', () => {
+  let fakeRpc: FakeSolanaRpc;
+  let mint: string;
+  let recipient: string;
+
+  beforeEach(async () => {
+    fakeRpc = createFakeRpc();
+    mint = await fakeRpc.createMint({ decimals: 6 });
+    recipient = (await generateKeyPairSigner()).address;
+  });
+
+  function tokenRequirement(
+    amountAtomic: string,
+    fields: Partial<PaymentRequirement> = {}
+  ): PaymentRequirement {
+    return {
+      network: 'devnet',
+      assetType: 'spl-token',
+      mint,
+      amount: '0',
+      amountAtomic,
+      decimals: 6,
+      recipient,
+      reference: 'reference',
+      expires_in: 300,
+      ...fields,
+    };
+  }
+
+  function solRequirement(
+    amountAtomic: string,
+    fields: Partial<PaymentRequirement> = {}
+  ): PaymentRequirement {
+    return tokenRequirement(amountAtomic, {
+      assetType: 'native',
+      mint: NATIVE_SOL_MINT,
+      decimals: 9,
+      ...fields,
+    });
+  }
+
+  const sign = async () => 'signed';
+
+  it('enforces the per-request, host, window and total caps', async () => {
+    const ledger = new MemorySpendingLedger();
+    const policy = new SpendingPolicy({
+      limits: {
+        [mint]: { maxPerRequest: '1', maxPerHost: '1.5', maxPerWindow: '2', totalBudget: '2.5' },
+      },
+      ledger,
+    });
+    const pay = (url: string, amountAtomic: string) =>
+      policy.authorize(tokenRequirement(amountAtomic), url, fakeRpc.rpc, sign);
+
+    assert.match(
+      (await policy.checkRequirement(tokenRequirement('1000001'), fakeRpc.rpc))!,
+      /exceeds the max per request of 1$/
+    );
+    assert.equal(await pay('https://a.example/x', '1000000'), 'signed');
+    await assert.rejects(pay('https://a.example/y', '600000'), /cap for a\.example/);
+    assert.equal(await pay('https://b.example/x', '1000000'), 'signed');
+    await assert.rejects(pay('https://c.example/x', '1'), /window cap/);
+    assert.equal((await ledger.list()).length, 2);
+    assert.equal((await ledger.list())[0].decimals, 6);
+  });
+
+  it('asks for approval above the threshold', async () => {
+    const approved: string[] = [];
+    const policy = new SpendingPolicy({
+      limits: { [mint]: { approvalThreshold: '0.5' } },
+      onApprovalRequired: ({ host }) => {
+        approved.push(host);
+        return host === 'trusted.example';
+      },
+    });
+
+    await policy.authorize(tokenRequirement('500000'), 'https://a.example', fakeRpc.rpc, sign);
+    await assert.rejects(
+      policy.authorize(tokenRequirement('500001'), 'https://a.example', fakeRpc.rpc, sign),
+      /was not approved/
+    );
+    await policy.authorize(tokenRequirement('500001'), 'https://trusted.example', fakeRpc.rpc, sign);
+    assert.deepEqual(approved, ['a.example', 'trusted.example']);
+  });
+
+  it('converts caps with the mint decimals, not the advertised ones', async () => {
+    const policy = new SpendingPolicy({
+      limits: { [mint]: { maxPerRequest: '1' }, [NATIVE_SOL_MINT]: { maxPerRequest: '0.01' } },
+    });
+
+    // 10 tokens advertised with 18 decimals would look like 0.00000000001
+    assert.match(
+      (await policy.checkRequirement(
+        tokenRequirement('10000000', { decimals: 18 }),
+        fakeRpc.rpc
+      ))!,
+      /Payment of 10 exceeds the max per request of 1$/
+    );
+    // SOL is always sent in lamports
+    assert.match(
+      (await policy.checkRequirement(
+        solRequirement('1000000000', { decimals: 18 }),
+        fakeRpc.rpc
+      ))!,
+      /Payment of 1 exceeds the max per request of 0\.01$/
+    );
+    // A huge exponent is never used to scale the caps
+    assert.equal(
+      await policy.checkRequirement(
+        solRequirement('10000000', { decimals: 1e9 }),
+        fakeRpc.rpc
+      ),
+      null
+    );
+  });
+
+  it('rejects requirements whose asset type does not match the mint', async () => {
+    const policy = new SpendingPolicy({
+      limits: { [mint]: { maxPerRequest: '1' }, [NATIVE_SOL_MINT]: { maxPerRequest: '1' } },
+    });
+
+    assert.match(
+      (await policy.checkRequirement(solRequirement('1', { mint }), fakeRpc.rpc))!,
+      /Asset type native doesn't match mint/
+    );
+    assert.match(
+      (await policy.checkRequirement(
+        tokenRequirement('1', { mint: NATIVE_SOL_MINT }),
+        fakeRpc.rpc
+      ))!,
+      /Asset type spl-token doesn't match mint/
+    );
+    await assert.rejects(
+      policy.authorize(solRequirement('1', { mint }), 'https://a.example', fakeRpc.rpc, sign),
+      /doesn't match mint/
+    );
+  });
+
+  it('only allows the configured networks and mints', async () => {
+    const policy = new SpendingPolicy({
+      allowedNetworks: ['devnet'],
+      limits: { [mint]: { maxPerRequest: '1' } },
+    });
+
+    assert.match(
+      (await policy.checkRequirement(
+        tokenRequirement('1', { network: 'mainnet-beta' }),
+        fakeRpc.rpc
+      ))!,
+      /Network mainnet-beta is not allowed/
+    );
+    assert.match(
+      (await policy.checkRequirement(solRequirement('1'), fakeRpc.rpc))!,
+      /Mint .* is not allowed/
+    );
+  });
+});
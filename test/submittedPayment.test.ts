@@ -0,0 +1,166 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner } from '@solana/kit';
+import {
+  buildPaymentTransaction,
+  createXPaymentHeaderFromSignature,
+  getPaymentResponse,
+  isSubmittedPayment,
+  parsePaymentPayload,
+  PaymentRequiredResponse,
+  PaymentState,
+  X402PaymentRequirements,
+} from '../src';
+import { validatePaymentPayload } from '../src/paymentPayload';
+import { startTestGateway, TestGateway } from './helpers';
+
+describe('submitted payments', () => {
+  let gateway: TestGateway;
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  /** Request a 402 and pay its first requirement the way a wallet does, by submitting it */
+  async function payAsWallet(
+    url: string = gateway.url
+  ): Promise<{ accepted: X402PaymentRequirements; signature: string }> {
+    const body = (await (await fetch(url)).json()) as PaymentRequiredResponse;
+    const accepted = body.accepts![0];
+    const transaction = await buildPaymentTransaction(
+      accepted,
+      gateway.payer,
+      gateway.fakeRpc.rpc
+    );
+    const signature = await (
+      gateway.fakeRpc.rpc.sendTransaction(transaction as any, {
+        encoding: 'base64',
+      }) as any
+    ).send();
+    return { accepted, signature: String(signature) };
+  }
+
+  it('finds the submitted transaction by its reference', async () => {
+    gateway = await startTestGateway();
+    const { accepted, signature } = await payAsWallet();
+
+    const response = await fetch(gateway.url, {
+      headers: { 'X-PAYMENT': createXPaymentHeaderFromSignature(undefined, accepted) },
+    });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { data: 'paid content' });
+    const settlement = getPaymentResponse(response)!;
+    assert.equal(settlement.transaction, signature);
+    assert.equal(settlement.payer, gateway.payer.address);
+    // The gateway only checked the transaction, the wallet submitted it
+    assert.deepEqual(gateway.fakeRpc.sentSignatures, [signature]);
+  });
+
+  it('checks the landed transaction only once', async () => {
+    gateway = await startTestGateway();
+    const { accepted } = await payAsWallet();
+    const rpc = gateway.fakeRpc.rpc as any;
+    const getTransaction = rpc.getTransaction;
+    let lookups = 0;
+    rpc.getTransaction = (...params: unknown[]) => {
+      lookups++;
+      return getTransaction(...params);
+    };
+
+    const response = await fetch(gateway.url, {
+      headers: { 'X-PAYMENT': createXPaymentHeaderFromSignature(undefined, accepted) },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(lookups, 1);
+  });
+
+  it('rejects an old payment claimed for a new reference', async () => {
+    gateway = await startTestGateway();
+    const { accepted, signature } = await payAsWallet();
+    const paid = await fetch(gateway.url, {
+      headers: { 'X-PAYMENT': createXPaymentHeaderFromSignature(signature, accepted) },
+    });
+    assert.equal(paid.status, 200);
+
+    const unpaid = (await (await fetch(gateway.url)).json()) as PaymentRequiredResponse;
+    const replayed = await fetch(gateway.url, {
+      headers: {
+        'X-PAYMENT': createXPaymentHeaderFromSignature(signature, unpaid.accepts![0]),
+      },
+    });
+    const body = (await replayed.json()) as PaymentRequiredResponse;
+    assert.equal(replayed.status, 402);
+    assert.equal(body.errorCode, 'invalid_transaction');
+  });
+
+  it('refunds submitted payments from the landed transaction', async () => {
+    const refundSigner = await generateKeyPairSigner();
+    let refunded: (signature?: string) => void = () => undefined;
+    const refundSignature = new Promise<string | undefined>((resolve) => {
+      refunded = resolve;
+    });
+    gateway = await startTestGateway({
+      store: new PaymentState(),
+      refunds: { signer: refundSigner },
+      hooks: {
+        onPaymentRefunded: (event) => refunded(event.refundSignature),
+        onRefundFailed: (event) => refunded(event.reason),
+      },
+    });
+    gateway.fakeRpc.airdrop(refundSigner.address, 1_000_000_000n);
+    await gateway.fakeRpc.mintTo(refundSigner.address, gateway.mint, 1_000_000n);
+    const failUrl = new URL('/api/fail', gateway.url).toString();
+    const { accepted } = await payAsWallet(failUrl);
+
+    const response = await fetch(failUrl, {
+      headers: { 'X-PAYMENT': createXPaymentHeaderFromSignature(undefined, accepted) },
+    });
+    assert.equal(response.status, 500);
+    const signature = await refundSignature;
+    assert.ok(gateway.fakeRpc.getTransactionRecord(signature!));
+    assert.equal(
+      await gateway.fakeRpc.getTokenBalance(gateway.payer.address, gateway.mint),
+      10_000_000n
+    );
+  });
+});
+
+describe('submitted payment payloads', () => {
+  it('require the reference', () => {
+    const requirement = {
+      network: 'devnet',
+      assetType: 'spl-token' as const,
+      mint: 'mint',
+      amount: '1',
+      amountAtomic: '1000000',
+      decimals: 6,
+      recipient: 'recipient',
+      reference: 'reference',
+      expires_in: 300,
+    };
+    const payload = parsePaymentPayload(
+      createXPaymentHeaderFromSignature('signature', requirement)
+    );
+    assert.equal(isSubmittedPayment(payload), true);
+    assert.deepEqual(payload, {
+      network: 'devnet',
+      transaction: '',
+      reference: 'reference',
+      signature: 'signature',
+    });
+
+    const x402 = parsePaymentPayload(
+      Buffer.from(
+        JSON.stringify({
+          x402Version: 1,
+          scheme: 'exact',
+          network: 'solana-devnet',
+          payload: { signature: 'signature' },
+        })
+      ).toString('base64')
+    );
+    assert.equal(x402.signature, 'signature');
+    assert.equal(validatePaymentPayload(payload), true);
+    assert.equal(validatePaymentPayload(x402), false);
+  });
+});
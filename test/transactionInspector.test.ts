@@ -0,0 +1,177 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AccountRole,
+  address,
+  appendTransactionMessageInstructions,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  KeyPairSigner,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
+  signTransactionMessageWithSigners,
+  type Blockhash,
+  type Instruction,
+  type Nonce,
+} from '@solana/kit';
+import { NATIVE_SOL_MINT, PaymentRequirement } from '../src';
+import {
+  inspectPaymentTransaction,
+  SYSTEM_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+} from '../src/transactionInspector';
+import { FakeSolanaRpc, createFakeRpc } from '../src/testing';
+
+const RECENT_BLOCKHASHES_SYSVAR = 'SysvarRecentB1ockHashes11111111111111111111';
+
+describe('inspectPaymentTransaction', () => {
+  let fakeRpc: FakeSolanaRpc;
+  let payer: KeyPairSigner;
+  let nonceAccount: string;
+  let requirement: PaymentRequirement;
+
+  beforeEach(async () => {
+    fakeRpc = createFakeRpc();
+    payer = await generateKeyPairSigner();
+    nonceAccount = (await generateKeyPairSigner()).address;
+    requirement = {
+      network: 'devnet',
+      assetType: 'native',
+      mint: NATIVE_SOL_MINT,
+      amount: '0.001',
+      amountAtomic: '1000000',
+      decimals: 9,
+      recipient: (await generateKeyPairSigner()).address,
+      reference: (await generateKeyPairSigner()).address,
+      expires_in: 300,
+    };
+  });
+
+  function transfer(lamports = 1000000n, recipient = requirement.recipient): Instruction {
+    const data = Buffer.alloc(12);
+    data.writeUInt32LE(2, 0);
+    data.writeBigUInt64LE(lamports, 4);
+    return {
+      programAddress: address(SYSTEM_PROGRAM_ADDRESS),
+      accounts: [
+        { address: payer.address, role: AccountRole.WRITABLE_SIGNER, signer: payer },
+        { address: address(recipient), role: AccountRole.WRITABLE },
+        { address: address(requirement.reference), role: AccountRole.READONLY },
+      ],
+      data: new Uint8Array(data),
+    } as Instruction;
+  }
+
+  function advanceNonce(): Instruction {
+    return {
+      programAddress: address(SYSTEM_PROGRAM_ADDRESS),
+      accounts: [
+        { address: address(nonceAccount), role: AccountRole.WRITABLE },
+        { address: address(RECENT_BLOCKHASHES_SYSVAR), role: AccountRole.READONLY },
+        { address: payer.address, role: AccountRole.READONLY_SIGNER, signer: payer },
+      ],
+      data: new Uint8Array([4, 0, 0, 0]),
+    } as Instruction;
+  }
+
+  /** Sign a transaction of the payer with a recent blockhash */
+  async function sign(instructions: Instruction[]): Promise<string> {
+    const message = pipe(
+      createTransactionMessage({ version: 0 }),
+      (m) => setTransactionMessageFeePayerSigner(payer, m),
+      (m) =>
+        setTransactionMessageLifetimeUsingBlockhash(
+          {
+            blockhash: '11111111111111111111111111111111' as Blockhash,
+            lastValidBlockHeight: 150n,
+          },
+          m
+        ),
+      (m) => appendTransactionMessageInstructions(instructions, m)
+    );
+    return getBase64EncodedWireTransaction(await signTransactionMessageWithSigners(message));
+  }
+
+  function inspect(transaction: string) {
+    return inspectPaymentTransaction(transaction, requirement, fakeRpc.rpc);
+  }
+
+  it('accepts a SOL transfer to the recipient', async () => {
+    const result = await inspect(await sign([transfer()]));
+
+    assert.equal(result.valid, true);
+    assert.equal(result.payer, payer.address);
+  });
+
+  it('accepts durable nonce transactions', async () => {
+    const message = pipe(
+      createTransactionMessage({ version: 0 }),
+      (m) => setTransactionMessageFeePayerSigner(payer, m),
+      (m) =>
+        setTransactionMessageLifetimeUsingDurableNonce(
+          {
+            nonce: '11111111111111111111111111111111' as Nonce,
+            nonceAccountAddress: address(nonceAccount),
+            nonceAuthorityAddress: payer.address,
+          },
+          m
+        ),
+      (m) => appendTransactionMessageInstructions([transfer()], m)
+    );
+    const transaction = getBase64EncodedWireTransaction(
+      await signTransactionMessageWithSigners(message)
+    );
+
+    const result = await inspect(transaction);
+    assert.equal(result.valid, true);
+    assert.equal(result.transaction?.instructions.length, 2);
+  });
+
+  it('only accepts AdvanceNonceAccount as the first instruction', async () => {
+    const result = await inspect(await sign([transfer(), advanceNonce()]));
+
+    assert.equal(result.valid, false);
+    assert.equal(result.errorCode, 'invalid_transaction');
+    assert.match(result.error!, /AdvanceNonceAccount must be the first instruction/);
+  });
+
+  it('rejects instructions outside the allowlist', async () => {
+    const tokenAccount = (await generateKeyPairSigner()).address;
+    const setAuthority = {
+      programAddress: address(TOKEN_PROGRAM_ADDRESS),
+      accounts: [
+        { address: tokenAccount, role: AccountRole.WRITABLE },
+        { address: payer.address, role: AccountRole.READONLY_SIGNER, signer: payer },
+      ],
+      data: new Uint8Array([6, 2, 0]),
+    } as Instruction;
+
+    const result = await inspect(await sign([transfer(), setAuthority]));
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /Instruction 6 of program Tokenkeg\w+ is not allowed/);
+  });
+
+  it('rejects transfers to another recipient or below the amount', async () => {
+    const other = (await generateKeyPairSigner()).address;
+
+    const redirected = await inspect(await sign([transfer(1000000n, other)]));
+    assert.equal(redirected.errorCode, 'recipient_mismatch');
+    const short = await inspect(await sign([transfer(999999n)]));
+    assert.equal(short.errorCode, 'insufficient_amount');
+  });
+
+  it('rejects transactions without the reference', async () => {
+    const instruction = transfer();
+    const withoutReference = {
+      ...instruction,
+      accounts: instruction.accounts!.slice(0, 2),
+    } as Instruction;
+
+    const result = await inspect(await sign([withoutReference]));
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /is not included in the transaction/);
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileWebhookOutbox,
+  MemoryWebhookOutbox,
+  PaymentEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookDispatcher,
+  WebhookDispatcherOptions,
+} from '../src';
+
+const SECRET = 'webhook-secret';
+
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+}
+
+/**
+ * Local webhook receiver answering with the queued statuses (200 once they run out)
+ */
+interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  statuses: number[];
+  close(): Promise<void>;
+}
+
+async function startReceiver(statuses: number[] = []): Promise<WebhookReceiver> {
+  const received: ReceivedWebhook[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body, receivedAt: Date.now() });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  server.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`,
+    received,
+    statuses,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** Wait until a condition holds, failing after timeoutMs */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for webhook deliveries');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+const event: PaymentEvent = {
+  type: 'payment.settled',
+  timestamp: 1000,
+  route: '/api/data',
+  network: 'devnet',
+  reference: 'reference',
+  payer: 'payer',
+  signature: 'signature',
+};
+
+describe('WebhookDispatcher', () => {
+  let receiver: WebhookReceiver;
+  let dispatcher: WebhookDispatcher;
+
+  afterEach(async () => {
+    dispatcher.stop();
+    await receiver.close();
+  });
+
+  function createDispatcher(options: Partial<WebhookDispatcherOptions> = {}) {
+    dispatcher = new WebhookDispatcher({
+      url: receiver.url,
+      secret: SECRET,
+      pollIntervalMs: 5,
+      logger: () => undefined,
+      ...options,
+    });
+    return dispatcher;
+  }
+
+  it('delivers signed events', async () => {
+    receiver = await startReceiver();
+    await createDispatcher().dispatch(event);
+
+    assert.equal(receiver.received.length, 1);
+    const [{ headers, body }] = receiver.received;
+    const signature = String(headers['x-x402-signature']);
+    assert.equal(headers['x-x402-event'], 'payment.settled');
+    assert.deepEqual(JSON.parse(body), { id: headers['x-x402-delivery'], ...event });
+    assert.equal(verifyWebhookSignature(body, signature, SECRET), true);
+    assert.equal(verifyWebhookSignature(body, signature, 'other-secret'), false);
+    assert.equal(verifyWebhookSignature(`${body} `, signature, SECRET), false);
+  });
+
+  it('only delivers the configured event types', async () => {
+    receiver = await startReceiver();
+    createDispatcher({ events: ['payment.failed'] });
+
+    await dispatcher.dispatch(event);
+    await dispatcher.dispatch({ ...event, type: 'payment.failed' });
+    assert.deepEqual(
+      receiver.received.map(({ headers }) => headers['x-x402-event']),
+      ['payment.failed']
+    );
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    receiver = await startReceiver([500, 503]);
+    await createDispatcher({ initialBackoffMs: 40 }).dispatch(event);
+    await waitFor(() => receiver.received.length === 3);
+
+    const [first, second, third] = receiver.received;
+    assert.ok(second.receivedAt - first.receivedAt >= 40);
+    assert.ok(third.receivedAt - second.receivedAt >= 80);
+    const ids = new Set(receiver.received.map(({ headers }) => headers['x-x402-delivery']));
+    assert.equal(ids.size, 1);
+  });
+
+  it('drops a delivery after maxAttempts', async () => {
+    receiver = await startReceiver([500, 500, 500, 500]);
+    const outbox = new MemoryWebhookOutbox();
+    await createDispatcher({ outbox, maxAttempts: 3, initialBackoffMs: 5 }).dispatch(event);
+    await waitFor(() => receiver.received.length === 3);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(receiver.received.length, 3);
+    assert.deepEqual(await outbox.due(Infinity), []);
+  });
+});
+
+describe('FileWebhookOutbox', () => {
+  let dir: string;
+  let receiver: WebhookReceiver;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'x402-webhooks-'));
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('resumes pending deliveries after a restart', async () => {
+    const filePath = join(dir, 'outbox.json');
+    receiver = await startReceiver([500]);
+    const stopped = new WebhookDispatcher({
+      url: receiver.url,
+      secret: SECRET,
+      outbox: new FileWebhookOutbox(filePath),
+      initialBackoffMs: 10,
+      logger: () => undefined,
+    });
+    stopped.stop();
+    await stopped.dispatch(event);
+    assert.equal(receiver.received.length, 1);
+
+    const outbox = new FileWebhookOutbox(filePath);
+    const [pending] = await outbox.due(Infinity);
+    assert.equal(pending.attempts, 1);
+    assert.match(pending.lastError!, /status 500/);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const resumed = new WebhookDispatcher({
+      url: receiver.url,
+      secret: SECRET,
+      outbox,
+      logger: () => undefined,
+    });
+    resumed.stop();
+    await resumed.flush();
+
+    assert.equal(receiver.received.length, 2);
+    assert.equal(receiver.received[1].headers['x-x402-delivery'], pending.id);
+    assert.deepEqual(await new FileWebhookOutbox(filePath).due(Infinity), []);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  it('rejects signatures outside the tolerance', () => {
+    const body = JSON.stringify(event);
+    const old = Math.floor(Date.now() / 1000) - 600;
+
+    assert.equal(verifyWebhookSignature(body, signWebhookPayload(body, SECRET, old), SECRET), false);
+    assert.equal(
+      verifyWebhookSignature(body, signWebhookPayload(body, SECRET, old), SECRET, 900),
+      true
+    );
+    assert.equal(verifyWebhookSignature(body, 'v1=abcd', SECRET), false);
+  });
+});